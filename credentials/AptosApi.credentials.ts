@@ -1,4 +1,10 @@
-import { ICredentialType, INodeProperties } from 'n8n-workflow';
+import {
+	ICredentialDataDecryptedObject,
+	ICredentialTestRequest,
+	ICredentialType,
+	IHttpRequestOptions,
+	INodeProperties,
+} from 'n8n-workflow';
 
 export class AptosApi implements ICredentialType {
 	name = 'aptosApi';
@@ -23,4 +29,28 @@ export class AptosApi implements ICredentialType {
 			description: 'API key for authenticated endpoints. Optional for public endpoints.',
 		},
 	];
-}
\ No newline at end of file
+
+	/**
+	 * Send the API key as a bearer token. Without a key no Authorization header is sent.
+	 */
+	async authenticate(
+		credentials: ICredentialDataDecryptedObject,
+		requestOptions: IHttpRequestOptions,
+	): Promise<IHttpRequestOptions> {
+		if (!credentials.apiKey) {
+			return requestOptions;
+		}
+		return {
+			...requestOptions,
+			headers: { ...requestOptions.headers, Authorization: `Bearer ${credentials.apiKey as string}` },
+		};
+	}
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.baseUrl}}',
+			url: '/',
+			method: 'GET',
+		},
+	};
+}
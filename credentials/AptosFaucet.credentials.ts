@@ -38,6 +38,11 @@ export class AptosFaucet implements ICredentialType {
           value: 'devnet',
           description: 'Aptos devnet faucet',
         },
+        {
+          name: 'Localnet',
+          value: 'localnet',
+          description: 'Local testnet faucet on 127.0.0.1:8081',
+        },
         {
           name: 'Custom',
           value: 'custom',
@@ -83,7 +88,7 @@ export class AptosFaucet implements ICredentialType {
 
   test: ICredentialTestRequest = {
     request: {
-      baseURL: '={{$credentials.network === "custom" ? $credentials.faucetUrl : ($credentials.network === "testnet" ? "https://faucet.testnet.aptoslabs.com" : "https://faucet.devnet.aptoslabs.com")}}',
+      baseURL: '={{$credentials.network === "custom" ? $credentials.faucetUrl : ($credentials.network === "testnet" ? "https://faucet.testnet.aptoslabs.com" : ($credentials.network === "localnet" ? "http://127.0.0.1:8081" : "https://faucet.devnet.aptoslabs.com"))}}',
       url: '/health',
       method: 'GET',
     },
@@ -43,6 +43,11 @@ export class AptosIndexer implements ICredentialType {
           value: 'devnet',
           description: 'Aptos devnet indexer',
         },
+        {
+          name: 'Localnet',
+          value: 'localnet',
+          description: 'Local testnet indexer on 127.0.0.1:8090',
+        },
         {
           name: 'Custom',
           value: 'custom',
@@ -120,7 +125,7 @@ export class AptosIndexer implements ICredentialType {
 
   test: ICredentialTestRequest = {
     request: {
-      baseURL: '={{$credentials.network === "custom" ? $credentials.indexerUrl : ($credentials.network === "mainnet" ? "https://indexer.mainnet.aptoslabs.com/v1/graphql" : ($credentials.network === "testnet" ? "https://indexer.testnet.aptoslabs.com/v1/graphql" : "https://indexer.devnet.aptoslabs.com/v1/graphql"))}}',
+      baseURL: '={{$credentials.network === "custom" ? $credentials.indexerUrl : ($credentials.network === "mainnet" ? "https://indexer.mainnet.aptoslabs.com/v1/graphql" : ($credentials.network === "testnet" ? "https://indexer.testnet.aptoslabs.com/v1/graphql" : ($credentials.network === "localnet" ? "http://127.0.0.1:8090/v1/graphql" : "https://indexer.devnet.aptoslabs.com/v1/graphql")))}}',
       url: '',
       method: 'POST',
       headers: {
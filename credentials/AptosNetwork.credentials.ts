@@ -16,7 +16,8 @@ import type {
  * Aptos Network Credentials
  *
  * Supports multiple Aptos networks with automatic URL configuration.
- * Handles both private key and mnemonic-based authentication.
+ * Handles private key and mnemonic-based authentication with Ed25519,
+ * Secp256k1 or MultiEd25519 keys.
  */
 export class AptosNetwork implements ICredentialType {
   name = 'aptosNetwork';
@@ -44,6 +45,11 @@ export class AptosNetwork implements ICredentialType {
           value: 'devnet',
           description: 'Aptos development network (resets periodically)',
         },
+        {
+          name: 'Localnet',
+          value: 'localnet',
+          description: 'Local testnet on 127.0.0.1 (node 8080, faucet 8081, indexer 8090)',
+        },
         {
           name: 'Custom',
           value: 'custom',
@@ -92,6 +98,42 @@ export class AptosNetwork implements ICredentialType {
         },
       },
     },
+    {
+      displayName: 'Chain ID',
+      name: 'chainId',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 0,
+      description:
+        'Chain ID the node must report before anything is signed. Leave 0 to use the chain ID read from the node.',
+      displayOptions: {
+        show: {
+          network: ['custom', 'localnet'],
+        },
+      },
+    },
+    {
+      displayName: 'Fallback Node URLs',
+      name: 'fallbackNodeUrls',
+      type: 'string',
+      default: '',
+      placeholder: 'https://fullnode-2.example.com/v1, https://fullnode-3.example.com/v1',
+      description:
+        'Comma-separated fullnode REST API URLs to fail over to when the primary node is down or lagging. Added after the built-in endpoints of the selected network.',
+    },
+    {
+      displayName: 'Max Ledger Lag',
+      name: 'maxLedgerLag',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 1000,
+      description:
+        'How many ledger versions a fullnode may trail the most up to date configured node before it is treated as unhealthy',
+    },
     {
       displayName: 'Authentication Method',
       name: 'authMethod',
@@ -116,6 +158,41 @@ export class AptosNetwork implements ICredentialType {
       default: 'privateKey',
       description: 'The method to authenticate with the Aptos network',
     },
+    {
+      displayName: 'Key Scheme',
+      name: 'keyScheme',
+      type: 'options',
+      options: [
+        {
+          name: 'Ed25519',
+          value: 'ed25519',
+          description: 'Ed25519 key with the original authentication scheme, used by most wallets',
+        },
+        {
+          name: 'Ed25519 (SingleKey)',
+          value: 'ed25519SingleKey',
+          description: 'Ed25519 key with the SingleKey authentication scheme',
+        },
+        {
+          name: 'Secp256k1',
+          value: 'secp256k1',
+          description: 'Secp256k1 ECDSA key. Always uses the SingleKey authentication scheme.',
+        },
+        {
+          name: 'MultiEd25519 (K-of-N)',
+          value: 'multiEd25519',
+          description: 'Account controlled by several Ed25519 keys, any K of which sign together',
+        },
+      ],
+      default: 'ed25519',
+      description:
+        'How the keys sign and how the account address is derived from them. The same key gives a different address under each scheme.',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey', 'mnemonic'],
+        },
+      },
+    },
     {
       displayName: 'Private Key',
       name: 'privateKey',
@@ -131,6 +208,61 @@ export class AptosNetwork implements ICredentialType {
         show: {
           authMethod: ['privateKey'],
         },
+        hide: {
+          keyScheme: ['multiEd25519'],
+        },
+      },
+    },
+    {
+      displayName: 'Public Keys',
+      name: 'multiPublicKeys',
+      type: 'string',
+      typeOptions: {
+        rows: 3,
+      },
+      default: '',
+      placeholder: '0x..., 0x..., 0x...',
+      description:
+        'Hex Ed25519 public keys of all N owners, comma or newline separated, in the order the account was created with',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey'],
+          keyScheme: ['multiEd25519'],
+        },
+      },
+    },
+    {
+      displayName: 'Threshold',
+      name: 'threshold',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+      },
+      default: 2,
+      description: 'How many of the keys must sign (K)',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey'],
+          keyScheme: ['multiEd25519'],
+        },
+      },
+    },
+    {
+      displayName: 'Signer Private Keys',
+      name: 'multiPrivateKeys',
+      type: 'string',
+      typeOptions: {
+        password: true,
+      },
+      default: '',
+      placeholder: '0x..., 0x...',
+      description:
+        'Exactly K hex-encoded private keys of the owners that sign, comma separated, in any order. Never share these keys.',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey'],
+          keyScheme: ['multiEd25519'],
+        },
       },
     },
     {
@@ -157,13 +289,82 @@ export class AptosNetwork implements ICredentialType {
       type: 'string',
       default: "m/44'/637'/0'/0'/0'",
       placeholder: "m/44'/637'/0'/0'/0'",
-      description: 'The BIP-44 derivation path for the Aptos account',
+      description:
+        "The BIP-44 derivation path for the Aptos account. Secp256k1 keys use a non-hardened path and default to m/44'/637'/0'/0/0.",
       displayOptions: {
         show: {
           authMethod: ['mnemonic'],
         },
       },
     },
+    {
+      displayName: 'Expected Address',
+      name: 'expectedAddress',
+      type: 'string',
+      default: '',
+      placeholder: '0x...',
+      description:
+        'Address the keys must derive under the key scheme. Nothing is signed when they derive another one. Leave empty to skip the check.',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey', 'mnemonic'],
+        },
+      },
+    },
+    {
+      displayName: 'Account Address',
+      name: 'accountAddress',
+      type: 'string',
+      default: '',
+      placeholder: '0x...',
+      description:
+        'Address the keys sign for, when its authentication key was rotated to these keys. Leave empty to sign for the address the keys derive.',
+      displayOptions: {
+        show: {
+          authMethod: ['privateKey', 'mnemonic'],
+        },
+      },
+    },
+    {
+      displayName: 'Max Retries',
+      name: 'maxRetries',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 3,
+      description:
+        'How many times to retry a request that was rate limited (429) or failed with a transient error. Set to 0 to disable retries.',
+    },
+    {
+      displayName: 'Retry Base Delay (Ms)',
+      name: 'retryBaseDelay',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 500,
+      description:
+        'Initial backoff window. It doubles on every attempt and is randomized with jitter.',
+    },
+    {
+      displayName: 'Retry Max Delay (Ms)',
+      name: 'retryMaxDelay',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 10000,
+      description: 'Upper bound for a single backoff, including delays requested via Retry-After',
+    },
+    {
+      displayName: 'Retry Transaction Submission',
+      name: 'retrySubmissions',
+      type: 'boolean',
+      default: true,
+      description:
+        'Whether to retry submitting a signed transaction when the node rejected it before processing (rate limited or connection refused). Other submission failures are never retried.',
+    },
   ];
 
   authenticate: IAuthenticateGeneric = {
@@ -173,7 +374,7 @@ export class AptosNetwork implements ICredentialType {
 
   test: ICredentialTestRequest = {
     request: {
-      baseURL: '={{$credentials.network === "custom" ? $credentials.nodeUrl : ($credentials.network === "mainnet" ? "https://fullnode.mainnet.aptoslabs.com/v1" : ($credentials.network === "testnet" ? "https://fullnode.testnet.aptoslabs.com/v1" : "https://fullnode.devnet.aptoslabs.com/v1"))}}',
+      baseURL: '={{$credentials.network === "custom" ? $credentials.nodeUrl : ($credentials.network === "mainnet" ? "https://fullnode.mainnet.aptoslabs.com/v1" : ($credentials.network === "testnet" ? "https://fullnode.testnet.aptoslabs.com/v1" : ($credentials.network === "localnet" ? "http://127.0.0.1:8080/v1" : "https://fullnode.devnet.aptoslabs.com/v1")))}}',
       url: '/-/healthy',
       method: 'GET',
     },
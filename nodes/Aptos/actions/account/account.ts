@@ -5,10 +5,12 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
+import type { IExecuteFunctions, INodeExecutionData, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
 import { isValidAddress, normalizeAddress } from '../../utils/accountUtils';
 import { octasToApt, formatApt } from '../../utils/unitConverter';
+import { DEFAULT_MAX_ITEMS } from '../../transport/pagination';
+import { buildBcsOutput } from '../bcsOutput';
 
 export const accountOperations: INodeProperties[] = [
   {
@@ -28,6 +30,7 @@ export const accountOperations: INodeProperties[] = [
       { name: 'Get Account Resources', value: 'getResources', action: 'Get all resources' },
       { name: 'Get Account Transactions', value: 'getTransactions', action: 'Get transactions' },
       { name: 'Get Sequence Number', value: 'getSequenceNumber', action: 'Get sequence number' },
+      { name: 'Rotate Authentication Key', value: 'rotateAuthKey', action: 'Rotate authentication key', description: "Hand control of the credential's account to a new Ed25519 private key" },
       { name: 'Validate Address', value: 'validateAddress', action: 'Validate address' },
     ],
     default: 'get',
@@ -43,6 +46,32 @@ export const accountFields: INodeProperties[] = [
     default: '',
     displayOptions: { show: { resource: ['account'], operation: ['get', 'getBalance', 'getResources', 'getResource', 'getModules', 'getTransactions', 'checkExists', 'getSequenceNumber'] } },
   },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: { show: { resource: ['account'], operation: ['getResources', 'getModules', 'getTransactions'] } },
+  },
+  {
+    displayName: 'Max Items',
+    name: 'maxItems',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    default: DEFAULT_MAX_ITEMS,
+    description: 'Upper bound on the number of results collected when returning all',
+    displayOptions: { show: { resource: ['account'], operation: ['getResources', 'getModules', 'getTransactions'], returnAll: [true] } },
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    default: 50,
+    description: 'Max number of results to return',
+    displayOptions: { show: { resource: ['account'], operation: ['getResources', 'getModules'], returnAll: [false] } },
+  },
   {
     displayName: 'Resource Type',
     name: 'resourceType',
@@ -52,6 +81,33 @@ export const accountFields: INodeProperties[] = [
     placeholder: '0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>',
     displayOptions: { show: { resource: ['account'], operation: ['getResource'] } },
   },
+  {
+    displayName: 'Encoding',
+    name: 'encoding',
+    type: 'options',
+    options: [
+      { name: 'BCS', value: 'bcs', description: 'Ask the fullnode for BCS and decode it with the module ABI, keeping u64 and wider values exact' },
+      { name: 'JSON', value: 'json', description: 'Ask the fullnode for JSON' },
+    ],
+    default: 'json',
+    displayOptions: { show: { resource: ['account'], operation: ['getResource'] } },
+  },
+  {
+    displayName: 'Output Raw Bytes',
+    name: 'outputBinary',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to also attach the undecoded BCS response as binary data, for archival',
+    displayOptions: { show: { resource: ['account'], operation: ['getResource'], encoding: ['bcs'] } },
+  },
+  {
+    displayName: 'Put Output File in Field',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    hint: 'The name of the output binary field to put the BCS bytes in',
+    displayOptions: { show: { resource: ['account'], operation: ['getResource'], encoding: ['bcs'], outputBinary: [true] } },
+  },
   {
     displayName: 'Address to Validate',
     name: 'addressToValidate',
@@ -76,6 +132,16 @@ export const accountFields: INodeProperties[] = [
     default: "m/44'/637'/0'/0'/0'",
     displayOptions: { show: { resource: ['account'], operation: ['derive'] } },
   },
+  {
+    displayName: 'New Private Key',
+    name: 'newPrivateKey',
+    type: 'string',
+    typeOptions: { password: true },
+    required: true,
+    default: '',
+    description: 'Ed25519 private key that controls the account after the rotation. Store it before running: the current key stops working.',
+    displayOptions: { show: { resource: ['account'], operation: ['rotateAuthKey'] } },
+  },
   {
     displayName: 'Options',
     name: 'options',
@@ -84,8 +150,8 @@ export const accountFields: INodeProperties[] = [
     default: {},
     displayOptions: { show: { resource: ['account'], operation: ['getTransactions'] } },
     options: [
-      { displayName: 'Limit', name: 'limit', type: 'number', default: 25 },
-      { displayName: 'Start', name: 'start', type: 'number', default: 0 },
+      { displayName: 'Limit', name: 'limit', type: 'number', default: 25, description: 'Page size when not returning all' },
+      { displayName: 'Start', name: 'start', type: 'number', default: 0, description: 'Sequence number to start from' },
     ],
   },
 ];
@@ -95,13 +161,13 @@ export async function executeAccountOperation(
   client: AptosClientWrapper,
   operation: string,
   index: number,
-): Promise<IDataObject> {
+): Promise<IDataObject | IDataObject[] | INodeExecutionData> {
   switch (operation) {
     case 'get': {
       const address = execFns.getNodeParameter('address', index) as string;
       if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
       const account = await client.getAccount(normalizeAddress(address));
-      return { address: account.address, sequenceNumber: account.sequence_number, authenticationKey: account.authentication_key };
+      return { address: normalizeAddress(address), sequenceNumber: account.sequence_number, authenticationKey: account.authentication_key };
     }
     case 'getBalance': {
       const address = execFns.getNodeParameter('address', index) as string;
@@ -112,28 +178,42 @@ export async function executeAccountOperation(
     case 'getResources': {
       const address = execFns.getNodeParameter('address', index) as string;
       if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
-      const resources = await client.getAccountResources(normalizeAddress(address));
-      return { address: normalizeAddress(address), count: resources.length, resources: resources.map((r) => ({ type: r.type, data: r.data })) };
+      const returnAll = execFns.getNodeParameter('returnAll', index, false) as boolean;
+      const resources = returnAll
+        ? await client.getAllAccountResources(normalizeAddress(address), execFns.getNodeParameter('maxItems', index, DEFAULT_MAX_ITEMS) as number)
+        : (await client.getAccountResourcesPage(normalizeAddress(address), { limit: execFns.getNodeParameter('limit', index, 50) as number })).items;
+      return resources.map((r) => ({ address: normalizeAddress(address), type: r.type, data: r.data }));
     }
     case 'getResource': {
       const address = execFns.getNodeParameter('address', index) as string;
       const resourceType = execFns.getNodeParameter('resourceType', index) as string;
       if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
+      if (execFns.getNodeParameter('encoding', index, 'json') === 'bcs') {
+        const bytes = await client.getAccountResourceBcs(normalizeAddress(address), resourceType);
+        const data = (await client.decodeResourceBcs(resourceType, bytes)) as IDataObject;
+        return buildBcsOutput(execFns, index, { address: normalizeAddress(address), type: resourceType, data }, bytes, 'resource');
+      }
       const resource = await client.getAccountResource(normalizeAddress(address), resourceType);
       return { address: normalizeAddress(address), type: resource.type, data: resource.data };
     }
     case 'getModules': {
       const address = execFns.getNodeParameter('address', index) as string;
       if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
-      const modules = await client.getAccountModules(normalizeAddress(address));
-      return { address: normalizeAddress(address), count: modules.length, modules: modules.map((m) => ({ bytecode: m.bytecode, abi: m.abi })) };
+      const returnAll = execFns.getNodeParameter('returnAll', index, false) as boolean;
+      const modules = returnAll
+        ? await client.getAllAccountModules(normalizeAddress(address), execFns.getNodeParameter('maxItems', index, DEFAULT_MAX_ITEMS) as number)
+        : (await client.getAccountModulesPage(normalizeAddress(address), { limit: execFns.getNodeParameter('limit', index, 50) as number })).items;
+      return modules.map((m) => ({ address: normalizeAddress(address), name: m.abi?.name, bytecode: m.bytecode, abi: m.abi as unknown as IDataObject }));
     }
     case 'getTransactions': {
       const address = execFns.getNodeParameter('address', index) as string;
       const options = execFns.getNodeParameter('options', index) as IDataObject;
       if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
-      const transactions = await client.getAccountTransactions(normalizeAddress(address), { start: (options.start as number) || 0, limit: (options.limit as number) || 25 });
-      return { address: normalizeAddress(address), count: transactions.length, transactions };
+      const returnAll = execFns.getNodeParameter('returnAll', index, false) as boolean;
+      const transactions = returnAll
+        ? await client.getAllAccountTransactions(normalizeAddress(address), { start: (options.start as number) || 0, maxItems: execFns.getNodeParameter('maxItems', index, DEFAULT_MAX_ITEMS) as number })
+        : await client.getAccountTransactions(normalizeAddress(address), { start: (options.start as number) || 0, limit: (options.limit as number) || 25 });
+      return transactions.map((tx) => tx as unknown as IDataObject);
     }
     case 'getSequenceNumber': {
       const address = execFns.getNodeParameter('address', index) as string;
@@ -164,6 +244,17 @@ export async function executeAccountOperation(
       const account = Account.generate();
       return { address: account.accountAddress.toString(), publicKey: account.publicKey.toString(), privateKey: account.privateKey.toString(), note: 'Save private key securely. Fund account to activate on-chain.' };
     }
+    case 'rotateAuthKey': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const newPrivateKey = execFns.getNodeParameter('newPrivateKey', index) as string;
+      const { Ed25519PrivateKey } = await import('@aptos-labs/ts-sdk');
+      const rotation = await client.rotateAuthenticationKey(new Ed25519PrivateKey(newPrivateKey));
+      const controllingKey = rotation.verified ? 'new' : rotation.onChainAuthKey === rotation.previousAuthKey ? 'previous' : 'unknown';
+      const note = rotation.verified
+        ? `The new private key now controls ${rotation.address} and the previous key no longer signs for it. The address does not change: set the credential's private key to the new key and its Account Address to ${rotation.address}.`
+        : `The rotation committed but ${rotation.address} has authentication key ${rotation.onChainAuthKey}, not the new key's. Check the account before signing with either key.`;
+      return { success: true, ...rotation, controllingKey, note };
+    }
     default:
       throw new Error('Unsupported account operation: ' + operation);
   }
@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Shared output helpers for read operations with a BCS encoding option
+ */
+
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { BCS_MIME_TYPE } from '../transport/bcsClient';
+
+/**
+ * Build the output for a BCS read: the decoded or hex JSON, plus the raw bytes
+ * as n8n binary data when "Output Raw Bytes" is on
+ */
+export async function buildBcsOutput(
+  execFns: IExecuteFunctions,
+  index: number,
+  json: IDataObject,
+  bytes: Uint8Array,
+  fileName: string,
+): Promise<IDataObject | INodeExecutionData> {
+  const output: IDataObject = { ...json, encoding: 'bcs', bcsSize: bytes.length };
+  if (!execFns.getNodeParameter('outputBinary', index, false)) {
+    return output;
+  }
+  const propertyName = execFns.getNodeParameter('binaryPropertyName', index, 'data') as string;
+  const binary = await execFns.helpers.prepareBinaryData(
+    Buffer.from(bytes),
+    `${fileName}.bcs`,
+    BCS_MIME_TYPE,
+  );
+  return { json: output, binary: { [propertyName]: binary } };
+}
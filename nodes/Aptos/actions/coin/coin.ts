@@ -8,6 +8,7 @@
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
 import { normalizeAddress } from '../../utils/accountUtils';
+import { formatTypeTag, parseTypeTag } from '../../utils/typeTag';
 import { octasToApt } from '../../utils/unitConverter';
 
 export const coinOperations: INodeProperties[] = [
@@ -67,6 +68,17 @@ export const coinFields: INodeProperties[] = [
   },
 ];
 
+/**
+ * Account holding a coin's `CoinInfo` and the resource type to read
+ */
+function getCoinInfoResource(coinType: string): { address: string; resourceType: string } {
+  const tag = parseTypeTag(coinType);
+  if (tag.kind !== 'struct') {
+    throw new Error(`Coin type must be a struct type, got ${coinType}`);
+  }
+  return { address: tag.address, resourceType: `0x1::coin::CoinInfo<${formatTypeTag(tag)}>` };
+}
+
 export async function executeCoinOperation(
   execFns: IExecuteFunctions,
   client: AptosClientWrapper,
@@ -88,28 +100,23 @@ export async function executeCoinOperation(
     }
     case 'getInfo': {
       const coinType = execFns.getNodeParameter('coinType', index) as string;
-      const parts = coinType.split('::');
-      const coinAddress = parts[0];
-      const resourceType = '0x1::coin::CoinInfo<' + coinType + '>';
-      const resource = await client.getAccountResource(normalizeAddress(coinAddress), resourceType);
+      const { address, resourceType } = getCoinInfoResource(coinType);
+      const resource = await client.getAccountResource(normalizeAddress(address), resourceType);
       return { coinType, info: resource.data };
     }
     case 'getSupply': {
       const coinType = execFns.getNodeParameter('coinType', index) as string;
-      const parts = coinType.split('::');
-      const coinAddress = parts[0];
-      const resourceType = '0x1::coin::CoinInfo<' + coinType + '>';
-      const resource = await client.getAccountResource(normalizeAddress(coinAddress), resourceType);
+      const { address, resourceType } = getCoinInfoResource(coinType);
+      const resource = await client.getAccountResource(normalizeAddress(address), resourceType);
       const data = resource.data as { supply?: { vec: Array<{ integer: { vec: Array<{ value: string }> } }> } };
       const supply = data.supply?.vec?.[0]?.integer?.vec?.[0]?.value || '0';
       return { coinType, supply };
     }
     case 'checkExists': {
       const coinType = execFns.getNodeParameter('coinType', index) as string;
+      const { address, resourceType } = getCoinInfoResource(coinType);
       try {
-        const parts = coinType.split('::');
-        const coinAddress = parts[0];
-        await client.getAccountResource(normalizeAddress(coinAddress), '0x1::coin::CoinInfo<' + coinType + '>');
+        await client.getAccountResource(normalizeAddress(address), resourceType);
         return { coinType, exists: true };
       } catch {
         return { coinType, exists: false };
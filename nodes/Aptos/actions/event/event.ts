@@ -11,6 +11,8 @@
 
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
+import { DEFAULT_MAX_ITEMS } from '../../transport/pagination';
+import { normalizeAddress } from '../../utils/accountUtils';
 
 export const eventOperations: INodeProperties[] = [
   {
@@ -21,6 +23,7 @@ export const eventOperations: INodeProperties[] = [
     displayOptions: { show: { resource: ['event'] } },
     options: [
       { name: 'Get', value: 'get', action: 'Get event' },
+      { name: 'Get by Event Handle', value: 'getByEventHandle', description: 'Get events emitted to an event handle field of an account resource', action: 'Get events by event handle' },
       { name: 'List', value: 'list', action: 'List events' },
     ],
     default: 'get',
@@ -36,6 +39,60 @@ export const eventFields: INodeProperties[] = [
     default: '',
     displayOptions: { show: { resource: ['event'] } },
   },
+  {
+    displayName: 'Event Handle Struct',
+    name: 'eventHandle',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>',
+    description: 'Resource type that holds the event handle',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'] } },
+  },
+  {
+    displayName: 'Field Name',
+    name: 'fieldName',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: 'withdraw_events',
+    description: 'Name of the event handle field within the resource',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'] } },
+  },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'] } },
+  },
+  {
+    displayName: 'Max Items',
+    name: 'maxItems',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    default: DEFAULT_MAX_ITEMS,
+    description: 'Upper bound on the number of results collected when returning all',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'], returnAll: [true] } },
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    default: 50,
+    description: 'Max number of results to return',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'], returnAll: [false] } },
+  },
+  {
+    displayName: 'Start',
+    name: 'start',
+    type: 'number',
+    default: 0,
+    description: 'Sequence number of the first event to return',
+    displayOptions: { show: { resource: ['event'], operation: ['getByEventHandle'] } },
+  },
 ];
 
 export async function executeEventOperation(
@@ -43,7 +100,22 @@ export async function executeEventOperation(
   client: AptosClientWrapper,
   operation: string,
   index: number,
-): Promise<IDataObject> {
+): Promise<IDataObject | IDataObject[]> {
   const address = execFns.getNodeParameter('address', index) as string;
-  return { resource: 'event', operation, address, note: 'Operation placeholder' };
+
+  switch (operation) {
+    case 'getByEventHandle': {
+      const eventHandle = execFns.getNodeParameter('eventHandle', index) as string;
+      const fieldName = execFns.getNodeParameter('fieldName', index) as string;
+      const start = execFns.getNodeParameter('start', index, 0) as number;
+      const returnAll = execFns.getNodeParameter('returnAll', index, false) as boolean;
+      const events = returnAll
+        ? await client.getAllEventsByEventHandle(address, eventHandle, fieldName, { start, maxItems: execFns.getNodeParameter('maxItems', index, DEFAULT_MAX_ITEMS) as number })
+        : await client.getEventsByEventHandle(address, eventHandle, fieldName, { start, limit: execFns.getNodeParameter('limit', index, 50) as number });
+      return events.map((event) => ({ address: normalizeAddress(address), eventHandle, fieldName, sequenceNumber: event.sequence_number, version: event.version, type: event.type, guid: event.guid as unknown as IDataObject, data: event.data as IDataObject }));
+    }
+
+    default:
+      return { resource: 'event', operation, address, note: 'Operation placeholder' };
+  }
 }
@@ -0,0 +1,21 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Shared helper for the idempotency key that write operations can carry
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+/**
+ * Idempotency key set under the node's Idempotency Options for an item, if any
+ */
+export function getIdempotencyKey(execFns: IExecuteFunctions, index: number): string | undefined {
+  const options = execFns.getNodeParameter('idempotencyOptions', index, {}) as IDataObject;
+  const key = String(options.idempotencyKey ?? '').trim();
+  return key || undefined;
+}
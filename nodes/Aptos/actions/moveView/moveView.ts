@@ -11,6 +11,7 @@
 
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
+import { parseTypeArgumentList } from '../../utils/typeTag';
 
 export const moveViewOperations: INodeProperties[] = [
   {
@@ -20,30 +21,148 @@ export const moveViewOperations: INodeProperties[] = [
     noDataExpression: true,
     displayOptions: { show: { resource: ['moveView'] } },
     options: [
-      { name: 'Get', value: 'get', action: 'Get moveView' },
-      { name: 'List', value: 'list', action: 'List moveViews' },
+      { name: 'Call View Function', value: 'call', description: 'Call a view function and decode its return values', action: 'Call a view function' },
+      { name: 'Call View Function (Batch)', value: 'callBatch', description: 'Call the same view function once per input item, with one result per item', action: 'Call a view function in batch' },
     ],
-    default: 'get',
+    default: 'call',
   },
 ];
 
 export const moveViewFields: INodeProperties[] = [
   {
-    displayName: 'Address',
-    name: 'address',
+    displayName: 'Function',
+    name: 'function',
     type: 'string',
     required: true,
     default: '',
+    placeholder: '0x1::coin::balance',
+    displayOptions: { show: { resource: ['moveView'] } },
+  },
+  {
+    displayName: 'Type Arguments',
+    name: 'typeArguments',
+    type: 'string',
+    default: '',
+    placeholder: '0x1::aptos_coin::AptosCoin',
+    description: 'Comma separated Move types for the generic type parameters of the function',
+    displayOptions: { show: { resource: ['moveView'] } },
+  },
+  {
+    displayName: 'Function Arguments',
+    name: 'functionArguments',
+    type: 'json',
+    default: '[]',
+    description: 'Arguments as a JSON array, checked against the function ABI',
+    displayOptions: { show: { resource: ['moveView'] } },
+  },
+  {
+    displayName: 'Ledger Version',
+    name: 'ledgerVersion',
+    type: 'string',
+    default: '',
+    description: 'Ledger version to read at. Leave empty for the pinned ledger version, if any, or the latest version.',
+    displayOptions: { show: { resource: ['moveView'] } },
+  },
+  {
+    displayName: 'Output Names',
+    name: 'outputNames',
+    type: 'string',
+    default: '',
+    placeholder: 'reserveX, reserveY',
+    description: 'Comma separated names for the return values, in order. Unnamed values are called value0, value1 and so on, or value when the function returns one value.',
     displayOptions: { show: { resource: ['moveView'] } },
   },
 ];
 
+/**
+ * Function, type arguments and ledger version of a view call
+ */
+function readViewCall(execFns: IExecuteFunctions, index: number): { function: string; typeArguments: string[]; ledgerVersion?: string } {
+  const functionId = (execFns.getNodeParameter('function', index) as string).trim();
+  const typeArguments = parseTypeArgumentList(execFns.getNodeParameter('typeArguments', index, '') as string);
+  const ledgerVersion = String(execFns.getNodeParameter('ledgerVersion', index, '') ?? '').trim();
+  if (ledgerVersion && !/^\d+$/.test(ledgerVersion)) {
+    throw new Error(`Ledger Version must be a whole number, got ${ledgerVersion}`);
+  }
+  return { function: functionId, typeArguments, ledgerVersion: ledgerVersion || undefined };
+}
+
+/**
+ * Function arguments of one item, given as JSON text or as an array from an expression
+ */
+function readFunctionArguments(execFns: IExecuteFunctions, index: number): unknown[] {
+  const value = execFns.getNodeParameter('functionArguments', index, '[]') as unknown;
+  return (typeof value === 'string' ? JSON.parse(value || '[]') : value) as unknown[];
+}
+
+/**
+ * Name each return value. Values are already JSON safe: integers above u32
+ * are strings, byte vectors hex and options `{ vec: [] }`.
+ */
+function nameOutputs(execFns: IExecuteFunctions, index: number, values: unknown[]): IDataObject {
+  const names = (execFns.getNodeParameter('outputNames', index, '') as string).split(',').map((name) => name.trim());
+  const outputs: IDataObject = {};
+  values.forEach((value, i) => {
+    outputs[names[i] || (values.length === 1 ? 'value' : `value${i}`)] = value as IDataObject[keyof IDataObject];
+  });
+  return outputs;
+}
+
 export async function executeMoveViewOperation(
   execFns: IExecuteFunctions,
   client: AptosClientWrapper,
   operation: string,
   index: number,
 ): Promise<IDataObject> {
-  const address = execFns.getNodeParameter('address', index) as string;
-  return { resource: 'moveView', operation, address, note: 'Operation placeholder' };
+  switch (operation) {
+    case 'call': {
+      const call = readViewCall(execFns, index);
+      const { returnTypes, results } = await client.viewFunctionDecodedBatch(call, [readFunctionArguments(execFns, index)]);
+      if (results[0].error !== undefined) throw new Error(results[0].error);
+      return { ...call, returnTypes, outputs: nameOutputs(execFns, index, results[0].values as unknown[]) };
+    }
+    default:
+      throw new Error('Unsupported moveView operation: ' + operation);
+  }
+}
+
+/**
+ * Operations that take every input item in one call, see executeMoveViewBatch
+ */
+export const moveViewBatchOperations = ['callBatch'];
+
+/**
+ * Call the first item's view function once per input item, with each item's
+ * arguments. The ABI is fetched once. An item whose call fails gets an
+ * `error` and the other items still get their results.
+ */
+export async function executeMoveViewBatch(
+  execFns: IExecuteFunctions,
+  client: AptosClientWrapper,
+  operation: string,
+  indices: number[],
+): Promise<IDataObject[]> {
+  switch (operation) {
+    case 'callBatch': {
+      const call = readViewCall(execFns, indices[0]);
+      const argumentLists = indices.map((index) => {
+        try {
+          return readFunctionArguments(execFns, index);
+        } catch (error) {
+          return new Error(`Function Arguments: ${(error as Error).message}`);
+        }
+      });
+      const valid = argumentLists.flatMap((args, i) => (args instanceof Error ? [] : [i]));
+      const { returnTypes, results } = await client.viewFunctionDecodedBatch(call, valid.map((i) => argumentLists[i] as unknown[]));
+      return indices.map((index, i) => {
+        const args = argumentLists[i];
+        if (args instanceof Error) return { ...call, error: args.message };
+        const result = results[valid.indexOf(i)];
+        if (result.error !== undefined) return { ...call, functionArguments: args as IDataObject[], error: result.error };
+        return { ...call, functionArguments: args as IDataObject[], returnTypes, outputs: nameOutputs(execFns, indices[0], result.values as unknown[]) };
+      });
+    }
+    default:
+      throw new Error('Unsupported moveView batch operation: ' + operation);
+  }
 }
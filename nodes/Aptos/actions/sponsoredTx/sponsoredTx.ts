@@ -7,10 +7,23 @@
 
 /**
  * SponsoredTx Resource Actions
+ *
+ * Fee-payer transactions: the sender signs, a sponsor signs separately and pays the gas.
  */
 
+import { AccountAddress, MoveFunctionId, SimpleEntryFunctionArgumentTypes } from '@aptos-labs/ts-sdk';
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
+import { isValidAddress, normalizeAddress } from '../../utils/accountUtils';
+import {
+  describeTransaction,
+  deserializeAuthenticator,
+  deserializeSimpleTransaction,
+  getEntryFunctionId,
+  getExpireTimestamp,
+  serializeToHex,
+} from '../../utils/transactionUtils';
+import { parseTypeArgumentList } from '../../utils/typeTag';
 
 export const sponsoredTxOperations: INodeProperties[] = [
   {
@@ -20,30 +33,170 @@ export const sponsoredTxOperations: INodeProperties[] = [
     noDataExpression: true,
     displayOptions: { show: { resource: ['sponsoredTx'] } },
     options: [
-      { name: 'Get', value: 'get', action: 'Get sponsoredTx' },
-      { name: 'List', value: 'list', action: 'List sponsoredTxs' },
+      { name: 'Build Sponsored Transaction', value: 'build', description: 'Build a fee-payer transaction and sign it as the sender', action: 'Build sponsored transaction' },
+      { name: 'Sponsor Transaction', value: 'sponsor', description: 'Co-sign a sender-signed transaction as the fee payer', action: 'Sponsor transaction' },
+      { name: 'Submit Sponsored Transaction', value: 'submit', description: 'Submit a transaction signed by both the sender and the fee payer', action: 'Submit sponsored transaction' },
     ],
-    default: 'get',
+    default: 'build',
   },
 ];
 
 export const sponsoredTxFields: INodeProperties[] = [
   {
-    displayName: 'Address',
-    name: 'address',
+    displayName: 'Function',
+    name: 'function',
     type: 'string',
     required: true,
     default: '',
-    displayOptions: { show: { resource: ['sponsoredTx'] } },
+    placeholder: '0x1::aptos_account::transfer',
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['build'] } },
+  },
+  {
+    displayName: 'Type Arguments',
+    name: 'typeArguments',
+    type: 'string',
+    default: '',
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['build'] } },
+  },
+  {
+    displayName: 'Function Arguments',
+    name: 'functionArguments',
+    type: 'json',
+    default: '[]',
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['build'] } },
+  },
+  {
+    displayName: 'Raw Transaction',
+    name: 'rawTransaction',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'BCS hex of the fee-payer transaction, from Build Sponsored Transaction or an app backend',
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['sponsor', 'submit'] } },
+  },
+  {
+    displayName: 'Sender Authenticator',
+    name: 'senderAuthenticator',
+    type: 'string',
+    required: true,
+    default: '',
+    description: "BCS hex of the sender's authenticator",
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['sponsor', 'submit'] } },
+  },
+  {
+    displayName: 'Fee Payer Address',
+    name: 'feePayerAddress',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['submit'] } },
+  },
+  {
+    displayName: 'Fee Payer Authenticator',
+    name: 'feePayerAuthenticator',
+    type: 'string',
+    required: true,
+    default: '',
+    description: "BCS hex of the fee payer's authenticator",
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['submit'] } },
+  },
+  {
+    displayName: 'Gas Options',
+    name: 'gasOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['build'] } },
+    options: [
+      { displayName: 'Expires In (Seconds)', name: 'expiresInSecs', type: 'number', default: 20, description: 'How long the transaction stays valid after it is built. Allow enough time for the sponsor to sign.' },
+      { displayName: 'Gas Unit Price', name: 'gasUnitPrice', type: 'number', default: 100 },
+      { displayName: 'Max Gas Amount', name: 'maxGasAmount', type: 'number', default: 100000 },
+    ],
+  },
+  {
+    displayName: 'Sponsor Options',
+    name: 'sponsorOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: { show: { resource: ['sponsoredTx'], operation: ['sponsor'] } },
+    options: [
+      { displayName: 'Allowed Functions', name: 'allowedFunctions', type: 'string', default: '', placeholder: '0x1::aptos_account::transfer', description: 'Comma-separated entry functions the sponsor pays for. Any other transaction is refused. Empty allows all.' },
+      { displayName: 'Max Gas Fee (Octas)', name: 'maxGasFee', type: 'number', default: 0, description: 'Refuse transactions whose max gas amount times gas unit price exceeds this. 0 disables the check.' },
+      { displayName: 'Submit', name: 'submit', type: 'boolean', default: true, description: 'Whether to submit the transaction and wait for it. Turn off to return the fee payer authenticator instead.' },
+    ],
   },
 ];
 
+/**
+ * Normalize the address part of a function id so `0x1::m::f` matches the long form
+ */
+function normalizeFunctionId(functionId: string): string {
+  const [address, ...rest] = functionId.trim().split('::');
+  return [normalizeAddress(address), ...rest].join('::');
+}
+
+/**
+ * Refuse to pay for transactions outside the sponsor's policy
+ */
+function checkSponsorPolicy(details: IDataObject, functionId: string | undefined, options: IDataObject): void {
+  const allowed = ((options.allowedFunctions as string) || '').split(',').map((f) => f.trim()).filter((f) => f);
+  if (allowed.length > 0 && (!functionId || !allowed.map(normalizeFunctionId).includes(normalizeFunctionId(functionId)))) {
+    throw new Error(`Refusing to sponsor ${functionId ?? 'a non entry function transaction'}: not in Allowed Functions`);
+  }
+  const maxGasFee = BigInt((options.maxGasFee as number) || 0);
+  const gasFee = BigInt(details.maxGasAmount as string) * BigInt(details.gasUnitPrice as string);
+  if (maxGasFee > BigInt(0) && gasFee > maxGasFee) {
+    throw new Error(`Refusing to sponsor a transaction that can cost ${gasFee} octas of gas, above Max Gas Fee ${maxGasFee}`);
+  }
+}
+
 export async function executeSponsoredTxOperation(
   execFns: IExecuteFunctions,
   client: AptosClientWrapper,
   operation: string,
   index: number,
 ): Promise<IDataObject> {
-  const address = execFns.getNodeParameter('address', index) as string;
-  return { resource: 'sponsoredTx', operation, address, note: 'Operation placeholder' };
+  switch (operation) {
+    case 'build': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const functionId = execFns.getNodeParameter('function', index) as string;
+      const typeArguments = parseTypeArgumentList(execFns.getNodeParameter('typeArguments', index) as string);
+      const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
+      const gasOptions = execFns.getNodeParameter('gasOptions', index) as IDataObject;
+      const args = await client.prepareFunctionArguments(functionId, typeArguments, JSON.parse(functionArgs || '[]'), 'entry');
+      const payload = { function: functionId as MoveFunctionId, typeArguments, functionArguments: args as SimpleEntryFunctionArgumentTypes[] };
+      const transaction = await client.buildSponsoredTransaction(payload, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number, expireTimestamp: getExpireTimestamp(gasOptions.expiresInSecs as number) });
+      const senderAuthenticator = await client.signTransaction(transaction);
+      return { ...describeTransaction(transaction), rawTransaction: serializeToHex(transaction), senderAuthenticator: serializeToHex(senderAuthenticator) };
+    }
+    case 'sponsor': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const transaction = deserializeSimpleTransaction(execFns.getNodeParameter('rawTransaction', index) as string);
+      const senderAuthenticator = deserializeAuthenticator(execFns.getNodeParameter('senderAuthenticator', index) as string);
+      const options = execFns.getNodeParameter('sponsorOptions', index, {}) as IDataObject;
+      checkSponsorPolicy(describeTransaction(transaction), getEntryFunctionId(transaction), options);
+      const feePayerAuthenticator = await client.signAsFeePayer(transaction);
+      const details = describeTransaction(transaction);
+      if (options.submit === false) {
+        return { ...details, rawTransaction: serializeToHex(transaction), feePayerAuthenticator: serializeToHex(feePayerAuthenticator) };
+      }
+      const pendingTx = await client.submitSponsoredTransaction(transaction, senderAuthenticator, feePayerAuthenticator);
+      const confirmedTx = await client.waitForTransaction(pendingTx.hash);
+      return { hash: confirmedTx.hash, version: confirmedTx.version, success: confirmedTx.success, gasUsed: confirmedTx.gas_used, sender: details.sender, feePayerAddress: details.feePayerAddress };
+    }
+    case 'submit': {
+      const transaction = deserializeSimpleTransaction(execFns.getNodeParameter('rawTransaction', index) as string);
+      const feePayerAddress = execFns.getNodeParameter('feePayerAddress', index) as string;
+      if (!isValidAddress(feePayerAddress)) throw new Error('Invalid address: ' + feePayerAddress);
+      transaction.feePayerAddress = AccountAddress.from(normalizeAddress(feePayerAddress));
+      const senderAuthenticator = deserializeAuthenticator(execFns.getNodeParameter('senderAuthenticator', index) as string);
+      const feePayerAuthenticator = deserializeAuthenticator(execFns.getNodeParameter('feePayerAuthenticator', index) as string);
+      const pendingTx = await client.submitSponsoredTransaction(transaction, senderAuthenticator, feePayerAuthenticator);
+      const confirmedTx = await client.waitForTransaction(pendingTx.hash);
+      return { hash: confirmedTx.hash, version: confirmedTx.version, success: confirmedTx.success, gasUsed: confirmedTx.gas_used, sender: transaction.rawTransaction.sender.toString(), feePayerAddress: transaction.feePayerAddress.toString() };
+    }
+    default:
+      throw new Error('Unsupported sponsoredTx operation: ' + operation);
+  }
 }
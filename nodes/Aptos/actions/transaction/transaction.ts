@@ -5,8 +5,28 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
+import { InputEntryFunctionData, InputGenerateTransactionPayloadData, MoveFunctionId, SimpleEntryFunctionArgumentTypes, SimpleTransaction, generateSigningMessageForTransaction } from '@aptos-labs/ts-sdk';
+import type { IExecuteFunctions, INodeExecutionData, INodeProperties, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper } from '../../transport/aptosClient';
+import { DEFAULT_MAX_ITEMS } from '../../transport/pagination';
+import { DEFAULT_BATCH_CONCURRENCY } from '../../transport/sequenceManager';
+import { DEFAULT_GAS_BUMP_PERCENT, DEFAULT_WAIT_TIMEOUT_SECS } from '../../transport/transactionLifecycle';
+import { bytesToHex, hexToBytes, isValidAddress, normalizeAddress } from '../../utils/accountUtils';
+import { bcsToHex } from '../../utils/bcsUtils';
+import {
+  describeTransaction,
+  deserializeAuthenticator,
+  deserializeMultiAgentTransaction,
+  deserializeSignedTransaction,
+  deserializeSimpleTransaction,
+  encodeScriptArguments,
+  getExpireTimestamp,
+  parseHexList,
+  serializeToHex,
+} from '../../utils/transactionUtils';
+import { parseTypeArgumentList } from '../../utils/typeTag';
+import { buildBcsOutput } from '../bcsOutput';
+import { getIdempotencyKey } from '../idempotency';
 
 export const transactionOperations: INodeProperties[] = [
   {
@@ -16,13 +36,20 @@ export const transactionOperations: INodeProperties[] = [
     noDataExpression: true,
     displayOptions: { show: { resource: ['transaction'] } },
     options: [
+      { name: 'Build Multi-Agent Transaction', value: 'buildMultiAgent', action: 'Build multi agent transaction' },
+      { name: 'Build Raw Transaction', value: 'buildRaw', description: 'Build an unsigned transaction to sign elsewhere', action: 'Build raw transaction' },
       { name: 'Estimate Gas', value: 'estimateGas', action: 'Estimate gas' },
       { name: 'Get Account Transactions', value: 'getAccountTransactions', action: 'Get account transactions' },
       { name: 'Get Transaction (by Hash)', value: 'getByHash', action: 'Get by hash' },
       { name: 'Get Transaction (by Version)', value: 'getByVersion', action: 'Get by version' },
+      { name: 'Sign Multi-Agent Transaction', value: 'signMultiAgent', action: 'Sign multi agent transaction' },
+      { name: 'Sign Raw Transaction', value: 'signRaw', description: "Sign a raw transaction with the credential's key", action: 'Sign raw transaction' },
       { name: 'Simulate Transaction', value: 'simulate', action: 'Simulate transaction' },
+      { name: 'Submit Multi-Agent Transaction', value: 'submitMultiAgent', action: 'Submit multi agent transaction' },
+      { name: 'Submit Signed Transaction', value: 'submitSigned', description: 'Submit BCS signed transaction bytes', action: 'Submit signed transaction' },
       { name: 'Submit Transaction', value: 'submit', action: 'Submit transaction' },
-      { name: 'Wait for Transaction', value: 'wait', action: 'Wait for transaction' },
+      { name: 'Submit Transactions (Batch)', value: 'submitBatch', description: 'Submit one transaction per input item with locally managed sequence numbers, then wait for all of them', action: 'Submit transactions in batch' },
+      { name: 'Wait for Transaction', value: 'wait', description: 'Wait until a transaction commits or can no longer commit', action: 'Wait for transaction' },
     ],
     default: 'getByHash',
   },
@@ -45,6 +72,33 @@ export const transactionFields: INodeProperties[] = [
     default: 0,
     displayOptions: { show: { resource: ['transaction'], operation: ['getByVersion'] } },
   },
+  {
+    displayName: 'Encoding',
+    name: 'encoding',
+    type: 'options',
+    options: [
+      { name: 'BCS', value: 'bcs', description: 'Ask the fullnode for the BCS encoded transaction and decode it locally with the entry function ABI' },
+      { name: 'JSON', value: 'json', description: 'Ask the fullnode for JSON' },
+    ],
+    default: 'json',
+    displayOptions: { show: { resource: ['transaction'], operation: ['getByHash', 'getByVersion'] } },
+  },
+  {
+    displayName: 'Output Raw Bytes',
+    name: 'outputBinary',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to also attach the undecoded BCS response as binary data, for archival',
+    displayOptions: { show: { resource: ['transaction'], operation: ['getByHash', 'getByVersion'], encoding: ['bcs'] } },
+  },
+  {
+    displayName: 'Put Output File in Field',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    hint: 'The name of the output binary field to put the BCS bytes in',
+    displayOptions: { show: { resource: ['transaction'], operation: ['getByHash', 'getByVersion'], encoding: ['bcs'], outputBinary: [true] } },
+  },
   {
     displayName: 'Account Address',
     name: 'address',
@@ -53,6 +107,34 @@ export const transactionFields: INodeProperties[] = [
     default: '',
     displayOptions: { show: { resource: ['transaction'], operation: ['getAccountTransactions'] } },
   },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: { show: { resource: ['transaction'], operation: ['getAccountTransactions'] } },
+  },
+  {
+    displayName: 'Max Items',
+    name: 'maxItems',
+    type: 'number',
+    typeOptions: { minValue: 1 },
+    default: DEFAULT_MAX_ITEMS,
+    description: 'Upper bound on the number of results collected when returning all',
+    displayOptions: { show: { resource: ['transaction'], operation: ['getAccountTransactions'], returnAll: [true] } },
+  },
+  {
+    displayName: 'Payload Type',
+    name: 'payloadType',
+    type: 'options',
+    options: [
+      { name: 'Entry Function', value: 'entryFunction', description: 'Call a public entry function of a published module' },
+      { name: 'Script', value: 'script', description: 'Run compiled Move script bytecode' },
+    ],
+    default: 'entryFunction',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'] } },
+  },
   {
     displayName: 'Function',
     name: 'function',
@@ -60,21 +142,140 @@ export const transactionFields: INodeProperties[] = [
     required: true,
     default: '',
     placeholder: '0x1::aptos_account::transfer',
-    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'] } },
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'submitBatch', 'simulate', 'estimateGas', 'buildMultiAgent', 'buildRaw'] }, hide: { payloadType: ['script'] } },
+  },
+  {
+    displayName: 'Script Input Type',
+    name: 'scriptInput',
+    type: 'options',
+    options: [
+      { name: 'Binary File', value: 'binary', description: 'Read the compiled script from a binary field, such as a .mv file' },
+      { name: 'Hex', value: 'hex', description: 'Read the compiled script from a hex string' },
+    ],
+    default: 'hex',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'], payloadType: ['script'] } },
+  },
+  {
+    displayName: 'Script Bytecode',
+    name: 'scriptBytecode',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '0xa11ceb0b...',
+    description: 'Hex of the compiled Move script',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'], payloadType: ['script'], scriptInput: ['hex'] } },
+  },
+  {
+    displayName: 'Input Binary Field',
+    name: 'inputBinaryField',
+    type: 'string',
+    required: true,
+    default: 'data',
+    hint: 'The name of the input binary field containing the compiled script',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'], payloadType: ['script'], scriptInput: ['binary'] } },
   },
   {
     displayName: 'Type Arguments',
     name: 'typeArguments',
     type: 'string',
     default: '',
-    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'] } },
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'submitBatch', 'simulate', 'estimateGas', 'buildMultiAgent', 'buildRaw'] } },
   },
   {
     displayName: 'Function Arguments',
     name: 'functionArguments',
     type: 'json',
     default: '[]',
-    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'] } },
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'submitBatch', 'simulate', 'estimateGas', 'buildMultiAgent', 'buildRaw'] }, hide: { payloadType: ['script'] } },
+  },
+  {
+    displayName: 'Script Arguments',
+    name: 'scriptArguments',
+    type: 'json',
+    default: '[]',
+    placeholder: '[{ "type": "address", "value": "0x1" }, { "type": "u64", "value": "100" }]',
+    description: 'Arguments as a JSON array of objects with the Move type and the value, in the order the script takes them. Leave out the signer.',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'simulate', 'estimateGas'], payloadType: ['script'] } },
+  },
+  {
+    displayName: 'Secondary Signer Addresses',
+    name: 'secondarySignerAddresses',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '0x123..., 0x456...',
+    description: 'Comma-separated addresses of the accounts that co-sign the transaction, in signer order',
+    displayOptions: { show: { resource: ['transaction'], operation: ['buildMultiAgent'] } },
+  },
+  {
+    displayName: 'Raw Transaction',
+    name: 'rawTransaction',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'BCS hex of the transaction returned by Build Multi-Agent Transaction or Build Raw Transaction',
+    displayOptions: { show: { resource: ['transaction'], operation: ['signMultiAgent', 'submitMultiAgent', 'signRaw'] } },
+  },
+  {
+    displayName: 'Sender Address',
+    name: 'senderAddress',
+    type: 'string',
+    default: '',
+    description: "Account that will sign the transaction. Defaults to the credential's account.",
+    displayOptions: { show: { resource: ['transaction'], operation: ['buildRaw'] } },
+  },
+  {
+    displayName: 'Input Type',
+    name: 'signedTransactionInput',
+    type: 'options',
+    options: [
+      { name: 'Binary File', value: 'binary', description: 'Read the signed bytes from a binary field' },
+      { name: 'Hex', value: 'hex', description: 'Read the signed bytes from a hex string' },
+    ],
+    default: 'hex',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitSigned'] } },
+  },
+  {
+    displayName: 'Signed Transaction',
+    name: 'signedTransaction',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'BCS hex of the signed transaction',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitSigned'], signedTransactionInput: ['hex'] } },
+  },
+  {
+    displayName: 'Input Binary Field',
+    name: 'inputBinaryField',
+    type: 'string',
+    required: true,
+    default: 'data',
+    hint: 'The name of the input binary field containing the signed transaction bytes',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitSigned'], signedTransactionInput: ['binary'] } },
+  },
+  {
+    displayName: 'Wait for Confirmation',
+    name: 'waitForConfirmation',
+    type: 'boolean',
+    default: true,
+    description: 'Whether to wait until the transaction is committed',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitSigned'] } },
+  },
+  {
+    displayName: 'Sender Authenticator',
+    name: 'senderAuthenticator',
+    type: 'string',
+    default: '',
+    description: "BCS hex of the sender's authenticator. Leave empty to sign with this node's credential.",
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitMultiAgent'] } },
+  },
+  {
+    displayName: 'Secondary Authenticators',
+    name: 'secondaryAuthenticators',
+    type: 'string',
+    default: '',
+    description: "BCS hex authenticators of the secondary signers, as a JSON array or comma-separated list in signer order. Leave an entry empty to sign it with this node's credential.",
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitMultiAgent'] } },
   },
   {
     displayName: 'Options',
@@ -84,8 +285,8 @@ export const transactionFields: INodeProperties[] = [
     default: {},
     displayOptions: { show: { resource: ['transaction'], operation: ['getAccountTransactions'] } },
     options: [
-      { displayName: 'Limit', name: 'limit', type: 'number', default: 25 },
-      { displayName: 'Start', name: 'start', type: 'number', default: 0 },
+      { displayName: 'Limit', name: 'limit', type: 'number', default: 25, description: 'Page size when not returning all' },
+      { displayName: 'Start', name: 'start', type: 'number', default: 0, description: 'Sequence number to start from' },
     ],
   },
   {
@@ -94,12 +295,39 @@ export const transactionFields: INodeProperties[] = [
     type: 'collection',
     placeholder: 'Add Option',
     default: {},
-    displayOptions: { show: { resource: ['transaction'], operation: ['submit'] } },
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'submitBatch', 'buildMultiAgent', 'buildRaw'] } },
     options: [
       { displayName: 'Max Gas Amount', name: 'maxGasAmount', type: 'number', default: 100000 },
+      { displayName: 'Expires In (Seconds)', name: 'expiresInSecs', type: 'number', default: 20, description: 'How long the transaction stays valid after it is built. Allow enough time to collect every signature.' },
       { displayName: 'Gas Unit Price', name: 'gasUnitPrice', type: 'number', default: 100 },
     ],
   },
+  {
+    displayName: 'Wait Options',
+    name: 'waitOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: { show: { resource: ['transaction'], operation: ['submit', 'wait'] } },
+    options: [
+      { displayName: 'Gas Bump (%)', name: 'gasBumpPercent', type: 'number', typeOptions: { minValue: 1 }, default: DEFAULT_GAS_BUMP_PERCENT, description: 'How much to raise the gas unit price on each resubmission' },
+      { displayName: 'Gas Price Ceiling', name: 'maxGasUnitPrice', type: 'number', default: 0, description: 'Resend a transaction that expired without committing, with the same sequence number and a higher gas unit price, up to this price. Only transactions this node signed can be resent. 0 never resends.' },
+      { displayName: 'Wait Timeout (Seconds)', name: 'timeoutSecs', type: 'number', typeOptions: { minValue: 1 }, default: DEFAULT_WAIT_TIMEOUT_SECS, description: 'How long to wait before reporting a transaction that can still commit as pending' },
+    ],
+  },
+  {
+    displayName: 'Batch Options',
+    name: 'batchOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    description: 'Batch and gas options are read from the first item and apply to the whole batch',
+    displayOptions: { show: { resource: ['transaction'], operation: ['submitBatch'] } },
+    options: [
+      { displayName: 'Concurrency', name: 'concurrency', type: 'number', typeOptions: { minValue: 1 }, default: DEFAULT_BATCH_CONCURRENCY, description: 'How many transactions are built, signed and submitted at the same time' },
+      { displayName: 'Wait Timeout (Seconds)', name: 'timeoutSecs', type: 'number', typeOptions: { minValue: 1 }, default: 60, description: 'How long to wait for each transaction to commit before reporting it as pending' },
+    ],
+  },
 ];
 
 export async function executeTransactionOperation(
@@ -107,66 +335,230 @@ export async function executeTransactionOperation(
   client: AptosClientWrapper,
   operation: string,
   index: number,
-): Promise<IDataObject> {
+): Promise<IDataObject | IDataObject[] | INodeExecutionData> {
   switch (operation) {
     case 'getByHash': {
       const hash = execFns.getNodeParameter('transactionHash', index) as string;
+      if (execFns.getNodeParameter('encoding', index, 'json') === 'bcs') {
+        const bytes = await client.getTransactionByHashBcs(hash);
+        return buildBcsOutput(execFns, index, { hash, ...(await client.decodeTransactionBcs(bytes)), bcs: bcsToHex(bytes) }, bytes, hash);
+      }
       const tx = await client.getTransactionByHash(hash);
       return { hash: tx.hash, version: tx.version, success: tx.success, vmStatus: tx.vm_status, sender: tx.sender, gasUsed: tx.gas_used, timestamp: tx.timestamp };
     }
     case 'getByVersion': {
       const version = execFns.getNodeParameter('ledgerVersion', index) as number;
+      if (execFns.getNodeParameter('encoding', index, 'json') === 'bcs') {
+        const bytes = await client.getTransactionByVersionBcs(version);
+        return buildBcsOutput(execFns, index, { version: String(version), ...(await client.decodeTransactionBcs(bytes)), bcs: bcsToHex(bytes) }, bytes, `transaction-${version}`);
+      }
       const tx = await client.getTransactionByVersion(version);
       return { hash: tx.hash, version: tx.version, success: tx.success, sender: tx.sender, gasUsed: tx.gas_used };
     }
     case 'getAccountTransactions': {
       const address = execFns.getNodeParameter('address', index) as string;
       const options = execFns.getNodeParameter('options', index) as IDataObject;
-      const transactions = await client.getAccountTransactions(address, { start: (options.start as number) || 0, limit: (options.limit as number) || 25 });
-      return { address, count: transactions.length, transactions: transactions.map((tx) => ({ hash: tx.hash, version: tx.version, success: tx.success, gasUsed: tx.gas_used })) };
+      const returnAll = execFns.getNodeParameter('returnAll', index, false) as boolean;
+      const transactions = returnAll
+        ? await client.getAllAccountTransactions(address, { start: (options.start as number) || 0, maxItems: execFns.getNodeParameter('maxItems', index, DEFAULT_MAX_ITEMS) as number })
+        : await client.getAccountTransactions(address, { start: (options.start as number) || 0, limit: (options.limit as number) || 25 });
+      return transactions.map((tx) => ({ address, hash: tx.hash, version: tx.version, sequenceNumber: tx.sequence_number, success: tx.success, gasUsed: tx.gas_used }));
     }
     case 'wait': {
       const hash = execFns.getNodeParameter('transactionHash', index) as string;
-      const tx = await client.waitForTransaction(hash);
-      return { hash: tx.hash, version: tx.version, success: tx.success, vmStatus: tx.vm_status, gasUsed: tx.gas_used };
+      return { ...(await client.trackTransaction(hash, getTrackOptions(execFns, index))) };
     }
     case 'submit': {
       if (!client.hasSigner()) throw new Error('Authentication required');
-      const functionId = execFns.getNodeParameter('function', index) as string;
-      const typeArgsStr = execFns.getNodeParameter('typeArguments', index) as string;
-      const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
       const gasOptions = execFns.getNodeParameter('gasOptions', index) as IDataObject;
-      const typeArguments = typeArgsStr ? typeArgsStr.split(',').map((t) => t.trim()) : [];
-      const args = JSON.parse(functionArgs || '[]');
-      const payload = { function: functionId as any, typeArguments: typeArguments as any, functionArguments: args };
-      const pendingTx = await client.submitTransaction(payload, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number });
+      const payload = await getTransactionPayload(execFns, client, index);
+      const pendingTx = await client.submitTransaction(payload, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number, expireTimestamp: getExpireTimestamp(gasOptions.expiresInSecs as number) });
+      return { ...(await client.trackTransaction(pendingTx.hash, getTrackOptions(execFns, index, gasOptions.expiresInSecs as number))) };
+    }
+    case 'buildMultiAgent': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const secondaryStr = execFns.getNodeParameter('secondarySignerAddresses', index) as string;
+      const gasOptions = execFns.getNodeParameter('gasOptions', index) as IDataObject;
+      const secondarySigners = secondaryStr.split(',').map((a) => a.trim()).filter((a) => a);
+      for (const address of secondarySigners) {
+        if (!isValidAddress(address)) throw new Error('Invalid address: ' + address);
+      }
+      const payload = await getEntryFunctionPayload(execFns, client, index);
+      const transaction = await client.buildMultiAgentTransaction(payload, secondarySigners, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number, expireTimestamp: getExpireTimestamp(gasOptions.expiresInSecs as number) });
+      return { ...describeTransaction(transaction), rawTransaction: serializeToHex(transaction) };
+    }
+    case 'signMultiAgent': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const transaction = deserializeMultiAgentTransaction(execFns.getNodeParameter('rawTransaction', index) as string);
+      const details = describeTransaction(transaction);
+      const signer = client.getSignerAddress();
+      const signers = [details.sender, ...(details.secondarySignerAddresses as string[])];
+      if (!signers.includes(signer)) throw new Error(`Account ${signer} is not a signer of this transaction`);
+      const authenticator = await client.signTransaction(transaction);
+      return { ...details, signer, authenticator: serializeToHex(authenticator) };
+    }
+    case 'submitMultiAgent': {
+      const transaction = deserializeMultiAgentTransaction(execFns.getNodeParameter('rawTransaction', index) as string);
+      const details = describeTransaction(transaction);
+      const secondarySigners = details.secondarySignerAddresses as string[];
+      const secondaryHex = parseHexList(execFns.getNodeParameter('secondaryAuthenticators', index, '') as string | string[]);
+      if (secondaryHex.length > secondarySigners.length) {
+        throw new Error(`Got ${secondaryHex.length} secondary authenticators for ${secondarySigners.length} secondary signers`);
+      }
+      const signer = client.hasSigner() ? client.getSignerAddress() : undefined;
+      const authenticatorFor = async (address: string, hex: string | undefined, role: string) => {
+        if (hex) return deserializeAuthenticator(hex);
+        if (address !== signer) throw new Error(`Missing authenticator for ${role} ${address}`);
+        return client.signTransaction(transaction);
+      };
+      const senderAuthenticator = await authenticatorFor(details.sender as string, execFns.getNodeParameter('senderAuthenticator', index, '') as string, 'sender');
+      const secondaryAuthenticators = [];
+      for (const [i, address] of secondarySigners.entries()) {
+        secondaryAuthenticators.push(await authenticatorFor(address, secondaryHex[i], 'secondary signer'));
+      }
+      const pendingTx = await client.submitMultiAgentTransaction(transaction, senderAuthenticator, secondaryAuthenticators);
       const confirmedTx = await client.waitForTransaction(pendingTx.hash);
-      return { hash: confirmedTx.hash, version: confirmedTx.version, success: confirmedTx.success, gasUsed: confirmedTx.gas_used };
+      return { hash: confirmedTx.hash, version: confirmedTx.version, success: confirmedTx.success, gasUsed: confirmedTx.gas_used, sender: details.sender, secondarySignerAddresses: secondarySigners };
+    }
+    case 'buildRaw': {
+      const gasOptions = execFns.getNodeParameter('gasOptions', index) as IDataObject;
+      const sender = (execFns.getNodeParameter('senderAddress', index, '') as string) || (client.hasSigner() ? client.getSignerAddress() : '');
+      if (!isValidAddress(sender)) throw new Error('Invalid address: ' + sender);
+      const payload = await getEntryFunctionPayload(execFns, client, index);
+      const transaction = await client.buildRawTransaction(normalizeAddress(sender), payload, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number, expireTimestamp: getExpireTimestamp(gasOptions.expiresInSecs as number) });
+      return { ...describeTransaction(transaction), rawTransaction: serializeToHex(transaction), signingMessage: bytesToHex(generateSigningMessageForTransaction(transaction)) };
+    }
+    case 'signRaw': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const transaction = deserializeSimpleTransaction(execFns.getNodeParameter('rawTransaction', index) as string);
+      const signed = await client.signRawTransaction(transaction);
+      return { ...describeTransaction(transaction), hash: signed.hash, authenticator: serializeToHex(signed.authenticator), signedTransaction: bytesToHex(signed.signedTransaction) };
+    }
+    case 'submitSigned': {
+      const bytes = execFns.getNodeParameter('signedTransactionInput', index, 'hex') === 'binary'
+        ? new Uint8Array(await execFns.helpers.getBinaryDataBuffer(index, execFns.getNodeParameter('inputBinaryField', index) as string))
+        : hexToBytes((execFns.getNodeParameter('signedTransaction', index) as string).trim());
+      const details = describeTransaction(new SimpleTransaction(deserializeSignedTransaction(bytes).raw_txn));
+      const pendingTx = await client.submitSignedTransaction(bytes);
+      if (execFns.getNodeParameter('waitForConfirmation', index, true) === false) {
+        return { ...details, hash: pendingTx.hash, status: 'pending' };
+      }
+      const confirmedTx = await client.waitForTransaction(pendingTx.hash);
+      return { ...details, hash: confirmedTx.hash, version: confirmedTx.version, success: confirmedTx.success, gasUsed: confirmedTx.gas_used };
     }
     case 'simulate': {
       if (!client.hasSigner()) throw new Error('Authentication required');
-      const functionId = execFns.getNodeParameter('function', index) as string;
-      const typeArgsStr = execFns.getNodeParameter('typeArguments', index) as string;
-      const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
-      const typeArguments = typeArgsStr ? typeArgsStr.split(',').map((t) => t.trim()) : [];
-      const args = JSON.parse(functionArgs || '[]');
-      const payload = { function: functionId as any, typeArguments: typeArguments as any, functionArguments: args };
-      const simulation = await client.simulateTransaction(payload);
+      const simulation = await client.simulateTransaction(await getTransactionPayload(execFns, client, index));
       const sim = simulation[0];
       return { success: sim.success, vmStatus: sim.vm_status, gasUsed: sim.gas_used, gasUnitPrice: sim.gas_unit_price };
     }
     case 'estimateGas': {
       if (!client.hasSigner()) throw new Error('Authentication required');
-      const functionId = execFns.getNodeParameter('function', index) as string;
-      const typeArgsStr = execFns.getNodeParameter('typeArguments', index) as string;
-      const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
-      const typeArguments = typeArgsStr ? typeArgsStr.split(',').map((t) => t.trim()) : [];
-      const args = JSON.parse(functionArgs || '[]');
-      const payload = { function: functionId as any, typeArguments: typeArguments as any, functionArguments: args };
-      const estimate = await client.estimateGas(payload);
+      const estimate = await client.estimateGas(await getTransactionPayload(execFns, client, index));
       return { gasUsed: estimate.gasUsed, gasUnitPrice: estimate.gasUnitPrice, estimatedCostOctas: estimate.gasUsed * estimate.gasUnitPrice };
     }
     default:
       throw new Error('Unsupported transaction operation: ' + operation);
   }
 }
+
+/**
+ * Entry function or compiled script payload of the submit, simulate and
+ * estimate gas operations
+ */
+async function getTransactionPayload(execFns: IExecuteFunctions, client: AptosClientWrapper, index: number): Promise<InputGenerateTransactionPayloadData> {
+  if (execFns.getNodeParameter('payloadType', index, 'entryFunction') === 'script') {
+    const typeArguments = parseTypeArgumentList(execFns.getNodeParameter('typeArguments', index) as string);
+    const bytecode = execFns.getNodeParameter('scriptInput', index, 'hex') === 'binary'
+      ? new Uint8Array(await execFns.helpers.getBinaryDataBuffer(index, execFns.getNodeParameter('inputBinaryField', index) as string))
+      : hexToBytes((execFns.getNodeParameter('scriptBytecode', index) as string).trim());
+    if (bytecode.length === 0) throw new Error('Script bytecode is empty');
+    const scriptArgs = execFns.getNodeParameter('scriptArguments', index, '[]') as string | IDataObject[];
+    return { bytecode, typeArguments, functionArguments: encodeScriptArguments(typeof scriptArgs === 'string' ? JSON.parse(scriptArgs || '[]') : scriptArgs) };
+  }
+  return getEntryFunctionPayload(execFns, client, index);
+}
+
+/**
+ * Entry function payload from the Function, Type Arguments and Function
+ * Arguments fields, with the arguments checked against the function's ABI
+ */
+async function getEntryFunctionPayload(execFns: IExecuteFunctions, client: AptosClientWrapper, index: number): Promise<InputEntryFunctionData> {
+  const functionId = execFns.getNodeParameter('function', index) as string;
+  const typeArguments = parseTypeArgumentList(execFns.getNodeParameter('typeArguments', index) as string);
+  const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
+  const functionArguments = await client.prepareFunctionArguments(functionId, typeArguments, JSON.parse(functionArgs || '[]'), 'entry');
+  return { function: functionId as MoveFunctionId, typeArguments, functionArguments: functionArguments as SimpleEntryFunctionArgumentTypes[] };
+}
+
+/**
+ * Function, type arguments and function arguments of one batch item, or why
+ * they could not be read
+ */
+function readEntryFunctionCall(execFns: IExecuteFunctions, index: number): { function: string; typeArguments: string[]; functionArguments: unknown; error?: string } {
+  const functionId = execFns.getNodeParameter('function', index) as string;
+  try {
+    const typeArguments = parseTypeArgumentList(execFns.getNodeParameter('typeArguments', index) as string);
+    const functionArgs = execFns.getNodeParameter('functionArguments', index) as string;
+    return { function: functionId, typeArguments, functionArguments: JSON.parse(functionArgs || '[]') };
+  } catch (error) {
+    return { function: functionId, typeArguments: [], functionArguments: [], error: (error as Error).message };
+  }
+}
+
+/**
+ * Wait timeout and gas bump settings from the Wait Options collection
+ */
+function getTrackOptions(execFns: IExecuteFunctions, index: number, expiresInSecs?: number) {
+  const waitOptions = execFns.getNodeParameter('waitOptions', index, {}) as IDataObject;
+  const maxGasUnitPrice = waitOptions.maxGasUnitPrice as number | undefined;
+  return {
+    timeoutSecs: waitOptions.timeoutSecs as number | undefined,
+    gasBump: maxGasUnitPrice ? { maxGasUnitPrice, percent: waitOptions.gasBumpPercent as number | undefined, expiresInSecs } : undefined,
+  };
+}
+
+/**
+ * Operations that take every input item in one call, see executeTransactionBatch
+ */
+export const transactionBatchOperations = ['submitBatch'];
+
+/**
+ * Run an operation over all input items at once. Returns one result per item,
+ * in item order. Items whose transaction failed report it in `status` and
+ * `error` instead of throwing, so hashes of the submitted ones are never lost.
+ */
+export async function executeTransactionBatch(
+  execFns: IExecuteFunctions,
+  client: AptosClientWrapper,
+  operation: string,
+  indices: number[],
+): Promise<IDataObject[]> {
+  switch (operation) {
+    case 'submitBatch': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const calls = indices.map((index) => readEntryFunctionCall(execFns, index));
+      const readable = calls.flatMap((call, i) => (call.error === undefined ? [i] : []));
+      const prepared = await client.prepareFunctionArgumentsBatch(readable.map((i) => calls[i]), 'entry');
+      readable.forEach((i, j) => {
+        calls[i].error = prepared[j].error;
+        calls[i].functionArguments = prepared[j].functionArguments;
+      });
+      const valid = calls.flatMap((call, i) => (call.error === undefined ? [i] : []));
+      const payloads = valid.map((i): InputEntryFunctionData => ({ function: calls[i].function as MoveFunctionId, typeArguments: calls[i].typeArguments, functionArguments: calls[i].functionArguments as SimpleEntryFunctionArgumentTypes[] }));
+      const gasOptions = execFns.getNodeParameter('gasOptions', indices[0], {}) as IDataObject;
+      const batchOptions = execFns.getNodeParameter('batchOptions', indices[0], {}) as IDataObject;
+      const idempotencyKeys = indices.map((index) => getIdempotencyKey(execFns, index));
+      const outcomes = payloads.length
+        ? await client.submitTransactionBatch(payloads, { maxGasAmount: gasOptions.maxGasAmount as number, gasUnitPrice: gasOptions.gasUnitPrice as number, expireTimestamp: getExpireTimestamp(gasOptions.expiresInSecs as number), concurrency: batchOptions.concurrency as number, timeoutSecs: batchOptions.timeoutSecs as number, idempotencyKeys: valid.map((i) => idempotencyKeys[i]) })
+        : [];
+      return calls.map((call, i) => {
+        if (call.error !== undefined) return { function: call.function, status: 'invalid', error: call.error };
+        const outcome = outcomes[valid.indexOf(i)];
+        return { function: call.function, ...outcome, ...(outcome.submission ? { idempotencyKey: idempotencyKeys[i] } : {}) };
+      });
+    }
+    default:
+      throw new Error('Unsupported transaction batch operation: ' + operation);
+  }
+}
@@ -5,8 +5,12 @@
  * See LICENSE file for details.
  */
 
+import { DEFAULT_MAX_GAS_AMOUNT, MoveFunctionId } from '@aptos-labs/ts-sdk';
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
+import { APT_COIN_TYPE, ENTRY_FUNCTIONS, RESOURCE_TYPES } from '../../constants/modules';
 import { AptosClientWrapper } from '../../transport/aptosClient';
+import { DEFAULT_BATCH_CONCURRENCY } from '../../transport/sequenceManager';
+import { getIdempotencyKey } from '../idempotency';
 import { isValidAddress, normalizeAddress } from '../../utils/accountUtils';
 import { aptToOctas, octasToApt } from '../../utils/unitConverter';
 
@@ -18,6 +22,7 @@ export const transferOperations: INodeProperties[] = [
     noDataExpression: true,
     displayOptions: { show: { resource: ['transfer'] } },
     options: [
+      { name: 'Batch Transfer', value: 'batchTransfer', description: 'Pay every input item its amount in one run, with one result per recipient', action: 'Batch transfer' },
       { name: 'Check Balance Sufficient', value: 'checkBalanceSufficient', action: 'Check balance' },
       { name: 'Estimate Transfer Fee', value: 'estimateFee', action: 'Estimate fee' },
       { name: 'Get Coin Store', value: 'getCoinStore', action: 'Get coin store' },
@@ -36,7 +41,7 @@ export const transferFields: INodeProperties[] = [
     type: 'string',
     required: true,
     default: '',
-    displayOptions: { show: { resource: ['transfer'], operation: ['transferApt', 'transferCoin', 'estimateFee'] } },
+    displayOptions: { show: { resource: ['transfer'], operation: ['transferApt', 'transferCoin', 'estimateFee', 'batchTransfer'] } },
   },
   {
     displayName: 'Amount (APT)',
@@ -52,7 +57,16 @@ export const transferFields: INodeProperties[] = [
     type: 'string',
     required: true,
     default: '',
-    displayOptions: { show: { resource: ['transfer'], operation: ['transferCoin'] } },
+    displayOptions: { show: { resource: ['transfer'], operation: ['transferCoin', 'batchTransfer'] } },
+  },
+  {
+    displayName: 'Asset',
+    name: 'asset',
+    type: 'string',
+    required: true,
+    default: APT_COIN_TYPE,
+    description: 'Coin type, or the metadata address of a fungible asset',
+    displayOptions: { show: { resource: ['transfer'], operation: ['batchTransfer'] } },
   },
   {
     displayName: 'Coin Type',
@@ -82,8 +96,92 @@ export const transferFields: INodeProperties[] = [
       { displayName: 'Wait for Confirmation', name: 'waitForConfirmation', type: 'boolean', default: true },
     ],
   },
+  {
+    displayName: 'Batch Options',
+    name: 'batchOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    description: 'Read from the first item and applied to the whole batch',
+    displayOptions: { show: { resource: ['transfer'], operation: ['batchTransfer'] } },
+    options: [
+      { displayName: 'Check Balance', name: 'checkBalance', type: 'boolean', default: true, description: 'Whether to refuse the whole batch when the sender holds less of an asset than the batch sends' },
+      { displayName: 'Concurrency', name: 'concurrency', type: 'number', typeOptions: { minValue: 1 }, default: DEFAULT_BATCH_CONCURRENCY, description: 'How many transfers are built, signed and submitted at the same time' },
+      { displayName: 'Max Gas Amount', name: 'maxGasAmount', type: 'number', default: 100000 },
+      { displayName: 'Wait Timeout (Seconds)', name: 'timeoutSecs', type: 'number', typeOptions: { minValue: 1 }, default: 60, description: 'How long to wait for each transfer to commit before reporting it as pending' },
+    ],
+  },
 ];
 
+/**
+ * One row of a batch transfer, as read from its input item
+ */
+interface TransferRow {
+  recipient: string;
+  amount: string;
+  asset: string;
+  error?: string;
+}
+
+/**
+ * Read and check a batch transfer row without touching the chain
+ */
+function readTransferRow(execFns: IExecuteFunctions, index: number): TransferRow {
+  const recipient = String(execFns.getNodeParameter('recipientAddress', index) ?? '').trim();
+  const amount = String(execFns.getNodeParameter('amount', index) ?? '').trim();
+  const asset = String(execFns.getNodeParameter('asset', index, APT_COIN_TYPE) ?? '').trim();
+  const row: TransferRow = { recipient, amount, asset };
+  if (!isValidAddress(recipient)) {
+    row.error = 'Invalid address: ' + recipient;
+  } else if (!/^\d+$/.test(amount) || BigInt(amount) === BigInt(0)) {
+    row.error = 'Invalid amount: ' + amount + '. Use a positive whole number in the smallest unit.';
+  } else if (!asset.includes('::') && !isValidAddress(asset)) {
+    row.error = 'Invalid asset: ' + asset;
+  } else {
+    row.recipient = normalizeAddress(recipient);
+    row.asset = asset.includes('::') ? asset : normalizeAddress(asset);
+  }
+  return row;
+}
+
+/**
+ * Entry function call that pays one row
+ */
+function getTransferPayload(row: TransferRow) {
+  if (row.asset === APT_COIN_TYPE) {
+    return { function: ENTRY_FUNCTIONS.transfer as MoveFunctionId, typeArguments: [], functionArguments: [row.recipient, row.amount] };
+  }
+  if (row.asset.includes('::')) {
+    return { function: ENTRY_FUNCTIONS.transferCoins as MoveFunctionId, typeArguments: [row.asset], functionArguments: [row.recipient, row.amount] };
+  }
+  return { function: ENTRY_FUNCTIONS.transferFungibleAsset as MoveFunctionId, typeArguments: [RESOURCE_TYPES.metadata], functionArguments: [row.asset, row.recipient, row.amount] };
+}
+
+/**
+ * Refuse a batch that sends more of any asset than the sender holds. The
+ * most every transfer may pay in gas is added to the APT total.
+ */
+async function checkBatchBalance(client: AptosClientWrapper, rows: TransferRow[], gas: { maxGasAmount: number; gasUnitPrice: number }): Promise<void> {
+  const sender = client.getSignerAddress();
+  const totals = new Map<string, bigint>();
+  for (const row of rows) {
+    totals.set(row.asset, (totals.get(row.asset) ?? BigInt(0)) + BigInt(row.amount));
+  }
+  const maxGasFee = BigInt(gas.maxGasAmount) * BigInt(gas.gasUnitPrice) * BigInt(rows.length);
+  if (maxGasFee > BigInt(0)) {
+    totals.set(APT_COIN_TYPE, totals.get(APT_COIN_TYPE) ?? BigInt(0));
+  }
+  for (const [asset, total] of totals) {
+    const balance = asset.includes('::')
+      ? await client.getCoinBalance(sender, asset, { throwOnError: true })
+      : await client.getFungibleAssetBalance(sender, asset);
+    const fee = asset === APT_COIN_TYPE ? maxGasFee : BigInt(0);
+    if (balance < total + fee) {
+      throw new Error(`Insufficient balance of ${asset}: the batch sends ${total}${fee > BigInt(0) ? ` plus up to ${fee} in gas` : ''} but ${sender} holds ${balance}. Nothing was submitted.`);
+    }
+  }
+}
+
 export async function executeTransferOperation(
   execFns: IExecuteFunctions,
   client: AptosClientWrapper,
@@ -166,3 +264,46 @@ export async function executeTransferOperation(
       throw new Error('Unsupported transfer operation: ' + operation);
   }
 }
+
+/**
+ * Operations that take every input item in one call, see executeTransferBatch
+ */
+export const transferBatchOperations = ['batchTransfer'];
+
+/**
+ * Run an operation over all input items at once. Returns one result per item,
+ * in item order. `retryable` is true only when the transfer certainly did not
+ * move funds, so those rows can be fed back in without paying anyone twice.
+ */
+export async function executeTransferBatch(
+  execFns: IExecuteFunctions,
+  client: AptosClientWrapper,
+  operation: string,
+  indices: number[],
+): Promise<IDataObject[]> {
+  switch (operation) {
+    case 'batchTransfer': {
+      if (!client.hasSigner()) throw new Error('Authentication required');
+      const rows = indices.map((index) => readTransferRow(execFns, index));
+      const keys = indices.map((index) => getIdempotencyKey(execFns, index));
+      const valid = rows.flatMap((row, i) => (row.error ? [] : [i]));
+      const batchOptions = execFns.getNodeParameter('batchOptions', indices[0], {}) as IDataObject;
+      const maxGasAmount = (batchOptions.maxGasAmount as number | undefined) ?? DEFAULT_MAX_GAS_AMOUNT;
+      const gasUnitPrice = await client.getGasUnitPrice();
+      if (batchOptions.checkBalance !== false) {
+        // Rows whose key already sent a transaction are replayed, not paid again
+        const unpaid = valid.filter((i) => !keys[i] || !client.idempotencyStore?.get(keys[i] as string));
+        await checkBatchBalance(client, unpaid.map((i) => rows[i]), { maxGasAmount, gasUnitPrice });
+      }
+      const outcomes = await client.submitTransactionBatch(valid.map((i) => getTransferPayload(rows[i])), { maxGasAmount, gasUnitPrice, concurrency: batchOptions.concurrency as number, timeoutSecs: batchOptions.timeoutSecs as number, idempotencyKeys: valid.map((i) => keys[i]) });
+      return rows.map((row, i) => {
+        const { error, ...transfer } = row;
+        if (error) return { ...transfer, status: 'invalid', error, retryable: true };
+        const outcome = outcomes[valid.indexOf(i)];
+        return { ...transfer, ...outcome, ...(outcome.submission ? { idempotencyKey: keys[i] } : {}), retryable: ['rejected', 'failed', 'expired', 'replaced'].includes(outcome.status) };
+      });
+    }
+    default:
+      throw new Error('Unsupported transfer batch operation: ' + operation);
+  }
+}
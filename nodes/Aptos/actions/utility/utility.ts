@@ -20,6 +20,7 @@ export const utilityOperations: INodeProperties[] = [
     options: [
       { name: 'Convert from Octas', value: 'fromOctas', action: 'Convert from octas' },
       { name: 'Convert to Octas', value: 'toOctas', action: 'Convert to octas' },
+      { name: 'Decode BCS Value', value: 'decodeBcs', action: 'Decode a BCS value', description: 'Decode BCS bytes of any Move type, resolving structs from their module ABIs' },
       { name: 'Generate Account', value: 'generateAccount', action: 'Generate new account' },
       { name: 'Get Chain ID', value: 'getChainId', action: 'Get chain ID' },
       { name: 'Get Ledger Info', value: 'getLedgerInfo', action: 'Get ledger info' },
@@ -56,6 +57,25 @@ export const utilityFields: INodeProperties[] = [
     default: '',
     displayOptions: { show: { resource: ['utility'], operation: ['validateAddress'] } },
   },
+  {
+    displayName: 'Move Type',
+    name: 'moveType',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '0x1::option::Option<0x1::string::String>',
+    description: 'Fully instantiated Move type of the value, such as the return type of a view function or the type of an event',
+    displayOptions: { show: { resource: ['utility'], operation: ['decodeBcs'] } },
+  },
+  {
+    displayName: 'BCS Bytes (Hex)',
+    name: 'bcsHex',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '0x01...',
+    displayOptions: { show: { resource: ['utility'], operation: ['decodeBcs'] } },
+  },
 ];
 
 export async function executeUtilityOperation(
@@ -80,6 +100,12 @@ export async function executeUtilityOperation(
       const valid = isValidAddress(address);
       return { address, valid, normalized: valid ? normalizeAddress(address) : null };
     }
+    case 'decodeBcs': {
+      const moveType = (execFns.getNodeParameter('moveType', index) as string).trim();
+      const bcsHex = (execFns.getNodeParameter('bcsHex', index) as string).trim();
+      if (!/^(0x)?([0-9a-fA-F]{2})*$/.test(bcsHex)) throw new Error('BCS bytes must be an even-length hex string');
+      return { type: moveType, value: (await client.decodeMoveValue(moveType, bcsHex)) as IDataObject };
+    }
     case 'generateAccount': {
       const { Account } = await import('@aptos-labs/ts-sdk');
       const account = Account.generate();
@@ -117,11 +143,12 @@ export async function executeUtilityOperation(
       };
     }
     case 'healthCheck': {
+      const endpoints = await client.checkEndpointHealth();
       try {
         await client.getLedgerInfo();
-        return { healthy: true, network: client.networkConfig.name };
+        return { healthy: true, network: client.networkConfig.name, endpoints };
       } catch (error) {
-        return { healthy: false, error: (error as Error).message };
+        return { healthy: false, error: (error as Error).message, endpoints };
       }
     }
     default:
@@ -89,6 +89,7 @@ export const ENTRY_FUNCTIONS = {
   transfer: `${APTOS_FRAMEWORK}::aptos_account::transfer`,
   transferCoins: `${APTOS_FRAMEWORK}::aptos_account::transfer_coins`,
   registerCoin: `${APTOS_FRAMEWORK}::managed_coin::register`,
+  transferFungibleAsset: `${APTOS_FRAMEWORK}::primary_fungible_store::transfer`,
 
   // Account operations
   rotateAuthKey: `${APTOS_FRAMEWORK}::account::rotate_authentication_key`,
@@ -136,6 +137,7 @@ export const VIEW_FUNCTIONS = {
   coinDecimals: `${APTOS_FRAMEWORK}::coin::decimals`,
   coinName: `${APTOS_FRAMEWORK}::coin::name`,
   coinSymbol: `${APTOS_FRAMEWORK}::coin::symbol`,
+  primaryStoreBalance: `${APTOS_FRAMEWORK}::primary_fungible_store::balance`,
 
   // Account views
   sequenceNumber: `${APTOS_FRAMEWORK}::account::get_sequence_number`,
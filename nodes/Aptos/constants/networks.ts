@@ -8,13 +8,23 @@
 /**
  * Aptos Network Configurations
  *
- * Defines the standard network endpoints for Aptos mainnet, testnet, and devnet.
+ * Defines the standard network endpoints for Aptos mainnet, testnet, devnet and
+ * a local testnet started with `aptos node run-local-testnet`.
  */
 
 export interface NetworkConfig {
   name: string;
+  /**
+   * Chain id the network must report. 0 when it is not fixed, in which case it
+   * is read from the fullnode's ledger info.
+   */
   chainId: number;
   nodeUrl: string;
+  /**
+   * Additional fullnode endpoints used for failover, in order of preference.
+   * `nodeUrl` is always the primary endpoint.
+   */
+  fallbackNodeUrls?: string[];
   indexerUrl: string;
   faucetUrl?: string;
 }
@@ -24,12 +34,14 @@ export const NETWORKS: Record<string, NetworkConfig> = {
     name: 'Mainnet',
     chainId: 1,
     nodeUrl: 'https://fullnode.mainnet.aptoslabs.com/v1',
+    fallbackNodeUrls: ['https://api.mainnet.aptoslabs.com/v1'],
     indexerUrl: 'https://indexer.mainnet.aptoslabs.com/v1/graphql',
   },
   testnet: {
     name: 'Testnet',
     chainId: 2,
     nodeUrl: 'https://fullnode.testnet.aptoslabs.com/v1',
+    fallbackNodeUrls: ['https://api.testnet.aptoslabs.com/v1'],
     indexerUrl: 'https://indexer.testnet.aptoslabs.com/v1/graphql',
     faucetUrl: 'https://faucet.testnet.aptoslabs.com',
   },
@@ -37,11 +49,26 @@ export const NETWORKS: Record<string, NetworkConfig> = {
     name: 'Devnet',
     chainId: 0,
     nodeUrl: 'https://fullnode.devnet.aptoslabs.com/v1',
+    fallbackNodeUrls: ['https://api.devnet.aptoslabs.com/v1'],
     indexerUrl: 'https://indexer.devnet.aptoslabs.com/v1/graphql',
     faucetUrl: 'https://faucet.devnet.aptoslabs.com',
   },
+  localnet: {
+    name: 'Localnet',
+    chainId: 0,
+    nodeUrl: 'http://127.0.0.1:8080/v1',
+    indexerUrl: 'http://127.0.0.1:8090/v1/graphql',
+    faucetUrl: 'http://127.0.0.1:8081',
+  },
 };
 
+/**
+ * Networks whose chain id is read from the fullnode instead of a preset
+ */
+export function isChainIdDiscovered(config: NetworkConfig): boolean {
+  return config.chainId === 0;
+}
+
 /**
  * Get network configuration by network name
  */
@@ -53,6 +80,26 @@ export function getNetworkConfig(network: string): NetworkConfig {
   return config;
 }
 
+/**
+ * Split a comma or newline separated list of URLs
+ */
+export function parseUrlList(value?: string): string[] {
+  return (value || '')
+    .split(/[,\n]/)
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
+
+/**
+ * All fullnode endpoints of a network, primary first, without duplicates
+ */
+export function getNodeUrls(config: NetworkConfig): string[] {
+  const urls = [config.nodeUrl, ...(config.fallbackNodeUrls || [])].map((url) =>
+    url.trim().replace(/\/+$/, ''),
+  );
+  return urls.filter((url, index) => url.length > 0 && urls.indexOf(url) === index);
+}
+
 /**
  * Build network configuration from credentials
  */
@@ -61,6 +108,7 @@ export function buildNetworkConfig(
   customNodeUrl?: string,
   customIndexerUrl?: string,
   customFaucetUrl?: string,
+  customChainId = 0,
 ): NetworkConfig {
   if (network === 'custom') {
     if (!customNodeUrl) {
@@ -68,7 +116,7 @@ export function buildNetworkConfig(
     }
     return {
       name: 'Custom',
-      chainId: 0,
+      chainId: customChainId,
       nodeUrl: customNodeUrl,
       indexerUrl: customIndexerUrl || '',
       faucetUrl: customFaucetUrl,
@@ -17,7 +17,24 @@ import {
   AptosConfig,
   Network,
   Account,
+  Ed25519Account,
+  SingleKeyAccount,
   Ed25519PrivateKey,
+  Ed25519PublicKey,
+  Secp256k1PrivateKey,
+  MultiEd25519Account,
+  MultiEd25519PublicKey,
+  MultiEd25519Signature,
+  Ed25519Signature,
+  AccountAuthenticatorMultiEd25519,
+  SigningScheme,
+  SigningSchemeInput,
+  RotationProofChallenge,
+  EntryFunctionABI,
+  MoveVector,
+  U8,
+  TypeTagU8,
+  TypeTagVector,
   AccountAddress,
   PendingTransactionResponse,
   MoveResource,
@@ -25,13 +42,111 @@ import {
   LedgerInfo,
   Block,
   MoveModuleBytecode,
+  MoveModule,
+  MoveFunction,
   UserTransactionResponse,
   InputGenerateTransactionPayloadData,
   InputViewFunctionData,
+  MoveStructId,
+  LedgerVersionArg,
+  getAptosFullNode,
+  AptosSettings,
+  Client,
+  ClientRequest,
+  ClientResponse,
+  MultiAgentTransaction,
+  AccountAuthenticator,
+  AnyRawTransaction,
+  AnyTransactionPayloadInstance,
   SimpleTransaction,
+  MimeType,
+  postAptosFullNode,
+  generateSignedTransaction,
+  generateUserTransactionHash,
+  generateRawTransaction,
+  generateTransactionPayload,
+  InputEntryFunctionDataWithRemoteABI,
+  RawTransaction,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadScript,
+  TransactionResponse,
+  TransactionResponseType,
+  sleep,
 } from '@aptos-labs/ts-sdk';
-import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
-import { NETWORKS, NetworkConfig } from '../constants/networks';
+import type { ICredentialDataDecryptedObject, IDataObject } from 'n8n-workflow';
+import { NETWORKS, NetworkConfig, getNodeUrls, isChainIdDiscovered, parseUrlList } from '../constants/networks';
+import { APT_COIN_TYPE, ENTRY_FUNCTIONS, RESOURCE_TYPES, VIEW_FUNCTIONS } from '../constants/modules';
+import { EndpointHealth, EndpointPool } from './endpointPool';
+import { ResponseCache } from './responseCache';
+import { IdempotencyStore, SubmissionKind } from './idempotencyStore';
+import { IndexerClientWrapper } from './indexerClient';
+import { BCS_MIME_TYPE, createBcsClient, getBcsErrorMessage } from './bcsClient';
+import { bytesToHex } from '../utils/accountUtils';
+import {
+  StructLayoutResolver,
+  decodeBcs,
+  decodeByteVectors,
+  decodeMoveValue,
+  getFrameworkStructLayout,
+  isStringType,
+} from '../utils/bcsUtils';
+import {
+  deserializeSignedTransaction,
+  deserializeTransactionData,
+  getExpireTimestamp,
+  hashSignedTransaction,
+} from '../utils/transactionUtils';
+import {
+  coerceFunctionArguments,
+  isSignerParam,
+  parseFunctionId,
+  substituteTypeParams,
+  toMoveJsonArg,
+} from '../utils/moveUtils';
+import {
+  MoveTypeTag,
+  formatTypeTag,
+  getStructId,
+  instantiateTypeTag,
+  normalizeMoveType,
+  parseTypeTag,
+} from '../utils/typeTag';
+import {
+  CursorPage,
+  DEFAULT_MAX_ITEMS,
+  collectCursorPages,
+  collectSequencePages,
+} from './pagination';
+import {
+  RequestKind,
+  RetryCounter,
+  RetryPolicy,
+  RetryableResponseError,
+  computeBackoffDelay,
+  getRetryPolicy,
+  isRetryableStatus,
+  parseRetryAfter,
+  withRetry,
+} from './retry';
+import {
+  BatchTransactionOutcome,
+  DEFAULT_BATCH_CONCURRENCY,
+  SEQUENCE_NUMBER_ATTEMPTS,
+  SequenceNumberManager,
+  classifySubmitFailure,
+  runWithConcurrency,
+} from './sequenceManager';
+import {
+  DEFAULT_RESUBMIT_EXPIRES_IN_SECS,
+  DEFAULT_WAIT_TIMEOUT_SECS,
+  GasBumpOptions,
+  LIFECYCLE_POLL_INTERVAL_MS,
+  TransactionLifecycle,
+  TransactionState,
+  getBumpedGasUnitPrice,
+  getTransactionValidity,
+  getUncommittedState,
+} from './transactionLifecycle';
 
 /**
  * Logging notice for BSL 1.1 licensing - logged once per client instantiation
@@ -60,22 +175,32 @@ export function getNetworkFromCredentials(
   credentials: ICredentialDataDecryptedObject,
 ): NetworkConfig {
   const network = credentials.network as string;
+  const fallbackNodeUrls = parseUrlList(credentials.fallbackNodeUrls as string);
+
+  const chainId = Number(credentials.chainId) || 0;
 
   if (network === 'custom') {
     return {
       name: 'Custom',
-      chainId: 0,
-      nodeUrl: credentials.nodeUrl as string,
+      chainId,
+      nodeUrl: ((credentials.nodeUrl as string) || '').trim().replace(/\/+$/, ''),
+      fallbackNodeUrls,
       indexerUrl: (credentials.indexerUrl as string) || '',
       faucetUrl: credentials.faucetUrl as string,
     };
   }
 
-  return NETWORKS[network] || NETWORKS.mainnet;
+  const preset = NETWORKS[network] || NETWORKS.mainnet;
+  return {
+    ...preset,
+    chainId: network === 'localnet' ? chainId : preset.chainId,
+    fallbackNodeUrls: [...(preset.fallbackNodeUrls || []), ...fallbackNodeUrls],
+  };
 }
 
 /**
- * Get the Aptos SDK Network enum from network string
+ * Get the Aptos SDK Network enum from network string.
+ * Localnet maps to a custom SDK network so the SDK reads its chain id from the node.
  */
 export function getSdkNetwork(network: string): Network {
   switch (network) {
@@ -90,31 +215,143 @@ export function getSdkNetwork(network: string): Network {
   }
 }
 
+/**
+ * The SDK's default HTTP client, which the retrying client delegates to
+ */
+export function getDefaultClient(): Client {
+  return new AptosConfig().client;
+}
+
+/**
+ * Classify an SDK request. Posting a signed transaction (or a faucet funding
+ * request) is not idempotent; everything else, including view and simulate calls, is a read.
+ */
+export function getRequestKind(method: string, url: string): RequestKind {
+  if (method.toUpperCase() !== 'POST') {
+    return 'read';
+  }
+  const path = url.split('?')[0];
+  return /\/(transactions(\/batch)?|fund|mint)\/?$/.test(path) ? 'submit' : 'read';
+}
+
+/**
+ * Wrap an SDK client provider so every request goes through the retry policy,
+ * and through the endpoint pool for fullnode failover when one is given.
+ * When retries are exhausted the last response is handed back to the SDK so it
+ * raises its usual API error.
+ */
+export function createRetryingClient(
+  baseClient: Client,
+  policy: RetryPolicy,
+  counter: RetryCounter,
+  endpointPool?: EndpointPool,
+): Client {
+  return {
+    provider: async <Req, Res>(request: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+      const kind = getRequestKind(request.method, request.url);
+      let lastResponse: ClientResponse<Res> | undefined;
+
+      try {
+        return await withRetry(
+          async () => {
+            const response = endpointPool
+              ? await endpointPool.send<Req, Res>(baseClient, request, kind, policy)
+              : await baseClient.provider<Req, Res>(request);
+            if (isRetryableStatus(response.status, kind, policy)) {
+              lastResponse = response;
+              throw new RetryableResponseError(response.status, parseRetryAfter(response.headers));
+            }
+            return response;
+          },
+          { policy, kind, counter },
+        );
+      } catch (error) {
+        if (error instanceof RetryableResponseError && lastResponse) {
+          return lastResponse;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
 /**
  * Create an Aptos SDK client from credentials
  */
-export function createAptosClient(credentials: ICredentialDataDecryptedObject): Aptos {
+export function createAptosClient(
+  credentials: ICredentialDataDecryptedObject,
+  retry?: { policy: RetryPolicy; counter: RetryCounter; endpointPool?: EndpointPool },
+): Aptos {
   logLicensingNotice();
 
   const networkConfig = getNetworkFromCredentials(credentials);
   const network = credentials.network as string;
 
-  let config: AptosConfig;
+  let settings: AptosSettings;
 
-  if (network === 'custom') {
-    config = new AptosConfig({
+  if (network === 'custom' || network === 'localnet') {
+    settings = {
       network: Network.CUSTOM,
       fullnode: networkConfig.nodeUrl,
       indexer: networkConfig.indexerUrl || undefined,
       faucet: networkConfig.faucetUrl || undefined,
-    });
+    };
   } else {
-    config = new AptosConfig({
+    settings = {
       network: getSdkNetwork(network),
-    });
+      fullnode: networkConfig.nodeUrl,
+    };
   }
 
-  return new Aptos(config);
+  if (!retry) {
+    return new Aptos(new AptosConfig(settings));
+  }
+
+  return new Aptos(
+    new AptosConfig({
+      ...settings,
+      client: createRetryingClient(
+        getDefaultClient(),
+        retry.policy,
+        retry.counter,
+        retry.endpointPool,
+      ),
+    }),
+  );
+}
+
+/**
+ * Key schemes offered by the credential's Key Scheme field
+ */
+export type KeyScheme = 'ed25519' | 'ed25519SingleKey' | 'secp256k1' | 'multiEd25519';
+
+const ED25519_DERIVATION_PATH = "m/44'/637'/0'/0'/0'";
+const SECP256K1_DERIVATION_PATH = "m/44'/637'/0'/0/0";
+
+/**
+ * Split a comma or newline separated list of hex keys
+ */
+function parseKeyList(value: unknown): string[] {
+  return String(value ?? '')
+    .split(/[\s,]+/)
+    .filter((key) => key);
+}
+
+/**
+ * Create a k-of-n MultiEd25519 account from all n public keys and k of the private keys
+ */
+function createMultiEd25519Account(credentials: ICredentialDataDecryptedObject): MultiEd25519Account {
+  const publicKeys = parseKeyList(credentials.multiPublicKeys).map((key) => new Ed25519PublicKey(key));
+  const signers = parseKeyList(credentials.multiPrivateKeys).map((key) => new Ed25519PrivateKey(key));
+  const threshold = Number(credentials.threshold);
+  const publicKey = new MultiEd25519PublicKey({ publicKeys, threshold });
+  for (const [i, signer] of signers.entries()) {
+    const signerKey = signer.publicKey().toString();
+    if (!publicKeys.some((key) => key.toString() === signerKey)) {
+      throw new Error(`Signer private key ${i + 1} does not belong to any of the ${publicKeys.length} public keys`);
+    }
+  }
+  return new MultiEd25519Account({ publicKey, signers });
 }
 
 /**
@@ -124,35 +361,132 @@ export function createAccountFromCredentials(
   credentials: ICredentialDataDecryptedObject,
 ): Account | null {
   const authMethod = credentials.authMethod as string;
+  const scheme = (credentials.keyScheme as KeyScheme) || 'ed25519';
+  let account: Account | null = null;
 
   if (authMethod === 'none') {
     return null;
   }
 
-  if (authMethod === 'privateKey') {
+  if (authMethod === 'privateKey' && scheme === 'multiEd25519') {
+    account = createMultiEd25519Account(credentials);
+  } else if (authMethod === 'privateKey') {
     const privateKeyHex = credentials.privateKey as string;
     if (!privateKeyHex) {
       throw new Error('Private key is required for privateKey authentication');
     }
-    const privateKey = new Ed25519PrivateKey(privateKeyHex);
-    return Account.fromPrivateKey({ privateKey });
+    account =
+      scheme === 'secp256k1'
+        ? Account.fromPrivateKey({ privateKey: new Secp256k1PrivateKey(privateKeyHex) })
+        : Account.fromPrivateKey({
+            privateKey: new Ed25519PrivateKey(privateKeyHex),
+            legacy: scheme !== 'ed25519SingleKey',
+          });
   }
 
   if (authMethod === 'mnemonic') {
     const mnemonic = credentials.mnemonic as string;
-    const derivationPath = (credentials.derivationPath as string) || "m/44'/637'/0'/0'/0'";
+    let derivationPath = (credentials.derivationPath as string) || ED25519_DERIVATION_PATH;
 
     if (!mnemonic) {
       throw new Error('Mnemonic phrase is required for mnemonic authentication');
     }
+    if (scheme === 'multiEd25519') {
+      throw new Error('MultiEd25519 accounts need Private Key authentication with one private key per signer');
+    }
+    // Secp256k1 keys are derived on a non-hardened path
+    if (scheme === 'secp256k1' && derivationPath === ED25519_DERIVATION_PATH) {
+      derivationPath = SECP256K1_DERIVATION_PATH;
+    }
 
-    return Account.fromDerivationPath({
+    account = Account.fromDerivationPath({
       mnemonic,
       path: derivationPath,
+      scheme: scheme === 'secp256k1' ? SigningSchemeInput.Secp256k1Ecdsa : SigningSchemeInput.Ed25519,
+      legacy: scheme === 'ed25519',
     });
   }
 
-  return null;
+  const expectedAddress = ((credentials.expectedAddress as string) || '').trim();
+  if (account && expectedAddress && !account.accountAddress.equals(AccountAddress.from(expectedAddress))) {
+    throw new Error(
+      `The credential's keys derive address ${account.accountAddress.toString()} with the ${scheme} key scheme, not the expected address ${AccountAddress.from(expectedAddress).toString()}. Check the key scheme and keys.`,
+    );
+  }
+  const accountAddress = ((credentials.accountAddress as string) || '').trim();
+  if (account && accountAddress) {
+    account = withAccountAddress(account, AccountAddress.from(accountAddress));
+  }
+  return account;
+}
+
+/**
+ * The same signer acting for another address, whose authentication key was rotated to the signer's keys
+ */
+function withAccountAddress(account: Account, address: AccountAddress): Account {
+  if (account instanceof MultiEd25519Account) {
+    return new MultiEd25519Account({ publicKey: account.publicKey, signers: account.signers, address });
+  }
+  if (account instanceof Ed25519Account) {
+    return new Ed25519Account({ privateKey: account.privateKey, address });
+  }
+  if (account instanceof SingleKeyAccount) {
+    return new SingleKeyAccount({ privateKey: account.privateKey, address });
+  }
+  return account;
+}
+
+/**
+ * ABI of `0x1::account::rotate_authentication_key`, so building the
+ * transaction does not fetch the framework module
+ */
+const ROTATE_AUTH_KEY_ABI: EntryFunctionABI = {
+  typeParameters: [],
+  parameters: [
+    new TypeTagU8(),
+    TypeTagVector.u8(),
+    new TypeTagU8(),
+    TypeTagVector.u8(),
+    TypeTagVector.u8(),
+    TypeTagVector.u8(),
+  ],
+};
+
+/**
+ * View function call. `ledgerVersion` overrides the pinned ledger version.
+ */
+export interface ViewFunctionPayload {
+  function: string;
+  typeArguments?: string[];
+  functionArguments?: unknown[];
+  ledgerVersion?: string;
+}
+
+/**
+ * Result of an authentication key rotation, read back from chain after it committed
+ */
+export interface AuthKeyRotation {
+  address: string;
+  hash: string;
+  version: string;
+  previousAuthKey: string;
+  newAuthKey: string;
+  newPublicKey: string;
+  /** Authentication key the account has on chain after the rotation */
+  onChainAuthKey: string;
+  /** Whether the on-chain authentication key is the new key's */
+  verified: boolean;
+}
+
+/**
+ * Event emitted to an event handle, as returned by the fullnode
+ */
+export interface EventHandleEvent {
+  version: string;
+  guid: { creation_number: string; account_address: string };
+  sequence_number: string;
+  type: string;
+  data: unknown;
 }
 
 /**
@@ -162,11 +496,143 @@ export class AptosClientWrapper {
   public client: Aptos;
   public account: Account | null;
   public networkConfig: NetworkConfig;
+  public retryPolicy: RetryPolicy;
+  public retryCounter: RetryCounter = { retries: 0 };
+  public endpointPool: EndpointPool;
+  /**
+   * Cache for immutable lookups. Disabled when null.
+   */
+  public cache: ResponseCache | null = null;
+  /**
+   * Ledger version every read is pinned to. Reads use the latest version when undefined.
+   */
+  public pinnedLedgerVersion: string | undefined;
+  /**
+   * Transactions sent under an idempotency key. Keys are ignored when null.
+   */
+  public idempotencyStore: IdempotencyStore | null = null;
+  /**
+   * Idempotency key for the next write
+   */
+  public idempotencyKey: string | undefined;
+  /**
+   * Whether the last keyed write was sent or found from an earlier execution
+   */
+  public lastSubmission: SubmissionKind | undefined;
+  private baseClient: Client;
+  private bcsClient: Client;
+  private chainId: Promise<number> | undefined;
+  private sequenceManagers = new Map<string, SequenceNumberManager>();
+  private sentTransactions = new Map<string, { transaction: AnyRawTransaction; idempotencyKey?: string }>();
 
-  constructor(credentials: ICredentialDataDecryptedObject) {
-    this.client = createAptosClient(credentials);
-    this.account = createAccountFromCredentials(credentials);
+  constructor(
+    credentials: ICredentialDataDecryptedObject,
+    retryPolicy: RetryPolicy = getRetryPolicy(credentials),
+  ) {
+    this.retryPolicy = retryPolicy;
     this.networkConfig = getNetworkFromCredentials(credentials);
+    this.endpointPool = new EndpointPool(
+      getNodeUrls(this.networkConfig),
+      credentials.maxLedgerLag ? { maxLedgerLag: credentials.maxLedgerLag as number } : {},
+    );
+    this.client = createAptosClient(credentials, {
+      policy: retryPolicy,
+      counter: this.retryCounter,
+      endpointPool: this.endpointPool,
+    });
+    this.baseClient = getDefaultClient();
+    this.bcsClient = createRetryingClient(
+      createBcsClient(this.baseClient),
+      retryPolicy,
+      this.retryCounter,
+      this.endpointPool,
+    );
+    this.account = createAccountFromCredentials(credentials);
+  }
+
+  /**
+   * Indexer client with this client's retry policy. Its retries count toward `retryCounter`.
+   */
+  createIndexerClient(credentials: ICredentialDataDecryptedObject): IndexerClientWrapper {
+    return new IndexerClientWrapper(credentials, this.retryPolicy, this.retryCounter);
+  }
+
+  /**
+   * Fullnode endpoint that served the most recent response
+   */
+  getLastEndpoint(): string | undefined {
+    return this.endpointPool.lastServed;
+  }
+
+  /**
+   * Probe every configured fullnode and return its health
+   */
+  async checkEndpointHealth(): Promise<EndpointHealth[]> {
+    return this.endpointPool.probe(this.baseClient);
+  }
+
+  /**
+   * Pin every later read to one ledger version so an execution sees a consistent
+   * snapshot. Resolves the current ledger version when none is given.
+   */
+  async pinLedgerVersion(version?: number | string | bigint): Promise<string> {
+    const requested = version === undefined ? '' : String(version).trim();
+    if (requested && !/^\d+$/.test(requested)) {
+      throw new Error(`Ledger Version must be a whole number, got ${requested}`);
+    }
+    this.pinnedLedgerVersion = requested
+      ? BigInt(requested).toString()
+      : (await this.getLedgerInfo()).ledger_version;
+    return this.pinnedLedgerVersion;
+  }
+
+  /**
+   * Ledger version option passed to SDK reads
+   */
+  private getLedgerVersionArg(): LedgerVersionArg | undefined {
+    return this.pinnedLedgerVersion === undefined
+      ? undefined
+      : { ledgerVersion: BigInt(this.pinnedLedgerVersion) };
+  }
+
+  /**
+   * Read a coin balance with the `0x1::coin::balance` view function at the pinned version
+   */
+  private async viewCoinBalance(address: string, coinType: string): Promise<bigint> {
+    const [balance] = await this.viewFunction<string>({
+      function: VIEW_FUNCTIONS.balance,
+      typeArguments: [coinType as MoveStructId],
+      functionArguments: [AccountAddress.from(address)],
+    });
+    return BigInt(balance);
+  }
+
+  /**
+   * Chain id reported by the fullnode's ledger info. Read once per client.
+   */
+  async getChainId(): Promise<number> {
+    if (!this.chainId) {
+      this.chainId = this.getLedgerInfo().then((info) => info.chain_id);
+      this.chainId.catch(() => {
+        this.chainId = undefined;
+      });
+    }
+    return this.chainId;
+  }
+
+  /**
+   * Check the fullnode is on the configured chain before signing anything for it.
+   * Networks without a fixed chain id accept whatever the node reports.
+   */
+  async verifyChainId(): Promise<number> {
+    const chainId = await this.getChainId();
+    const expected = this.networkConfig.chainId;
+    if (!isChainIdDiscovered(this.networkConfig) && chainId !== expected) {
+      throw new Error(
+        `Chain ID mismatch: ${this.networkConfig.name} expects chain ID ${expected} but ${this.endpointPool.primary} reports ${chainId}. Refusing to sign.`,
+      );
+    }
+    return chainId;
   }
 
   /**
@@ -197,6 +663,15 @@ export class AptosClientWrapper {
    * Get account data
    */
   async getAccount(address: string): Promise<AccountData> {
+    if (this.pinnedLedgerVersion !== undefined) {
+      const { data } = await getAptosFullNode<object, AccountData>({
+        aptosConfig: this.client.config,
+        originMethod: 'getAccount',
+        path: `accounts/${AccountAddress.from(address).toString()}`,
+        params: { ledger_version: this.pinnedLedgerVersion },
+      });
+      return data;
+    }
     return this.client.getAccountInfo({
       accountAddress: AccountAddress.from(address),
     });
@@ -206,6 +681,9 @@ export class AptosClientWrapper {
    * Get account balance in octas
    */
   async getAccountBalance(address: string): Promise<bigint> {
+    if (this.pinnedLedgerVersion !== undefined) {
+      return this.viewCoinBalance(address, APT_COIN_TYPE);
+    }
     const balance = await this.client.getAccountAPTAmount({
       accountAddress: AccountAddress.from(address),
     });
@@ -218,7 +696,35 @@ export class AptosClientWrapper {
   async getAccountResources(address: string): Promise<MoveResource[]> {
     return this.client.getAccountResources({
       accountAddress: AccountAddress.from(address),
+      options: this.getLedgerVersionArg(),
+    });
+  }
+
+  /**
+   * Get one page of account resources, with the cursor for the next page
+   */
+  async getAccountResourcesPage(
+    address: string,
+    options?: { cursor?: string; limit?: number },
+  ): Promise<CursorPage<MoveResource>> {
+    const { resources, cursor } = await this.client.getAccountResourcesPage({
+      accountAddress: AccountAddress.from(address),
+      options: { cursor: options?.cursor, limit: options?.limit, ...this.getLedgerVersionArg() },
     });
+    return { items: resources, cursor };
+  }
+
+  /**
+   * Get all account resources by following the `x-aptos-cursor` header
+   */
+  async getAllAccountResources(
+    address: string,
+    maxItems = DEFAULT_MAX_ITEMS,
+  ): Promise<MoveResource[]> {
+    return collectCursorPages(
+      (cursor, limit) => this.getAccountResourcesPage(address, { cursor, limit }),
+      maxItems,
+    );
   }
 
   /**
@@ -227,7 +733,8 @@ export class AptosClientWrapper {
   async getAccountResource(address: string, resourceType: string): Promise<MoveResource> {
     return this.client.getAccountResource({
       accountAddress: AccountAddress.from(address),
-      resourceType,
+      resourceType: resourceType as MoveStructId,
+      options: this.getLedgerVersionArg(),
     });
   }
 
@@ -237,17 +744,74 @@ export class AptosClientWrapper {
   async getAccountModules(address: string): Promise<MoveModuleBytecode[]> {
     return this.client.getAccountModules({
       accountAddress: AccountAddress.from(address),
+      options: this.getLedgerVersionArg(),
     });
   }
 
+  /**
+   * Get one page of account modules, with the cursor for the next page
+   */
+  async getAccountModulesPage(
+    address: string,
+    options?: { cursor?: string; limit?: number },
+  ): Promise<CursorPage<MoveModuleBytecode>> {
+    const { modules, cursor } = await this.client.getAccountModulesPage({
+      accountAddress: AccountAddress.from(address),
+      options: { cursor: options?.cursor, limit: options?.limit, ...this.getLedgerVersionArg() },
+    });
+    return { items: modules, cursor };
+  }
+
+  /**
+   * Get all account modules by following the `x-aptos-cursor` header
+   */
+  async getAllAccountModules(
+    address: string,
+    maxItems = DEFAULT_MAX_ITEMS,
+  ): Promise<MoveModuleBytecode[]> {
+    return collectCursorPages(
+      (cursor, limit) => this.getAccountModulesPage(address, { cursor, limit }),
+      maxItems,
+    );
+  }
+
+  /**
+   * Get a module ABI, at the pinned ledger version unless one is given.
+   * ABIs read at a fixed ledger version are cached.
+   */
+  async getModuleAbi(
+    address: string,
+    moduleName: string,
+    version?: number | bigint,
+  ): Promise<MoveModule | undefined> {
+    const ledgerVersion = version ?? this.getLedgerVersionArg()?.ledgerVersion;
+    const fetchAbi = async () => {
+      const module = await this.client.getAccountModule({
+        accountAddress: AccountAddress.from(address),
+        moduleName,
+        options: ledgerVersion === undefined ? undefined : { ledgerVersion },
+      });
+      return module.abi;
+    };
+    if (!this.cache || ledgerVersion === undefined) {
+      return fetchAbi();
+    }
+    const key = `abi:${AccountAddress.from(address).toStringLong()}::${moduleName}@${ledgerVersion}`;
+    return this.cache.getOrFetch(key, fetchAbi, (abi) => abi !== undefined);
+  }
+
   /**
    * Get block by height
    */
   async getBlockByHeight(height: number, withTransactions = false): Promise<Block> {
-    return this.client.getBlockByHeight({
-      blockHeight: height,
-      options: { withTransactions },
-    });
+    const fetchBlock = () =>
+      this.client.getBlockByHeight({
+        blockHeight: height,
+        options: { withTransactions },
+      });
+    return this.cache
+      ? this.cache.getOrFetch(`block:${height}:${withTransactions}`, fetchBlock)
+      : fetchBlock();
   }
 
   /**
@@ -274,6 +838,11 @@ export class AptosClientWrapper {
     if (!this.account) {
       throw new Error('Account required to submit transaction');
     }
+    await this.verifyChainId();
+    const replayed = await this.replayIdempotent(this.idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
 
     const transaction = await this.client.transaction.build.simple({
       sender: this.account.accountAddress,
@@ -289,13 +858,600 @@ export class AptosClientWrapper {
       signer: this.account,
       transaction,
     });
+    const signed = { transaction, senderAuthenticator: signedTx };
 
-    return this.client.transaction.submit.simple({
-      senderAuthenticator: signedTx,
-      transaction,
+    return this.sendIdempotent(this.idempotencyKey, generateUserTransactionHash(signed), transaction, () =>
+      this.client.transaction.submit.simple(signed),
+    );
+  }
+
+  /**
+   * Rotate the signer account's authentication key to a new Ed25519 key. Both
+   * the current and the new key sign the rotation proof challenge, so the
+   * chain knows the new key's owner agreed. The authentication key is read
+   * back from chain once the transaction commits.
+   */
+  async rotateAuthenticationKey(
+    newPrivateKey: Ed25519PrivateKey,
+    options?: { timeoutSecs?: number },
+  ): Promise<AuthKeyRotation> {
+    if (!this.account) {
+      throw new Error('Account required to rotate the authentication key');
+    }
+    const current = this.account;
+    const fromScheme = current.signingScheme;
+    if (fromScheme !== SigningScheme.Ed25519 && fromScheme !== SigningScheme.MultiEd25519) {
+      throw new Error(
+        'Only Ed25519 and MultiEd25519 credentials can sign a key rotation proof. Rotate the key of this account with a wallet instead.',
+      );
+    }
+    await this.verifyChainId();
+    const newAccount = Account.fromPrivateKey({ privateKey: newPrivateKey, legacy: true });
+    const newAuthKey = newAccount.publicKey.authKey().toString();
+    const address = current.accountAddress;
+
+    // A retried execution waits for the rotation it already sent
+    let pending = await this.replayIdempotent(this.idempotencyKey);
+    let previousAuthKey = current.publicKey.authKey().toString();
+    if (!pending) {
+      const info = await this.client.getAccountInfo({ accountAddress: address });
+      const onChain = AccountAddress.from(info.authentication_key).toString();
+      if (onChain === newAuthKey) {
+        throw new Error(`The new key already controls ${address.toString()}`);
+      }
+      if (onChain !== previousAuthKey) {
+        throw new Error(
+          `The credential's key does not control ${address.toString()}: its authentication key is ${previousAuthKey}, the account's is ${onChain}`,
+        );
+      }
+      previousAuthKey = onChain;
+      const challenge = new RotationProofChallenge({
+        sequenceNumber: BigInt(info.sequence_number),
+        originator: address,
+        currentAuthKey: AccountAddress.from(onChain),
+        newPublicKey: newAccount.publicKey,
+      });
+      const message = challenge.bcsToBytes();
+      pending = await this.submitTransaction({
+        function: ENTRY_FUNCTIONS.rotateAuthKey as `${string}::${string}::${string}`,
+        functionArguments: [
+          new U8(fromScheme),
+          MoveVector.U8(current.publicKey.toUint8Array()),
+          new U8(newAccount.signingScheme),
+          MoveVector.U8(newAccount.publicKey.toUint8Array()),
+          MoveVector.U8(current.sign(message).toUint8Array()),
+          MoveVector.U8(newAccount.sign(message).toUint8Array()),
+        ],
+        abi: ROTATE_AUTH_KEY_ABI,
+      });
+    }
+
+    const committed = await this.waitForTransaction(pending.hash, { timeoutSecs: options?.timeoutSecs });
+    const after = await this.client.getAccountInfo({ accountAddress: address });
+    const onChainAuthKey = AccountAddress.from(after.authentication_key).toString();
+    return {
+      address: address.toString(),
+      hash: committed.hash,
+      version: committed.version,
+      previousAuthKey,
+      newAuthKey,
+      newPublicKey: newAccount.publicKey.toString(),
+      onChainAuthKey,
+      verified: onChainAuthKey === newAuthKey,
+    };
+  }
+
+  /**
+   * Sequence number manager for an account, kept for the life of this client
+   */
+  getSequenceManager(address: string = this.getSignerAddress()): SequenceNumberManager {
+    const accountAddress = AccountAddress.from(address);
+    const key = accountAddress.toString();
+    let manager = this.sequenceManagers.get(key);
+    if (!manager) {
+      manager = new SequenceNumberManager(async () => {
+        const account = await this.client.getAccountInfo({ accountAddress });
+        return BigInt(account.sequence_number);
+      });
+      this.sequenceManagers.set(key, manager);
+    }
+    return manager;
+  }
+
+  /**
+   * Submit several transactions from the credential's account with locally
+   * reserved sequence numbers, at most `concurrency` at a time, then wait for
+   * all of them. Returns one outcome per payload in order. Failures are
+   * reported in the outcome rather than thrown.
+   */
+  async submitTransactionBatch(
+    payloads: InputGenerateTransactionPayloadData[],
+    options?: {
+      maxGasAmount?: number;
+      gasUnitPrice?: number;
+      expireTimestamp?: number;
+      concurrency?: number;
+      timeoutSecs?: number;
+      idempotencyKeys?: Array<string | undefined>;
+    },
+  ): Promise<BatchTransactionOutcome[]> {
+    if (!this.account) {
+      throw new Error('Account required to submit transaction');
+    }
+    await this.verifyChainId();
+
+    const manager = this.getSequenceManager();
+    const gasUnitPrice = options?.gasUnitPrice ?? (await this.getGasUnitPrice());
+    const concurrency = options?.concurrency || DEFAULT_BATCH_CONCURRENCY;
+    const submitted = await runWithConcurrency(payloads, concurrency, (payload, i) =>
+      this.submitWithReservedSequenceNumber(
+        manager,
+        payload,
+        { ...options, gasUnitPrice },
+        options?.idempotencyKeys?.[i] || undefined,
+      ),
+    );
+    await this.markBlockedBehindGaps(manager, submitted);
+    return runWithConcurrency(submitted, concurrency, (outcome) =>
+      outcome.status === 'pending'
+        ? this.waitForBatchTransaction(outcome, options?.timeoutSecs)
+        : Promise.resolve(outcome),
+    );
+  }
+
+  /**
+   * Gas unit price the fullnode currently estimates for a transaction
+   */
+  async getGasUnitPrice(): Promise<number> {
+    return (await this.client.getGasPriceEstimation()).gas_estimate;
+  }
+
+  /**
+   * A refused transaction gives its sequence number back. When no later item
+   * took it, every transaction submitted above it waits behind the gap. After
+   * a resync, those still behind a gap are reported as `blocked` instead of
+   * being waited for. The gap stays free for the next transaction.
+   */
+  private async markBlockedBehindGaps(
+    manager: SequenceNumberManager,
+    outcomes: BatchTransactionOutcome[],
+  ): Promise<void> {
+    const waiting = outcomes.filter(
+      (outcome) => outcome.status === 'pending' && outcome.submission !== 'replayed' && outcome.sequenceNumber !== undefined,
+    );
+    if (waiting.length === 0) {
+      return;
+    }
+    const highest = waiting.reduce((max, outcome) => {
+      const sequenceNumber = BigInt(outcome.sequenceNumber as string);
+      return sequenceNumber > max ? sequenceNumber : max;
+    }, BigInt(0));
+    const gaps = await manager.findGapsBelow(highest);
+    if (gaps.length === 0) {
+      return;
+    }
+    for (const outcome of waiting) {
+      const gap = gaps.find((sequenceNumber) => sequenceNumber < BigInt(outcome.sequenceNumber as string));
+      if (gap !== undefined) {
+        outcome.status = 'blocked';
+        outcome.error = `Waiting behind sequence number ${gap}, which no transaction in the batch used. It commits once a transaction from this account uses that number.`;
+      }
+    }
+  }
+
+  /**
+   * Build, sign and submit one batch transaction. A sequence number the
+   * fullnode refused is given back, and stale or busy refusals are retried
+   * with a fresh number after resyncing from chain.
+   */
+  private async submitWithReservedSequenceNumber(
+    manager: SequenceNumberManager,
+    payload: InputGenerateTransactionPayloadData,
+    options: { maxGasAmount?: number; gasUnitPrice: number; expireTimestamp?: number },
+    idempotencyKey?: string,
+  ): Promise<BatchTransactionOutcome> {
+    const replayed = await this.replayIdempotent(idempotencyKey);
+    if (replayed) {
+      return {
+        status: 'pending',
+        hash: replayed.hash,
+        sequenceNumber: replayed.sequence_number,
+        submission: 'replayed',
+      };
+    }
+    const submission = idempotencyKey && this.idempotencyStore ? { submission: 'fresh' as const } : {};
+    const sender = this.getSignerAddress();
+    let transactionPayload: AnyTransactionPayloadInstance;
+    try {
+      transactionPayload = await generateTransactionPayload({
+        ...(payload as InputEntryFunctionDataWithRemoteABI),
+        aptosConfig: this.client.config,
+      });
+    } catch (error) {
+      return { status: 'rejected', error: (error as Error).message };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const sequenceNumber = await manager.reserve();
+      let hash: string | undefined;
+      try {
+        const rawTransaction = await generateRawTransaction({
+          aptosConfig: this.client.config,
+          sender,
+          payload: transactionPayload,
+          options: {
+            maxGasAmount: options.maxGasAmount,
+            gasUnitPrice: options.gasUnitPrice,
+            expireTimestamp: options.expireTimestamp,
+            accountSequenceNumber: sequenceNumber,
+          },
+        });
+        const transaction = new SimpleTransaction(rawTransaction);
+        const signed = await this.signRawTransaction(transaction);
+        hash = signed.hash;
+        await this.sendIdempotent(idempotencyKey, signed.hash, transaction, () =>
+          this.postSignedTransaction(signed.signedTransaction),
+        );
+        return { status: 'pending', hash, sequenceNumber: sequenceNumber.toString(), ...submission };
+      } catch (error) {
+        const message = (error as Error).message;
+        const failure = hash ? classifySubmitFailure(error) : 'rejected';
+        if (failure === 'unknown') {
+          return { status: 'pending', hash, sequenceNumber: sequenceNumber.toString(), error: message, ...submission };
+        }
+        manager.release(sequenceNumber);
+        if (failure === 'rejected' || attempt >= SEQUENCE_NUMBER_ATTEMPTS) {
+          return { status: 'rejected', error: message };
+        }
+        if (failure === 'busy') {
+          await sleep(computeBackoffDelay(attempt, this.retryPolicy));
+        }
+        await manager.resync();
+      }
+    }
+  }
+
+  /**
+   * Wait for a submitted batch transaction. Still pending after the timeout is
+   * an outcome, not an error.
+   */
+  private async waitForBatchTransaction(
+    outcome: BatchTransactionOutcome,
+    timeoutSecs?: number,
+  ): Promise<BatchTransactionOutcome> {
+    try {
+      const lifecycle = await this.trackTransaction(outcome.hash as string, { timeoutSecs });
+      return {
+        status: lifecycle.state,
+        hash: lifecycle.hash,
+        sequenceNumber: outcome.sequenceNumber,
+        ...(outcome.submission ? { submission: outcome.submission } : {}),
+        version: lifecycle.version,
+        vmStatus: lifecycle.vmStatus,
+        gasUsed: lifecycle.gasUsed,
+      };
+    } catch (error) {
+      return { ...outcome, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Build a transaction sent by the credential's account that the secondary
+   * signers co-sign
+   */
+  async buildMultiAgentTransaction(
+    payload: InputGenerateTransactionPayloadData,
+    secondarySignerAddresses: string[],
+    options?: {
+      maxGasAmount?: number;
+      gasUnitPrice?: number;
+      expireTimestamp?: number;
+    },
+  ): Promise<MultiAgentTransaction> {
+    if (!this.account) {
+      throw new Error('Account required to build a multi-agent transaction');
+    }
+    if (secondarySignerAddresses.length === 0) {
+      throw new Error('A multi-agent transaction needs at least one secondary signer');
+    }
+
+    return this.client.transaction.build.multiAgent({
+      sender: this.account.accountAddress,
+      secondarySignerAddresses: secondarySignerAddresses.map((address) =>
+        AccountAddress.from(address),
+      ),
+      data: payload,
+      options: {
+        maxGasAmount: options?.maxGasAmount,
+        gasUnitPrice: options?.gasUnitPrice,
+        expireTimestamp: options?.expireTimestamp,
+      },
     });
   }
 
+  /**
+   * Sign a transaction built elsewhere with the credential's account. Refuses
+   * transactions built for another chain.
+   */
+  async signTransaction(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    if (!this.account) {
+      throw new Error('Account required to sign transaction');
+    }
+    await this.verifyTransactionChainId(transaction);
+
+    return this.client.transaction.sign({ signer: this.account, transaction });
+  }
+
+  /**
+   * Sign a fee-payer transaction as its sponsor. Sets the transaction's fee payer
+   * to the credential's account.
+   */
+  async signAsFeePayer(transaction: SimpleTransaction): Promise<AccountAuthenticator> {
+    if (!this.account) {
+      throw new Error('Account required to sponsor transaction');
+    }
+    if (!transaction.feePayerAddress) {
+      throw new Error('The transaction was not built with a fee payer');
+    }
+    await this.verifyTransactionChainId(transaction);
+
+    return this.client.transaction.signAsFeePayer({ signer: this.account, transaction });
+  }
+
+  /**
+   * Check a transaction built elsewhere targets the chain the fullnode is on
+   */
+  private async verifyTransactionChainId(
+    transaction: AnyRawTransaction,
+    action = 'sign',
+  ): Promise<void> {
+    const chainId = await this.verifyChainId();
+    const transactionChainId = transaction.rawTransaction.chain_id.chainId;
+    if (transactionChainId !== chainId) {
+      throw new Error(
+        `Chain ID mismatch: the transaction was built for chain ID ${transactionChainId} but ${this.endpointPool.primary} reports ${chainId}. Refusing to ${action}.`,
+      );
+    }
+  }
+
+  /**
+   * Build an unsigned transaction for any sender, so it can be signed off this host
+   */
+  async buildRawTransaction(
+    sender: string,
+    payload: InputGenerateTransactionPayloadData,
+    options?: {
+      maxGasAmount?: number;
+      gasUnitPrice?: number;
+      expireTimestamp?: number;
+    },
+  ): Promise<SimpleTransaction> {
+    return this.client.transaction.build.simple({
+      sender: AccountAddress.from(sender),
+      data: payload,
+      options: {
+        maxGasAmount: options?.maxGasAmount,
+        gasUnitPrice: options?.gasUnitPrice,
+        expireTimestamp: options?.expireTimestamp,
+      },
+    });
+  }
+
+  /**
+   * Sign a transaction as its sender and assemble the BCS signed transaction
+   */
+  async signRawTransaction(transaction: SimpleTransaction): Promise<{
+    authenticator: AccountAuthenticator;
+    signedTransaction: Uint8Array;
+    hash: string;
+  }> {
+    const signer = this.getSignerAddress();
+    if (!transaction.rawTransaction.sender.equals(AccountAddress.from(signer))) {
+      throw new Error(
+        `Account ${signer} is not the sender ${transaction.rawTransaction.sender.toString()} of this transaction`,
+      );
+    }
+    const authenticator = await this.signTransaction(transaction);
+    const signed = { transaction, senderAuthenticator: authenticator };
+
+    return {
+      authenticator,
+      signedTransaction: generateSignedTransaction(signed),
+      hash: generateUserTransactionHash(signed),
+    };
+  }
+
+  /**
+   * Submit BCS signed transaction bytes as they are. Refuses transactions signed
+   * for another chain.
+   */
+  async submitSignedTransaction(signedTransaction: Uint8Array): Promise<PendingTransactionResponse> {
+    const signed = deserializeSignedTransaction(signedTransaction);
+    const transaction = new SimpleTransaction(signed.raw_txn);
+    await this.verifyTransactionChainId(transaction, 'submit');
+    const replayed = await this.replayIdempotent(this.idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
+    return this.sendIdempotent(this.idempotencyKey, hashSignedTransaction(signedTransaction), transaction, () =>
+      this.postSignedTransaction(signedTransaction),
+    );
+  }
+
+  /**
+   * Find the transaction an earlier execution sent under `key`. Returns
+   * undefined when there is none or it can no longer commit, so the caller
+   * sends a new one. A recorded transaction that isn't on chain yet is waited
+   * for until it expires or its sequence number is used by another one.
+   */
+  private async replayIdempotent(key: string | undefined): Promise<PendingTransactionResponse | undefined> {
+    const record = key ? this.idempotencyStore?.get(key) : undefined;
+    if (!record) {
+      return undefined;
+    }
+    const found = await this.findTransaction(record.hash);
+    if (found) {
+      this.lastSubmission = 'replayed';
+      return found as PendingTransactionResponse;
+    }
+    const account = await this.client.getAccountInfo({ accountAddress: AccountAddress.from(record.sender) });
+    const secondsLeft = Number(record.expirationTimestampSecs) - Math.floor(Date.now() / 1000);
+    if (BigInt(account.sequence_number) <= BigInt(record.sequenceNumber) && secondsLeft > 0) {
+      try {
+        await this.waitForTransaction(record.hash, { timeoutSecs: secondsLeft + 1, checkSuccess: false });
+        this.lastSubmission = 'replayed';
+        return (await this.findTransaction(record.hash)) as PendingTransactionResponse;
+      } catch {
+        // Expired without committing, so it is safe to send again
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Send a signed transaction, recording it under `key` first. The record is
+   * dropped again when the fullnode provably did not accept the transaction.
+   * The transaction is kept for the life of this client so it can be resent
+   * with more gas.
+   */
+  private async sendIdempotent<T>(
+    key: string | undefined,
+    hash: string,
+    transaction: AnyRawTransaction,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    this.sentTransactions.set(hash, { transaction, idempotencyKey: key });
+    const store = key ? this.idempotencyStore : null;
+    if (!key || !store) {
+      return send();
+    }
+    const raw = transaction.rawTransaction;
+    store.set(key, {
+      hash,
+      sender: raw.sender.toString(),
+      sequenceNumber: raw.sequence_number.toString(),
+      expirationTimestampSecs: raw.expiration_timestamp_secs.toString(),
+      submittedAt: Date.now(),
+    });
+    this.lastSubmission = 'fresh';
+    try {
+      return await send();
+    } catch (error) {
+      if (classifySubmitFailure(error) !== 'unknown') {
+        store.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look a transaction up by hash, pending or committed. Undefined when the fullnode doesn't know it.
+   */
+  private async findTransaction(hash: string): Promise<TransactionResponse | undefined> {
+    try {
+      return await this.client.getTransactionByHash({ transactionHash: hash });
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async postSignedTransaction(
+    signedTransaction: Uint8Array,
+  ): Promise<PendingTransactionResponse> {
+    const { data } = await postAptosFullNode<Uint8Array, PendingTransactionResponse>({
+      aptosConfig: this.client.config,
+      originMethod: 'submitSignedTransaction',
+      path: 'transactions',
+      body: signedTransaction,
+      contentType: MimeType.BCS_SIGNED_TRANSACTION,
+    });
+    return data;
+  }
+
+  /**
+   * Build a transaction sent by the credential's account whose gas is paid by a
+   * fee payer that signs later
+   */
+  async buildSponsoredTransaction(
+    payload: InputGenerateTransactionPayloadData,
+    options?: {
+      maxGasAmount?: number;
+      gasUnitPrice?: number;
+      expireTimestamp?: number;
+    },
+  ): Promise<SimpleTransaction> {
+    if (!this.account) {
+      throw new Error('Account required to build a sponsored transaction');
+    }
+
+    return this.client.transaction.build.simple({
+      sender: this.account.accountAddress,
+      data: payload,
+      withFeePayer: true,
+      options: {
+        maxGasAmount: options?.maxGasAmount,
+        gasUnitPrice: options?.gasUnitPrice,
+        expireTimestamp: options?.expireTimestamp,
+      },
+    });
+  }
+
+  /**
+   * Submit a fee-payer transaction with the sender's and the fee payer's authenticators
+   */
+  async submitSponsoredTransaction(
+    transaction: SimpleTransaction,
+    senderAuthenticator: AccountAuthenticator,
+    feePayerAuthenticator: AccountAuthenticator,
+  ): Promise<PendingTransactionResponse> {
+    if (!transaction.feePayerAddress || transaction.feePayerAddress.equals(AccountAddress.ZERO)) {
+      throw new Error('The fee payer address must be set before submitting a sponsored transaction');
+    }
+    await this.verifyChainId();
+    const replayed = await this.replayIdempotent(this.idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
+    const signed = { transaction, senderAuthenticator, feePayerAuthenticator };
+
+    return this.sendIdempotent(this.idempotencyKey, generateUserTransactionHash(signed), transaction, () =>
+      this.client.transaction.submit.simple(signed),
+    );
+  }
+
+  /**
+   * Submit a multi-agent transaction with the sender's authenticator and one
+   * authenticator per secondary signer, in the transaction's signer order
+   */
+  async submitMultiAgentTransaction(
+    transaction: MultiAgentTransaction,
+    senderAuthenticator: AccountAuthenticator,
+    secondaryAuthenticators: AccountAuthenticator[],
+  ): Promise<PendingTransactionResponse> {
+    if (secondaryAuthenticators.length !== transaction.secondarySignerAddresses.length) {
+      throw new Error(
+        `Expected ${transaction.secondarySignerAddresses.length} secondary signer authenticators but got ${secondaryAuthenticators.length}`,
+      );
+    }
+    await this.verifyChainId();
+    const replayed = await this.replayIdempotent(this.idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
+    const signed = {
+      transaction,
+      senderAuthenticator,
+      additionalSignersAuthenticators: secondaryAuthenticators,
+    };
+
+    return this.sendIdempotent(this.idempotencyKey, generateUserTransactionHash(signed), transaction, () =>
+      this.client.transaction.submit.multiAgent(signed),
+    );
+  }
+
   /**
    * Simulate a transaction
    */
@@ -311,6 +1467,26 @@ export class AptosClientWrapper {
       data: payload,
     });
 
+    // The SDK can't simulate MultiEd25519 senders, so send the simulation with
+    // blank signatures from the signers this account would use
+    if (this.account instanceof MultiEd25519Account) {
+      const authenticator = new AccountAuthenticatorMultiEd25519(
+        this.account.publicKey,
+        new MultiEd25519Signature({
+          signatures: this.account.signerIndices.map(() => new Ed25519Signature(new Uint8Array(64))),
+          bitmap: this.account.signerIndices,
+        }),
+      );
+      const { data } = await postAptosFullNode<Uint8Array, UserTransactionResponse[]>({
+        aptosConfig: this.client.config,
+        originMethod: 'simulateTransaction',
+        path: 'transactions/simulate',
+        body: generateSignedTransaction({ transaction, senderAuthenticator: authenticator }),
+        contentType: MimeType.BCS_SIGNED_TRANSACTION,
+      });
+      return data;
+    }
+
     return this.client.transaction.simulate.simple({
       signerPublicKey: this.account.publicKey,
       transaction,
@@ -333,11 +1509,157 @@ export class AptosClientWrapper {
     }) as Promise<UserTransactionResponse>;
   }
 
+  /**
+   * Follow a submitted transaction until it commits, can no longer commit, or
+   * `timeoutSecs` pass, and report how it ended instead of throwing. With
+   * `gasBump`, an expired transaction sent by this client from its own
+   * account is resent with the same sequence number and a higher gas unit
+   * price until one commits or the next price would go over the ceiling.
+   */
+  async trackTransaction(
+    hash: string,
+    options?: { timeoutSecs?: number; gasBump?: GasBumpOptions },
+  ): Promise<TransactionLifecycle> {
+    const deadline = Date.now() + (options?.timeoutSecs ?? DEFAULT_WAIT_TIMEOUT_SECS) * 1000;
+    const original = this.sentTransactions.get(hash)?.transaction;
+    let tracked = original && getTransactionValidity(original.rawTransaction);
+    let current = hash;
+    let gasBumps = 0;
+    const report = (
+      state: TransactionState,
+      fields: Partial<TransactionLifecycle> = {},
+    ): TransactionLifecycle => ({
+      state,
+      hash,
+      ...(tracked && {
+        sender: tracked.sender,
+        sequenceNumber: tracked.sequenceNumber.toString(),
+        expirationTimestampSecs: tracked.expirationTimestampSecs.toString(),
+        gasUnitPrice: tracked.gasUnitPrice.toString(),
+      }),
+      ...(current !== hash && { latestHash: current }),
+      gasBumps,
+      ...fields,
+    });
+
+    // Clock and sender readings taken before the latest lookup, so a
+    // transaction that commits in between is never taken for expired or replaced
+    let readings: [LedgerInfo, { sequence_number: string }] | undefined;
+    for (;;) {
+      const found = await this.findTransaction(current);
+      if (found?.type === TransactionResponseType.User) {
+        // A gas bumped resubmission that commits is reported by its own result
+        return report(found.success ? 'committed' : 'failed', {
+          ...(current !== hash && { replacementHash: current }),
+          version: found.version,
+          success: found.success,
+          vmStatus: found.vm_status,
+          gasUsed: found.gas_used,
+        });
+      }
+      if (found?.type === TransactionResponseType.Pending && !tracked) {
+        tracked = {
+          sender: found.sender,
+          sequenceNumber: BigInt(found.sequence_number),
+          expirationTimestampSecs: BigInt(found.expiration_timestamp_secs),
+          gasUnitPrice: BigInt(found.gas_unit_price),
+        };
+      }
+
+      const state =
+        tracked &&
+        readings &&
+        getUncommittedState(
+          tracked,
+          BigInt(readings[0].ledger_timestamp),
+          BigInt(readings[1].sequence_number),
+        );
+      if (state === 'expired' && tracked && options?.gasBump) {
+        const sent = this.sentTransactions.get(current);
+        const gasUnitPrice = getBumpedGasUnitPrice(tracked.gasUnitPrice, options.gasBump);
+        if (sent && gasUnitPrice !== undefined && this.canResend(sent.transaction)) {
+          try {
+            const resent = await this.resendWithGasUnitPrice(
+              sent.transaction,
+              gasUnitPrice,
+              sent.idempotencyKey,
+              options.gasBump.expiresInSecs,
+            );
+            current = resent.hash;
+            tracked = getTransactionValidity(resent.transaction.rawTransaction);
+          } catch (error) {
+            return report('expired', { error: (error as Error).message });
+          }
+          gasBumps++;
+          readings = undefined;
+          continue;
+        }
+      }
+      if (state) {
+        return report(state);
+      }
+      if (Date.now() >= deadline) {
+        return report('pending');
+      }
+      // The first miss is judged right away, later ones after a pause
+      if (readings || !tracked) {
+        await sleep(LIFECYCLE_POLL_INTERVAL_MS);
+      }
+      readings =
+        tracked &&
+        (await Promise.all([
+          this.getLedgerInfo(),
+          this.client.getAccountInfo({ accountAddress: AccountAddress.from(tracked.sender) }),
+        ]));
+    }
+  }
+
+  /**
+   * Whether a sent transaction can be signed again by this client alone
+   */
+  private canResend(transaction: AnyRawTransaction): transaction is SimpleTransaction {
+    return (
+      this.account !== null &&
+      transaction instanceof SimpleTransaction &&
+      !transaction.feePayerAddress &&
+      transaction.rawTransaction.sender.equals(this.account.accountAddress)
+    );
+  }
+
+  /**
+   * Sign and send a copy of an expired transaction with a new gas unit price
+   * and expiration time
+   */
+  private async resendWithGasUnitPrice(
+    transaction: SimpleTransaction,
+    gasUnitPrice: bigint,
+    idempotencyKey: string | undefined,
+    expiresInSecs = DEFAULT_RESUBMIT_EXPIRES_IN_SECS,
+  ): Promise<{ hash: string; transaction: SimpleTransaction }> {
+    const raw = transaction.rawTransaction;
+    const resent = new SimpleTransaction(
+      new RawTransaction(
+        raw.sender,
+        raw.sequence_number,
+        raw.payload,
+        raw.max_gas_amount,
+        gasUnitPrice,
+        BigInt(getExpireTimestamp(expiresInSecs) as number),
+        raw.chain_id,
+      ),
+    );
+    const signed = await this.signRawTransaction(resent);
+    await this.sendIdempotent(idempotencyKey, signed.hash, resent, () =>
+      this.postSignedTransaction(signed.signedTransaction),
+    );
+    return { hash: signed.hash, transaction: resent };
+  }
+
   /**
    * Call a view function
    */
   async viewFunction<T>(payload: InputViewFunctionData): Promise<T[]> {
-    return this.client.view<T[]>(payload);
+    return this.client.view<T[]>({ payload, options: this.getLedgerVersionArg() });
   }
 
   /**
@@ -350,6 +1672,11 @@ export class AptosClientWrapper {
     if (!this.account) {
       throw new Error('Account required to transfer APT');
     }
+    await this.verifyChainId();
+    const replayed = await this.replayIdempotent(this.idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
 
     const transaction = await this.client.transferCoinTransaction({
       sender: this.account.accountAddress,
@@ -361,28 +1688,46 @@ export class AptosClientWrapper {
       signer: this.account,
       transaction,
     });
+    const signed = { transaction, senderAuthenticator: signedTx };
 
-    return this.client.transaction.submit.simple({
-      senderAuthenticator: signedTx,
-      transaction,
-    });
+    return this.sendIdempotent(this.idempotencyKey, generateUserTransactionHash(signed), transaction, () =>
+      this.client.transaction.submit.simple(signed),
+    );
   }
 
   /**
-   * Get coin balance
+   * Get coin balance. A failed read counts as 0 unless `throwOnError` is set.
    */
-  async getCoinBalance(address: string, coinType: string): Promise<bigint> {
+  async getCoinBalance(address: string, coinType: string, options?: { throwOnError?: boolean }): Promise<bigint> {
     try {
+      if (this.pinnedLedgerVersion !== undefined) {
+        return await this.viewCoinBalance(address, coinType);
+      }
       const balance = await this.client.getAccountCoinAmount({
         accountAddress: AccountAddress.from(address),
-        coinType,
+        coinType: coinType as MoveStructId,
       });
       return BigInt(balance);
-    } catch {
+    } catch (error) {
+      if (options?.throwOnError) {
+        throw error;
+      }
       return BigInt(0);
     }
   }
 
+  /**
+   * Balance of a fungible asset in an account's primary store
+   */
+  async getFungibleAssetBalance(address: string, metadataAddress: string): Promise<bigint> {
+    const [balance] = await this.viewFunction<string>({
+      function: VIEW_FUNCTIONS.primaryStoreBalance,
+      typeArguments: [RESOURCE_TYPES.metadata],
+      functionArguments: [AccountAddress.from(address), AccountAddress.from(metadataAddress)],
+    });
+    return BigInt(balance);
+  }
+
   /**
    * Check if account exists
    */
@@ -408,9 +1753,13 @@ export class AptosClientWrapper {
    * Get transaction by version
    */
   async getTransactionByVersion(version: number): Promise<UserTransactionResponse> {
-    return this.client.getTransactionByVersion({
-      ledgerVersion: version,
-    }) as Promise<UserTransactionResponse>;
+    const fetchTransaction = () =>
+      this.client.getTransactionByVersion({
+        ledgerVersion: version,
+      }) as Promise<UserTransactionResponse>;
+    return this.cache
+      ? this.cache.getOrFetch(`txn:${version}`, fetchTransaction)
+      : fetchTransaction();
   }
 
   /**
@@ -418,7 +1767,7 @@ export class AptosClientWrapper {
    */
   async getAccountTransactions(
     address: string,
-    options?: { start?: number; limit?: number },
+    options?: { start?: number | bigint; limit?: number },
   ): Promise<UserTransactionResponse[]> {
     return this.client.getAccountTransactions({
       accountAddress: AccountAddress.from(address),
@@ -429,6 +1778,20 @@ export class AptosClientWrapper {
     }) as Promise<UserTransactionResponse[]>;
   }
 
+  /**
+   * Get all account transactions from a starting sequence number
+   */
+  async getAllAccountTransactions(
+    address: string,
+    options?: { start?: number | bigint; maxItems?: number },
+  ): Promise<UserTransactionResponse[]> {
+    return collectSequencePages(
+      (start, limit) => this.getAccountTransactions(address, { start, limit }),
+      BigInt(options?.start ?? 0),
+      options?.maxItems ?? DEFAULT_MAX_ITEMS,
+    );
+  }
+
   /**
    * Estimate gas for a transaction
    */
@@ -448,22 +1811,338 @@ export class AptosClientWrapper {
   }
 
   /**
-   * Get events by event handle
+   * Get events by event handle, paged by event sequence number
    */
   async getEventsByEventHandle(
     address: string,
     eventHandleStruct: string,
     fieldName: string,
-    options?: { start?: number; limit?: number },
-  ) {
-    return this.client.getAccountEventsByEventType({
-      accountAddress: AccountAddress.from(address),
-      eventType: `${eventHandleStruct}::${fieldName}`,
-      options: {
-        offset: options?.start,
-        limit: options?.limit,
+    options?: { start?: number | bigint; limit?: number },
+  ): Promise<EventHandleEvent[]> {
+    const { data } = await getAptosFullNode<object, EventHandleEvent[]>({
+      aptosConfig: this.client.config,
+      originMethod: 'getEventsByEventHandle',
+      path: `accounts/${AccountAddress.from(address).toString()}/events/${encodeURIComponent(
+        eventHandleStruct,
+      )}/${encodeURIComponent(fieldName)}`,
+      params: { start: options?.start, limit: options?.limit },
+    });
+    return data;
+  }
+
+  /**
+   * Get all events of an event handle from a starting sequence number
+   */
+  async getAllEventsByEventHandle(
+    address: string,
+    eventHandleStruct: string,
+    fieldName: string,
+    options?: { start?: number | bigint; maxItems?: number },
+  ): Promise<EventHandleEvent[]> {
+    return collectSequencePages(
+      (start, limit) =>
+        this.getEventsByEventHandle(address, eventHandleStruct, fieldName, { start, limit }),
+      BigInt(options?.start ?? 0),
+      options?.maxItems ?? DEFAULT_MAX_ITEMS,
+    );
+  }
+
+  /**
+   * Request a fullnode path with `Accept: application/x-bcs` and return the raw
+   * response bytes. Goes through the same retries and failover as SDK requests.
+   */
+  async requestBcs(
+    method: 'GET' | 'POST',
+    path: string,
+    options: { params?: Record<string, string | undefined>; body?: unknown } = {},
+  ): Promise<Uint8Array> {
+    const response = await this.bcsClient.provider<unknown, Uint8Array>({
+      url: `${this.endpointPool.primary}/${path}`,
+      method,
+      params: options.params,
+      body: options.body,
+      headers: { accept: BCS_MIME_TYPE, 'content-type': 'application/json' },
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `Fullnode request for ${path} failed with status ${response.status}: ${getBcsErrorMessage(response.data)}`,
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * Get an account resource as BCS bytes, at the pinned ledger version if any
+   */
+  async getAccountResourceBcs(address: string, resourceType: string): Promise<Uint8Array> {
+    return this.requestBcs(
+      'GET',
+      `accounts/${AccountAddress.from(address).toString()}/resource/${encodeURIComponent(resourceType)}`,
+      { params: { ledger_version: this.pinnedLedgerVersion } },
+    );
+  }
+
+  /**
+   * Get a committed or pending transaction as BCS bytes
+   */
+  async getTransactionByHashBcs(hash: string): Promise<Uint8Array> {
+    return this.requestBcs('GET', `transactions/by_hash/${encodeURIComponent(hash)}`);
+  }
+
+  /**
+   * Get a committed transaction as BCS bytes
+   */
+  async getTransactionByVersionBcs(version: number | string): Promise<Uint8Array> {
+    return this.requestBcs('GET', `transactions/by_version/${version}`);
+  }
+
+  /**
+   * Call a view function and return each return value as BCS bytes. The
+   * arguments are checked against the function's ABI first. Reads at
+   * `ledgerVersion`, else at the pinned ledger version if any.
+   */
+  async viewFunctionBcs(payload: ViewFunctionPayload): Promise<Uint8Array[]> {
+    return this.callViewFunctionBcs(await this.getFunctionAbi(payload.function, 'view'), payload);
+  }
+
+  /**
+   * Call a view function whose ABI was already fetched
+   */
+  private async callViewFunctionBcs(fn: MoveFunction, payload: ViewFunctionPayload): Promise<Uint8Array[]> {
+    const typeArguments = payload.typeArguments ?? [];
+    const args = coerceFunctionArguments(payload.function, fn, typeArguments, payload.functionArguments ?? []);
+    const bytes = await this.requestBcs('POST', 'view', {
+      params: { ledger_version: payload.ledgerVersion ?? this.pinnedLedgerVersion },
+      body: {
+        function: payload.function,
+        type_arguments: typeArguments,
+        arguments: args.map((arg, i) => toMoveJsonArg(arg, substituteTypeParams(fn.params[i], typeArguments))),
       },
     });
+    return decodeByteVectors(bytes);
+  }
+
+  /**
+   * ABI of an entry or view function, from its module
+   */
+  async getFunctionAbi(functionId: string, kind: 'entry' | 'view'): Promise<MoveFunction> {
+    const { address, module, function: name } = parseFunctionId(functionId);
+    const abi = await this.getModuleAbi(address, module);
+    const fn = abi?.exposed_functions.find((f) => f.name === name);
+    if (!fn) {
+      throw new Error(`Function ${functionId} not found in the module ABI`);
+    }
+    if (kind === 'entry' ? !fn.is_entry : !fn.is_view) {
+      throw new Error(`${functionId} is not ${kind === 'entry' ? 'an entry' : 'a view'} function`);
+    }
+    return fn;
+  }
+
+  /**
+   * Check entry or view function arguments against the function's ABI and
+   * convert each one to its parameter type, before anything is built or sent
+   */
+  async prepareFunctionArguments(
+    functionId: string,
+    typeArguments: string[],
+    args: unknown,
+    kind: 'entry' | 'view',
+  ): Promise<unknown[]> {
+    return coerceFunctionArguments(functionId, await this.getFunctionAbi(functionId, kind), typeArguments, args);
+  }
+
+  /**
+   * Check the arguments of several calls like prepareFunctionArguments. The
+   * ABI of each distinct function is fetched once. A call whose function or
+   * arguments don't check out gives an `error` in its place instead of
+   * failing the others.
+   */
+  async prepareFunctionArgumentsBatch(
+    calls: Array<{ function: string; typeArguments: string[]; functionArguments: unknown }>,
+    kind: 'entry' | 'view',
+  ): Promise<Array<{ functionArguments?: unknown[]; error?: string }>> {
+    const abis = new Map<string, Promise<MoveFunction | Error>>();
+    for (const call of calls) {
+      if (!abis.has(call.function)) {
+        abis.set(call.function, this.getFunctionAbi(call.function, kind).catch((error: Error) => error));
+      }
+    }
+    const results: Array<{ functionArguments?: unknown[]; error?: string }> = [];
+    for (const call of calls) {
+      const fn = (await abis.get(call.function)) as MoveFunction | Error;
+      if (fn instanceof Error) {
+        results.push({ error: fn.message });
+        continue;
+      }
+      try {
+        results.push({ functionArguments: coerceFunctionArguments(call.function, fn, call.typeArguments, call.functionArguments) });
+      } catch (error) {
+        results.push({ error: (error as Error).message });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Fetch the module ABIs needed to decode BCS values of the given types and
+   * return a resolver for every struct they contain
+   */
+  async getStructLayoutResolver(types: string[]): Promise<StructLayoutResolver> {
+    const layouts = new Map<string, Array<{ name: string; type: string }>>();
+    const modules = new Map<string, Promise<MoveModule | undefined>>();
+
+    const visit = async (tag: MoveTypeTag): Promise<void> => {
+      if (tag.kind === 'vector') {
+        return visit(tag.elementType);
+      }
+      if (tag.kind !== 'struct' || isStringType(tag)) {
+        return;
+      }
+      const moveType = formatTypeTag(tag);
+      if (layouts.has(moveType)) {
+        return;
+      }
+      const framework = getFrameworkStructLayout(tag);
+      if (framework) {
+        for (const field of framework) {
+          await visit(parseTypeTag(field.type));
+        }
+        return;
+      }
+      const moduleKey = `${tag.address}::${tag.module}`;
+      if (!modules.has(moduleKey)) {
+        modules.set(moduleKey, this.getModuleAbi(tag.address, tag.module));
+      }
+      const struct = (await modules.get(moduleKey))?.structs.find((s) => s.name === tag.name);
+      if (!struct) {
+        throw new Error(`Struct ${getStructId(tag)} not found in the module ABI`);
+      }
+      const fieldTags = struct.fields.map((field) => instantiateTypeTag(parseTypeTag(field.type), tag.typeArgs));
+      layouts.set(
+        moveType,
+        struct.fields.map((field, i) => ({ name: field.name, type: formatTypeTag(fieldTags[i]) })),
+      );
+      for (const fieldTag of fieldTags) {
+        await visit(fieldTag);
+      }
+    };
+
+    for (const type of types) {
+      await visit(parseTypeTag(type));
+    }
+    return (structType) => layouts.get(normalizeMoveType(structType));
+  }
+
+  /**
+   * Decode a BCS encoded Move value of any type, such as a view result, an
+   * event payload or a transaction argument, resolving its structs from
+   * their module ABIs
+   */
+  async decodeMoveValue(type: string, bytes: Uint8Array | string): Promise<unknown> {
+    return decodeMoveValue(type, bytes, await this.getStructLayoutResolver([type]));
+  }
+
+  /**
+   * Decode a BCS encoded account resource using its module ABI
+   */
+  async decodeResourceBcs(resourceType: string, bytes: Uint8Array): Promise<unknown> {
+    return this.decodeMoveValue(resourceType, bytes);
+  }
+
+  /**
+   * Decode a transaction read as BCS. For an entry function payload the
+   * arguments are decoded with the parameter types from the function's ABI.
+   * If the ABI can't be used, `argumentsError` says why and only the hex of
+   * each argument is given.
+   */
+  async decodeTransactionBcs(bytes: Uint8Array): Promise<IDataObject> {
+    const { signedTransaction, ...data } = deserializeTransactionData(bytes);
+    if (!signedTransaction) {
+      return { ...data };
+    }
+    const raw = signedTransaction.raw_txn;
+    const decoded: IDataObject = {
+      ...data,
+      sender: raw.sender.toString(),
+      sequenceNumber: raw.sequence_number.toString(),
+      maxGasAmount: raw.max_gas_amount.toString(),
+      gasUnitPrice: raw.gas_unit_price.toString(),
+      expirationTimestampSecs: raw.expiration_timestamp_secs.toString(),
+      chainId: raw.chain_id.chainId,
+    };
+    if (!(raw.payload instanceof TransactionPayloadEntryFunction)) {
+      decoded.payload = { type: raw.payload instanceof TransactionPayloadScript ? 'script_payload' : 'multisig_payload' };
+      return decoded;
+    }
+    const entryFunction = raw.payload.entryFunction;
+    const functionId = `${entryFunction.module_name.address.toString()}::${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`;
+    const typeArguments = entryFunction.type_args.map((typeArg) => normalizeMoveType(typeArg.toString()));
+    const argumentsBcs = entryFunction.args.map((arg) => bytesToHex(arg.bcsToBytes()));
+    const payload: IDataObject = { type: 'entry_function_payload', function: functionId, typeArguments, argumentsBcs };
+    try {
+      const fn = await this.getFunctionAbi(functionId, 'entry');
+      const typeTags = typeArguments.map(parseTypeTag);
+      const params = fn.params.map(parseTypeTag).filter((tag) => !isSignerParam(tag));
+      const args: unknown[] = [];
+      for (let i = 0; i < params.length; i++) {
+        args.push(await this.decodeMoveValue(formatTypeTag(instantiateTypeTag(params[i], typeTags)), entryFunction.args[i].bcsToBytes()));
+      }
+      payload.arguments = args as IDataObject[];
+    } catch (error) {
+      payload.argumentsError = (error as Error).message;
+    }
+    decoded.payload = payload;
+    return decoded;
+  }
+
+  /**
+   * Call a view function over BCS and decode the return values using the
+   * function's return types from its module ABI
+   */
+  async viewFunctionDecoded(payload: ViewFunctionPayload): Promise<unknown[]> {
+    const { call } = await this.getViewFunctionDecoder(payload);
+    return call(payload.functionArguments ?? []);
+  }
+
+  /**
+   * Call one view function once per argument list. The ABI and struct
+   * layouts are fetched once and the calls run concurrently. A call that
+   * fails gives an `error` in its place instead of failing the others.
+   * `returnTypes` are the function's return types with its type arguments filled in.
+   */
+  async viewFunctionDecodedBatch(
+    payload: Omit<ViewFunctionPayload, 'functionArguments'>,
+    argumentLists: unknown[][],
+    options?: { concurrency?: number },
+  ): Promise<{ returnTypes: string[]; results: Array<{ values?: unknown[]; error?: string }> }> {
+    const { returnTypes, call } = await this.getViewFunctionDecoder(payload);
+    const results = await runWithConcurrency(argumentLists, options?.concurrency || DEFAULT_BATCH_CONCURRENCY, async (functionArguments) => {
+      try {
+        return { values: await call(functionArguments) };
+      } catch (error) {
+        return { error: (error as Error).message };
+      }
+    });
+    return { returnTypes, results };
+  }
+
+  /**
+   * Fetch a view function's ABI and return struct layouts once, for calls
+   * with one argument list each that decode their results
+   */
+  private async getViewFunctionDecoder(
+    payload: Omit<ViewFunctionPayload, 'functionArguments'>,
+  ): Promise<{ returnTypes: string[]; call: (functionArguments: unknown[]) => Promise<unknown[]> }> {
+    const fn = await this.getFunctionAbi(payload.function, 'view');
+    const returnTypes = fn.return.map((type) =>
+      substituteTypeParams(type, payload.typeArguments ?? []),
+    );
+    const resolveStruct = await this.getStructLayoutResolver(returnTypes);
+    const call = async (functionArguments: unknown[]) => {
+      const results = await this.callViewFunctionBcs(fn, { ...payload, functionArguments });
+      return results.map((bytes, i) => decodeBcs(returnTypes[i], bytes, resolveStruct));
+    };
+    return { returnTypes, call };
   }
 
   /**
@@ -482,15 +2161,18 @@ export class AptosClientWrapper {
         value_type: valueType,
         key,
       },
+      options: this.getLedgerVersionArg(),
     });
   }
 }
 
 /**
- * Create a new AptosClientWrapper from credentials
+ * Create a new AptosClientWrapper from credentials.
+ * Retry settings given as node options override the ones stored on the credential.
  */
 export function createAptosClientWrapper(
   credentials: ICredentialDataDecryptedObject,
+  retryOverrides?: IDataObject,
 ): AptosClientWrapper {
-  return new AptosClientWrapper(credentials);
+  return new AptosClientWrapper(credentials, getRetryPolicy(credentials, retryOverrides));
 }
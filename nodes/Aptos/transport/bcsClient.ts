@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * BCS Transport
+ *
+ * The SDK's HTTP client always parses responses as JSON, so fullnode reads that
+ * ask for `application/x-bcs` go through this client instead and get the raw
+ * response bytes back. It plugs into the same retry and failover wrapper as the
+ * SDK client.
+ */
+
+import axios from 'axios';
+import type { Client, ClientRequest, ClientResponse } from '@aptos-labs/ts-sdk';
+
+export const BCS_MIME_TYPE = 'application/x-bcs';
+
+const BCS_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Whether a request asks the fullnode for a BCS response
+ */
+export function acceptsBcs<Req>(request: ClientRequest<Req>): boolean {
+  return request.headers?.accept === BCS_MIME_TYPE;
+}
+
+/**
+ * Create a client that fetches BCS requests as raw bytes. Every other request,
+ * such as the endpoint pool's health probes, is handed to `jsonClient`.
+ */
+export function createBcsClient(jsonClient: Client): Client {
+  return {
+    provider: async <Req, Res>(request: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+      if (!acceptsBcs(request)) {
+        return jsonClient.provider<Req, Res>(request);
+      }
+      const response = await axios.request<ArrayBuffer>({
+        url: request.url,
+        method: request.method,
+        params: request.params,
+        data: request.body,
+        headers: request.headers,
+        responseType: 'arraybuffer',
+        timeout: BCS_REQUEST_TIMEOUT_MS,
+        validateStatus: () => true,
+      });
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        data: new Uint8Array(response.data) as Res,
+        headers: response.headers,
+      };
+    },
+  };
+}
+
+/**
+ * Error responses are JSON even when BCS was requested. Return their message.
+ */
+export function getBcsErrorMessage(data: Uint8Array): string {
+  const text = new TextDecoder().decode(data);
+  try {
+    const parsed = JSON.parse(text) as { message?: string };
+    return parsed.message ?? text;
+  } catch {
+    return text;
+  }
+}
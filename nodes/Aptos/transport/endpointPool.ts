@@ -0,0 +1,285 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Fullnode Endpoint Pool
+ *
+ * Tracks the health of every fullnode configured for a network and routes SDK
+ * requests to the best one, failing over to the next endpoint when a node is
+ * unreachable, overloaded or lagging behind the rest of the pool.
+ */
+
+import type { Client, ClientRequest, ClientResponse } from '@aptos-labs/ts-sdk';
+import { RequestKind, RetryPolicy, isRetryableError, isRetryableStatus } from './retry';
+
+/**
+ * Health snapshot for a single fullnode
+ */
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  stale: boolean;
+  ledgerVersion?: number;
+  latencyMs?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+/**
+ * Pool tuning
+ */
+export interface EndpointPoolOptions {
+  /**
+   * How many versions a node may trail the most up to date node before it is considered stale
+   */
+  maxLedgerLag: number;
+  /**
+   * Timeout for a single health probe
+   */
+  probeTimeoutMs: number;
+  /**
+   * How long probe results are trusted before every endpoint is probed again
+   */
+  probeIntervalMs: number;
+}
+
+export const DEFAULT_ENDPOINT_POOL_OPTIONS: EndpointPoolOptions = {
+  maxLedgerLag: 1000,
+  probeTimeoutMs: 5000,
+  probeIntervalMs: 60000,
+};
+
+/**
+ * Weight of the newest latency sample in the moving average
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+export class EndpointPool {
+  private endpoints: EndpointHealth[];
+  private probedAt: number | undefined;
+  private options: EndpointPoolOptions;
+
+  /**
+   * Endpoint that served the most recent fullnode response
+   */
+  public lastServed?: string;
+
+  constructor(urls: string[], options: Partial<EndpointPoolOptions> = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one fullnode URL is required');
+    }
+    this.options = { ...DEFAULT_ENDPOINT_POOL_OPTIONS, ...options };
+    this.endpoints = urls.map((url) => ({
+      url,
+      healthy: true,
+      stale: false,
+      consecutiveFailures: 0,
+    }));
+  }
+
+  /**
+   * The primary endpoint, which the SDK is configured with
+   */
+  get primary(): string {
+    return this.endpoints[0].url;
+  }
+
+  /**
+   * Current health of every endpoint, in configuration order
+   */
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint }));
+  }
+
+  /**
+   * Endpoints ordered by preference: healthy before unhealthy, then fewest
+   * recent failures, then lowest latency. Configuration order breaks ties.
+   */
+  getOrderedEndpoints(): EndpointHealth[] {
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) => {
+        if (a.endpoint.healthy !== b.endpoint.healthy) {
+          return a.endpoint.healthy ? -1 : 1;
+        }
+        if (a.endpoint.consecutiveFailures !== b.endpoint.consecutiveFailures) {
+          return a.endpoint.consecutiveFailures - b.endpoint.consecutiveFailures;
+        }
+        const latencyA = a.endpoint.latencyMs ?? Number.MAX_SAFE_INTEGER;
+        const latencyB = b.endpoint.latencyMs ?? Number.MAX_SAFE_INTEGER;
+        if (latencyA !== latencyB) {
+          return latencyA - latencyB;
+        }
+        return a.index - b.index;
+      })
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * Probe every endpoint's ledger info, record latency and ledger version, and
+   * mark endpoints that are unreachable or lagging as unhealthy
+   */
+  async probe(baseClient: Client): Promise<EndpointHealth[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const started = Date.now();
+        try {
+          const response = await this.withTimeout(
+            baseClient.provider<unknown, { ledger_version?: string }>({
+              url: endpoint.url,
+              method: 'GET',
+              originMethod: 'endpointHealthProbe',
+            }),
+          );
+          if (response.status >= 400 || response.data?.ledger_version === undefined) {
+            throw new Error(`Health probe returned status ${response.status}`);
+          }
+          endpoint.ledgerVersion = Number(response.data.ledger_version);
+          this.recordSuccess(endpoint, Date.now() - started);
+        } catch (error) {
+          endpoint.ledgerVersion = undefined;
+          this.recordFailure(endpoint, error);
+        }
+      }),
+    );
+
+    this.updateStaleness();
+    this.probedAt = Date.now();
+    return this.getHealth();
+  }
+
+  /**
+   * Mark endpoints that trail the most up to date one by more than the
+   * allowed lag as stale and unhealthy
+   */
+  private updateStaleness(): void {
+    const versions = this.endpoints
+      .map((endpoint) => endpoint.ledgerVersion)
+      .filter((version): version is number => version !== undefined);
+    const highest = versions.length > 0 ? Math.max(...versions) : undefined;
+
+    for (const endpoint of this.endpoints) {
+      const wasStale = endpoint.stale;
+      endpoint.stale =
+        highest !== undefined &&
+        endpoint.ledgerVersion !== undefined &&
+        highest - endpoint.ledgerVersion > this.options.maxLedgerLag;
+      if (endpoint.stale) {
+        endpoint.healthy = false;
+        endpoint.lastError = `Ledger version ${endpoint.ledgerVersion} trails ${highest}`;
+      } else if (wasStale) {
+        endpoint.healthy = endpoint.consecutiveFailures === 0;
+        endpoint.lastError = undefined;
+      }
+    }
+  }
+
+  /**
+   * Send an SDK request, failing over across the pool when the request targets
+   * the fullnode. Failover follows the same rules as retrying, so a submission
+   * is only sent to another node when the previous one provably did not accept it.
+   */
+  async send<Req, Res>(
+    baseClient: Client,
+    request: ClientRequest<Req>,
+    kind: RequestKind,
+    policy: RetryPolicy,
+  ): Promise<ClientResponse<Res>> {
+    if (!request.url.startsWith(this.primary)) {
+      return baseClient.provider<Req, Res>(request);
+    }
+
+    if (
+      this.endpoints.length > 1 &&
+      (this.probedAt === undefined || Date.now() - this.probedAt >= this.options.probeIntervalMs)
+    ) {
+      await this.probe(baseClient);
+    }
+
+    const path = request.url.slice(this.primary.length);
+    let lastResponse: ClientResponse<Res> | undefined;
+    let lastError: unknown;
+
+    for (const endpoint of this.getOrderedEndpoints()) {
+      const started = Date.now();
+      try {
+        const response = await baseClient.provider<Req, Res>({
+          ...request,
+          url: endpoint.url + path,
+        });
+        if (isRetryableStatus(response.status, kind, policy)) {
+          this.recordFailure(endpoint, new Error(`Status ${response.status}`));
+          lastResponse = response;
+          continue;
+        }
+        this.recordSuccess(endpoint, Date.now() - started);
+        this.recordLedgerVersion(endpoint, response.headers);
+        this.lastServed = endpoint.url;
+        return response;
+      } catch (error) {
+        if (!isRetryableError(error, kind, policy)) {
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError;
+  }
+
+  private recordSuccess(endpoint: EndpointHealth, latencyMs: number): void {
+    endpoint.latencyMs =
+      endpoint.latencyMs === undefined
+        ? latencyMs
+        : Math.round(endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    endpoint.consecutiveFailures = 0;
+    endpoint.healthy = !endpoint.stale;
+    endpoint.lastError = endpoint.stale ? endpoint.lastError : undefined;
+  }
+
+  /**
+   * Keep an endpoint's ledger version current from the `x-aptos-ledger-version`
+   * header of its responses, so a node that falls behind between probes is
+   * marked stale on its next response
+   */
+  private recordLedgerVersion(endpoint: EndpointHealth, headers: unknown): void {
+    const header = (headers as Record<string, unknown> | undefined)?.['x-aptos-ledger-version'];
+    const ledgerVersion = Number(header);
+    if (header === undefined || !Number.isSafeInteger(ledgerVersion)) {
+      return;
+    }
+    endpoint.ledgerVersion = ledgerVersion;
+    if (this.endpoints.length > 1) {
+      this.updateStaleness();
+    }
+  }
+
+  private recordFailure(endpoint: EndpointHealth, error: unknown): void {
+    endpoint.consecutiveFailures++;
+    endpoint.healthy = false;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Health probe timed out after ${this.options.probeTimeoutMs}ms`)),
+        this.options.probeTimeoutMs,
+      );
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -12,9 +12,9 @@
  * Since Aptos doesn't have native WebSocket support, we poll for new events.
  */
 
-import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type { ICredentialDataDecryptedObject, IDataObject } from 'n8n-workflow';
 import { AptosClientWrapper, createAptosClientWrapper } from './aptosClient';
-import { IndexerClientWrapper, createIndexerClientWrapper } from './indexerClient';
+import { IndexerClientWrapper } from './indexerClient';
 
 /**
  * Event polling options
@@ -24,6 +24,7 @@ export interface EventPollingOptions {
   startVersion?: number; // Starting ledger version (optional)
   eventTypes?: string[]; // Filter to specific event types
   addresses?: string[]; // Filter to specific addresses
+  retryOverrides?: IDataObject; // Retry Options that override the credential, for fullnode and indexer requests
 }
 
 /**
@@ -66,10 +67,10 @@ export class EventStreamManager {
     indexerCredentials?: ICredentialDataDecryptedObject,
     options: Partial<EventPollingOptions> = {},
   ) {
-    this.aptosClient = createAptosClientWrapper(aptosCredentials);
+    this.aptosClient = createAptosClientWrapper(aptosCredentials, options.retryOverrides);
 
     if (indexerCredentials) {
-      this.indexerClient = createIndexerClientWrapper(indexerCredentials);
+      this.indexerClient = this.aptosClient.createIndexerClient(indexerCredentials);
     }
 
     this.options = {
@@ -77,6 +78,7 @@ export class EventStreamManager {
       startVersion: options.startVersion,
       eventTypes: options.eventTypes,
       addresses: options.addresses,
+      retryOverrides: options.retryOverrides,
     };
 
     this.state = {
@@ -244,6 +246,13 @@ export class EventStreamManager {
     return { ...this.state };
   }
 
+  /**
+   * Requests retried so far by the fullnode and indexer clients
+   */
+  getRetryCount(): number {
+    return this.aptosClient.retryCounter.retries;
+  }
+
   /**
    * Set state (for resuming from checkpoint)
    */
@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Idempotency Store
+ *
+ * Remembers the transaction sent for each idempotency key, so a retried
+ * execution looks that transaction up on chain instead of sending it again.
+ * Records are kept in workflow static data, per network.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Days a record is kept before the key can send a new transaction
+ */
+export const DEFAULT_IDEMPOTENCY_RETENTION_DAYS = 30;
+
+/**
+ * Key under which records are stored in workflow static data
+ */
+const STATIC_DATA_KEY = 'aptosIdempotency';
+
+/**
+ * How a write was resolved: sent now, or found from an earlier execution
+ */
+export type SubmissionKind = 'fresh' | 'replayed';
+
+export interface IdempotencyRecord {
+  hash: string;
+  sender: string;
+  sequenceNumber: string;
+  expirationTimestampSecs: string;
+  /** Unix milliseconds when the transaction was sent */
+  submittedAt: number;
+}
+
+export class IdempotencyStore {
+  /**
+   * @param records Object the records are read from and written to, usually part of workflow static data
+   */
+  constructor(private readonly records: IDataObject = {}) {}
+
+  get(key: string): IdempotencyRecord | undefined {
+    return this.records[key] as IdempotencyRecord | undefined;
+  }
+
+  set(key: string, record: IdempotencyRecord): void {
+    this.records[key] = record as unknown as IDataObject;
+  }
+
+  delete(key: string): void {
+    delete this.records[key];
+  }
+
+  /**
+   * Drop records sent before `cutoff` (Unix milliseconds)
+   */
+  prune(cutoff: number): void {
+    for (const [key, record] of Object.entries(this.records)) {
+      if (((record as IDataObject).submittedAt as number) < cutoff) {
+        delete this.records[key];
+      }
+    }
+  }
+}
+
+/**
+ * Open the records of one namespace (the primary fullnode URL) in workflow
+ * static data, dropping the ones older than the retention period. Changes
+ * are written straight to the static data.
+ */
+export function loadIdempotencyStore(
+  staticData: IDataObject,
+  namespace: string,
+  retentionDays = DEFAULT_IDEMPOTENCY_RETENTION_DAYS,
+): IdempotencyStore {
+  const stored = (staticData[STATIC_DATA_KEY] as IDataObject | undefined) ?? {};
+  staticData[STATIC_DATA_KEY] = stored;
+  const records = (stored[namespace] as IDataObject | undefined) ?? {};
+  stored[namespace] = records;
+  const store = new IdempotencyStore(records);
+  store.prune(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  return store;
+}
@@ -9,3 +9,12 @@ export * from './aptosClient';
 export * from './indexerClient';
 export * from './faucetClient';
 export * from './eventStream';
+export * from './restClient';
+export * from './retry';
+export * from './endpointPool';
+export * from './responseCache';
+export * from './pagination';
+export * from './bcsClient';
+export * from './sequenceManager';
+export * from './idempotencyStore';
+export * from './transactionLifecycle';
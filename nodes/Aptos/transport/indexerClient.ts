@@ -13,8 +13,9 @@
  */
 
 import { GraphQLClient } from 'graphql-request';
-import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type { ICredentialDataDecryptedObject, IDataObject } from 'n8n-workflow';
 import { NETWORKS } from '../constants/networks';
+import { RetryCounter, RetryPolicy, getRetryPolicy, withRetry } from './retry';
 
 /**
  * Get indexer URL from credentials
@@ -364,16 +365,29 @@ export const INDEXER_QUERIES = {
  */
 export class IndexerClientWrapper {
   private client: GraphQLClient;
+  public retryPolicy: RetryPolicy;
+  public retryCounter: RetryCounter;
 
-  constructor(credentials: ICredentialDataDecryptedObject) {
+  constructor(
+    credentials: ICredentialDataDecryptedObject,
+    retryPolicy: RetryPolicy = getRetryPolicy(credentials),
+    retryCounter: RetryCounter = { retries: 0 },
+  ) {
     this.client = createIndexerClient(credentials);
+    this.retryPolicy = retryPolicy;
+    this.retryCounter = retryCounter;
   }
 
   /**
-   * Execute a custom GraphQL query
+   * Execute a custom GraphQL query.
+   * Indexer queries are read-only, so they are retried as idempotent reads.
    */
   async query<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
-    return this.client.request<T>(query, variables);
+    return withRetry(() => this.client.request<T>(query, variables), {
+      policy: this.retryPolicy,
+      kind: 'read',
+      counter: this.retryCounter,
+    });
   }
 
   /**
@@ -504,10 +518,13 @@ export class IndexerClientWrapper {
 }
 
 /**
- * Create a new IndexerClientWrapper from credentials
+ * Create a new IndexerClientWrapper from credentials, optionally overriding the retry policy.
+ * Pass a counter to add its retries to another client's count.
  */
 export function createIndexerClientWrapper(
   credentials: ICredentialDataDecryptedObject,
+  retryOverrides?: IDataObject,
+  retryCounter?: RetryCounter,
 ): IndexerClientWrapper {
-  return new IndexerClientWrapper(credentials);
+  return new IndexerClientWrapper(credentials, getRetryPolicy(credentials, retryOverrides), retryCounter);
 }
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Pagination helpers
+ *
+ * The fullnode pages account resources and modules with an opaque cursor returned
+ * in the `x-aptos-cursor` header, while account transactions and event handle
+ * events are paged by sequence number.
+ */
+
+/**
+ * Page size requested from the fullnode while collecting all results
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Default cap on the number of results collected by "Return All"
+ */
+export const DEFAULT_MAX_ITEMS = 1000;
+
+/**
+ * A single cursor-paginated page
+ */
+export interface CursorPage<T> {
+  items: T[];
+  cursor?: string;
+}
+
+/**
+ * Follow cursors until the fullnode stops returning one or `maxItems` is reached
+ */
+export async function collectCursorPages<T>(
+  fetchPage: (cursor: string | undefined, limit: number) => Promise<CursorPage<T>>,
+  maxItems = DEFAULT_MAX_ITEMS,
+  pageSize = DEFAULT_PAGE_SIZE,
+): Promise<T[]> {
+  const results: T[] = [];
+  let cursor: string | undefined;
+
+  while (results.length < maxItems) {
+    const page = await fetchPage(cursor, Math.min(pageSize, maxItems - results.length));
+    results.push(...page.items);
+    cursor = page.cursor;
+    if (!cursor || page.items.length === 0) {
+      break;
+    }
+  }
+
+  return results.slice(0, maxItems);
+}
+
+/**
+ * Page through a sequence-number ordered list, starting each page after the
+ * last sequence number seen, until a short page or `maxItems` is reached
+ */
+export async function collectSequencePages<T extends { sequence_number?: string }>(
+  fetchPage: (start: bigint, limit: number) => Promise<T[]>,
+  start: bigint = BigInt(0),
+  maxItems = DEFAULT_MAX_ITEMS,
+  pageSize = DEFAULT_PAGE_SIZE,
+): Promise<T[]> {
+  const results: T[] = [];
+  let next = start;
+
+  while (results.length < maxItems) {
+    const limit = Math.min(pageSize, maxItems - results.length);
+    const page = await fetchPage(next, limit);
+    results.push(...page);
+    if (page.length < limit) {
+      break;
+    }
+    const last = page[page.length - 1].sequence_number;
+    next = last === undefined ? next + BigInt(page.length) : BigInt(last) + BigInt(1);
+  }
+
+  return results.slice(0, maxItems);
+}
@@ -0,0 +1,153 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Response Cache
+ *
+ * Least-recently-used cache for chain data that can never change once written:
+ * committed transactions by version, blocks by height and module ABIs read at a
+ * fixed ledger version. The cache can be persisted in workflow static data so
+ * later executions start warm.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Key under which persisted caches are stored in workflow static data
+ */
+const STATIC_DATA_KEY = 'aptosResponseCache';
+
+/**
+ * Cache counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, unknown>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  public readonly maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {
+    this.maxEntries = Math.max(1, Math.floor(maxEntries));
+  }
+
+  /**
+   * Look up a value and mark it as most recently used
+   */
+  get<T>(key: string): T | undefined {
+    if (!this.entries.has(key)) {
+      this.misses++;
+      return undefined;
+    }
+    const value = this.entries.get(key) as T;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    this.hits++;
+    return value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   */
+  set(key: string, value: unknown): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    }
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Return the cached value or fetch and cache it.
+   * `isCacheable` can reject values that are not final yet, such as pending transactions.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    isCacheable: (value: T) => boolean = () => true,
+  ): Promise<T> {
+    const cached = this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const value = await fetcher();
+    if (isCacheable(value)) {
+      this.set(key, value);
+    }
+    return value;
+  }
+
+  getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+    };
+  }
+
+  /**
+   * Entries from least to most recently used
+   */
+  toJSON(): Array<[string, unknown]> {
+    return Array.from(this.entries.entries());
+  }
+
+  /**
+   * Restore entries produced by `toJSON`
+   */
+  load(entries: Array<[string, unknown]>): void {
+    for (const [key, value] of entries) {
+      this.set(key, value);
+    }
+  }
+}
+
+/**
+ * Create a cache and warm it from workflow static data.
+ * Caches are stored per namespace (the primary fullnode URL) so networks never mix.
+ */
+export function loadResponseCache(
+  staticData: IDataObject,
+  namespace: string,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+): ResponseCache {
+  const cache = new ResponseCache(maxEntries);
+  const stored = (staticData[STATIC_DATA_KEY] as IDataObject | undefined)?.[namespace];
+  if (Array.isArray(stored)) {
+    cache.load(stored as Array<[string, unknown]>);
+  }
+  return cache;
+}
+
+/**
+ * Write a cache back to workflow static data
+ */
+export function saveResponseCache(
+  staticData: IDataObject,
+  namespace: string,
+  cache: ResponseCache,
+): void {
+  const stored = (staticData[STATIC_DATA_KEY] as IDataObject | undefined) ?? {};
+  stored[namespace] = cache.toJSON() as unknown as IDataObject[];
+  staticData[STATIC_DATA_KEY] = stored;
+}
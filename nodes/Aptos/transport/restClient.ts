@@ -0,0 +1,202 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Aptos REST Transport
+ *
+ * Single authenticated request helper for the fullnode REST API, used by the
+ * v1 node with the `aptosApi` credential.
+ */
+
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  IHttpRequestMethods,
+  IHttpRequestOptions,
+  JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+
+/**
+ * Query string values accepted by the REST helper.
+ * Empty values are dropped before the request is sent.
+ */
+export type RestQuery = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Options for a single REST call
+ */
+export interface RestRequestOptions {
+  qs?: RestQuery;
+  body?: IDataObject | IDataObject[];
+}
+
+/**
+ * GET /accounts/{address}
+ */
+export interface AccountResponse {
+  sequence_number: string;
+  authentication_key: string;
+}
+
+/**
+ * GET /accounts/{address}/resource(s)
+ */
+export interface MoveResourceResponse {
+  type: string;
+  data: IDataObject;
+}
+
+/**
+ * GET /accounts/{address}/modules
+ */
+export interface MoveModuleResponse {
+  bytecode: string;
+  abi?: IDataObject;
+}
+
+/**
+ * Transaction as returned by the transaction endpoints
+ */
+export interface TransactionResponse {
+  type: string;
+  hash: string;
+  version?: string;
+  sender?: string;
+  sequence_number?: string;
+  success?: boolean;
+  vm_status?: string;
+  gas_used?: string;
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * GET /blocks/by_height/{height} and /blocks/by_version/{version}
+ */
+export interface BlockResponse {
+  block_height: string;
+  block_hash: string;
+  block_timestamp: string;
+  first_version: string;
+  last_version: string;
+  transactions?: TransactionResponse[];
+}
+
+/**
+ * Event as returned by the event endpoints
+ */
+export interface EventResponse {
+  version: string;
+  guid: { creation_number: string; account_address: string };
+  sequence_number: string;
+  type: string;
+  data: IDataObject;
+}
+
+/**
+ * GET /
+ */
+export interface LedgerInfoResponse {
+  chain_id: number;
+  epoch: string;
+  ledger_version: string;
+  oldest_ledger_version: string;
+  ledger_timestamp: string;
+  node_role: string;
+  oldest_block_height: string;
+  block_height: string;
+  git_hash?: string;
+}
+
+/**
+ * GET /estimate_gas_price
+ */
+export interface GasEstimateResponse {
+  gas_estimate: number;
+  deprioritized_gas_estimate?: number;
+  prioritized_gas_estimate?: number;
+}
+
+/**
+ * POST /transactions/encode_submission
+ */
+export type EncodedSubmissionResponse = string;
+
+/**
+ * Normalize a user supplied REST base URL.
+ * Trims whitespace and trailing slashes and appends the `/v1` API prefix when missing.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = (baseUrl || '').trim().replace(/\/+$/, '');
+  if (!trimmed) {
+    throw new Error('Aptos API base URL is not configured');
+  }
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Drop empty query values so they are not sent as `key=`
+ */
+export function buildQuery(qs: RestQuery = {}): IDataObject {
+  const query: IDataObject = {};
+  for (const [key, value] of Object.entries(qs)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    query[key] = typeof value === 'boolean' ? String(value) : value;
+  }
+  return query;
+}
+
+/**
+ * Encode a dynamic path segment such as an address or a Move struct tag
+ */
+export function encodePathSegment(segment: string | number): string {
+  return encodeURIComponent(String(segment).trim());
+}
+
+/**
+ * Make an authenticated request to the Aptos fullnode REST API.
+ *
+ * The base URL comes from the `aptosApi` credential and authentication is applied
+ * by the credential itself. Failures are raised as `NodeApiError` for the given item.
+ */
+export async function aptosApiRequest<T>(
+  execFns: IExecuteFunctions,
+  method: IHttpRequestMethods,
+  endpoint: string,
+  itemIndex: number,
+  options: RestRequestOptions = {},
+): Promise<T> {
+  const credentials = await execFns.getCredentials('aptosApi');
+
+  const requestOptions: IHttpRequestOptions = {
+    method,
+    url: `${normalizeBaseUrl(credentials.baseUrl as string)}${endpoint}`,
+    qs: buildQuery(options.qs),
+    headers: {
+      Accept: 'application/json',
+    },
+    json: true,
+  };
+
+  if (options.body !== undefined) {
+    requestOptions.body = options.body;
+    requestOptions.headers!['Content-Type'] = 'application/json';
+  }
+
+  try {
+    return (await execFns.helpers.httpRequestWithAuthentication.call(
+      execFns,
+      'aptosApi',
+      requestOptions,
+    )) as T;
+  } catch (error) {
+    throw new NodeApiError(execFns.getNode(), error as JsonObject, { itemIndex });
+  }
+}
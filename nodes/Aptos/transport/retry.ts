@@ -0,0 +1,278 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Retry Transport
+ *
+ * Exponential backoff with jitter for fullnode and indexer requests.
+ * Reads are retried on rate limits, transient 5xx responses and network errors.
+ * Transaction submissions are only retried when the request was provably not
+ * accepted (429 or a refused connection), so a transaction is never sent twice
+ * after the node may already have processed it.
+ */
+
+import type { ICredentialDataDecryptedObject, IDataObject } from 'n8n-workflow';
+
+/**
+ * Whether a request is safe to repeat
+ */
+export type RequestKind = 'read' | 'submit';
+
+/**
+ * Retry policy applied by the client wrappers
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retrySubmissions: boolean;
+}
+
+/**
+ * Running count of retries performed by a client
+ */
+export interface RetryCounter {
+  retries: number;
+}
+
+/**
+ * Options for a single retried call
+ */
+export interface RetryOptions {
+  policy: RetryPolicy;
+  kind: RequestKind;
+  counter?: RetryCounter;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retrySubmissions: true,
+};
+
+/**
+ * HTTP statuses worth retrying for idempotent reads
+ */
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Network error codes worth retrying for idempotent reads
+ */
+export const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Failure details used to decide whether to retry
+ */
+export interface FailureInfo {
+  status?: number;
+  code?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Raised internally when a response carries a retryable status
+ */
+export class RetryableResponseError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(`Request failed with retryable status ${status}`);
+    this.name = 'RetryableResponseError';
+  }
+}
+
+function toNonNegativeNumber(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+}
+
+/**
+ * Build a retry policy from credentials, with node level overrides taking precedence
+ */
+export function getRetryPolicy(
+  credentials: ICredentialDataDecryptedObject,
+  overrides: IDataObject = {},
+): RetryPolicy {
+  const pick = (key: string) => (overrides[key] !== undefined ? overrides[key] : credentials[key]);
+
+  const policy: RetryPolicy = {
+    maxRetries: toNonNegativeNumber(pick('maxRetries'), DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: toNonNegativeNumber(pick('retryBaseDelay'), DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: toNonNegativeNumber(pick('retryMaxDelay'), DEFAULT_RETRY_POLICY.maxDelayMs),
+    retrySubmissions:
+      pick('retrySubmissions') === undefined
+        ? DEFAULT_RETRY_POLICY.retrySubmissions
+        : Boolean(pick('retrySubmissions')),
+  };
+
+  if (policy.maxDelayMs < policy.baseDelayMs) {
+    policy.maxDelayMs = policy.baseDelayMs;
+  }
+
+  return policy;
+}
+
+/**
+ * Read a header from either a fetch `Headers` instance or a plain object
+ */
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  const getter = (headers as { get?: unknown }).get;
+  if (typeof getter === 'function') {
+    const value = (getter as (key: string) => string | null).call(headers, name);
+    return value ?? undefined;
+  }
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (key.toLowerCase() === lowerName) {
+      return Array.isArray(value) ? String(value[0]) : String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a `Retry-After` header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(headers: unknown, now = Date.now()): number | undefined {
+  const value = readHeader(headers, 'retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Extract status, error code and `Retry-After` from SDK, GraphQL and network errors
+ */
+export function describeFailure(error: unknown): FailureInfo {
+  if (error instanceof RetryableResponseError) {
+    return { status: error.status, retryAfterMs: error.retryAfterMs };
+  }
+  if (!error || typeof error !== 'object') {
+    return {};
+  }
+
+  const err = error as {
+    status?: unknown;
+    code?: unknown;
+    cause?: { code?: unknown };
+    response?: { status?: unknown; headers?: unknown };
+  };
+  const status =
+    typeof err.status === 'number'
+      ? err.status
+      : typeof err.response?.status === 'number'
+        ? err.response.status
+        : undefined;
+  const code =
+    typeof err.code === 'string'
+      ? err.code
+      : typeof err.cause?.code === 'string'
+        ? err.cause.code
+        : undefined;
+
+  return { status, code, retryAfterMs: parseRetryAfter(err.response?.headers) };
+}
+
+/**
+ * Whether a response status may be retried for the given request kind
+ */
+export function isRetryableStatus(status: number, kind: RequestKind, policy: RetryPolicy): boolean {
+  if (kind === 'submit') {
+    return policy.retrySubmissions && status === 429;
+  }
+  return RETRYABLE_STATUS_CODES.includes(status);
+}
+
+/**
+ * Whether a thrown error may be retried (or failed over) for the given request kind
+ */
+export function isRetryableError(error: unknown, kind: RequestKind, policy: RetryPolicy): boolean {
+  return isRetryableFailure(describeFailure(error), kind, policy);
+}
+
+function isRetryableFailure(failure: FailureInfo, kind: RequestKind, policy: RetryPolicy): boolean {
+  if (failure.status !== undefined) {
+    return isRetryableStatus(failure.status, kind, policy);
+  }
+  if (failure.code === undefined) {
+    return false;
+  }
+  if (kind === 'submit') {
+    return policy.retrySubmissions && failure.code === 'ECONNREFUSED';
+  }
+  return RETRYABLE_ERROR_CODES.includes(failure.code);
+}
+
+/**
+ * Delay before the next attempt.
+ * A server supplied `Retry-After` wins (capped at the policy maximum); otherwise
+ * full jitter over an exponentially growing window is used.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * window);
+}
+
+function sleepMs(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an async call, retrying retryable failures according to the policy
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, kind, counter } = options;
+  const sleep = options.sleep ?? sleepMs;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const failure = describeFailure(error);
+      if (attempt >= policy.maxRetries || !isRetryableFailure(failure, kind, policy)) {
+        throw error;
+      }
+      if (counter) {
+        counter.retries++;
+      }
+      await sleep(computeBackoffDelay(attempt, policy, failure.retryAfterMs, options.random));
+    }
+  }
+}
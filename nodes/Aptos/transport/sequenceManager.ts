@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Sequence Number Manager
+ *
+ * Hands out sequence numbers for one sender locally, so a batch of transactions
+ * can be in flight at once instead of reading the account before every submit.
+ * A number whose transaction never reached the mempool is given back and reused
+ * first, so the transactions after it are not left waiting behind a gap.
+ */
+
+import type { SubmissionKind } from './idempotencyStore';
+import type { TransactionState } from './transactionLifecycle';
+import { DEFAULT_RETRY_POLICY, describeFailure, isRetryableError } from './retry';
+
+/**
+ * Transactions built, signed and submitted at the same time by default
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/**
+ * Times a transaction is resubmitted with a new sequence number after the
+ * fullnode refused the previous one
+ */
+export const SEQUENCE_NUMBER_ATTEMPTS = 3;
+
+/**
+ * Why a submission failed:
+ * - `stale`: the sequence number was already used on chain
+ * - `busy`: not accepted for now (sequence number too far ahead, mempool full, rate limited)
+ * - `rejected`: refused for good, the sequence number is still free
+ * - `unknown`: the fullnode may have accepted the transaction
+ */
+export type SubmitFailure = 'stale' | 'busy' | 'rejected' | 'unknown';
+
+/**
+ * Final state of one transaction in a batch: `rejected` when the fullnode
+ * refused it, otherwise how its lifecycle ended. `pending` transactions were
+ * submitted but still valid when the wait timed out. `blocked` transactions
+ * were submitted but wait behind a lower sequence number that no transaction
+ * used; they commit only once that number is used.
+ */
+export type BatchTransactionStatus = TransactionState | 'rejected' | 'blocked';
+
+export interface BatchTransactionOutcome {
+  status: BatchTransactionStatus;
+  hash?: string;
+  sequenceNumber?: string;
+  /** Set when the transaction had an idempotency key */
+  submission?: SubmissionKind;
+  version?: string;
+  vmStatus?: string;
+  gasUsed?: string;
+  error?: string;
+}
+
+export class SequenceNumberManager {
+  private next: bigint | undefined;
+  private released: bigint[] = [];
+  private syncing: Promise<void> | undefined;
+
+  /**
+   * @param fetchSequenceNumber Reads the sender's current sequence number from chain
+   */
+  constructor(private readonly fetchSequenceNumber: () => Promise<bigint>) {}
+
+  /**
+   * Reserve a sequence number, reusing given back numbers first. The first
+   * reservation reads the account from chain.
+   */
+  async reserve(): Promise<bigint> {
+    if (this.next === undefined) {
+      await this.resync();
+    }
+    const reused = this.released.shift();
+    if (reused !== undefined) {
+      return reused;
+    }
+    const sequenceNumber = this.next as bigint;
+    this.next = sequenceNumber + BigInt(1);
+    return sequenceNumber;
+  }
+
+  /**
+   * Give back a reserved number whose transaction never reached the mempool
+   */
+  release(sequenceNumber: bigint): void {
+    if (this.next === undefined || sequenceNumber >= this.next) {
+      return;
+    }
+    if (!this.released.includes(sequenceNumber)) {
+      this.released.push(sequenceNumber);
+      this.released.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+  }
+
+  /**
+   * Given back numbers below `sequenceNumber`, which transactions already
+   * submitted at higher numbers wait behind. When there is such a gap,
+   * resync first, as someone else may have used it.
+   */
+  async findGapsBelow(sequenceNumber: bigint): Promise<bigint[]> {
+    if (!this.released.some((released) => released < sequenceNumber)) {
+      return [];
+    }
+    await this.resync();
+    return this.released.filter((released) => released < sequenceNumber);
+  }
+
+  /**
+   * Re-read the sequence number from chain. Numbers below it were used by
+   * someone else and are dropped. Concurrent calls share one request.
+   */
+  async resync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = (async () => {
+        try {
+          const onChain = await this.fetchSequenceNumber();
+          this.released = this.released.filter((sequenceNumber) => sequenceNumber >= onChain);
+          if (this.next === undefined || onChain > this.next) {
+            this.next = onChain;
+          }
+        } finally {
+          this.syncing = undefined;
+        }
+      })();
+    }
+    return this.syncing;
+  }
+}
+
+/**
+ * Decide whether a failed submission used up its sequence number
+ */
+export function classifySubmitFailure(error: unknown): SubmitFailure {
+  if (isRetryableError(error, 'submit', { ...DEFAULT_RETRY_POLICY, retrySubmissions: true })) {
+    return 'busy';
+  }
+  const { status } = describeFailure(error);
+  if (status === 507) {
+    return 'busy';
+  }
+  if (status === undefined || status === 408 || status < 400 || status >= 500) {
+    return 'unknown';
+  }
+  const details = `${(error as Error).message} ${JSON.stringify((error as { data?: unknown }).data ?? '')}`;
+  if (details.includes('SEQUENCE_NUMBER_TOO_OLD')) {
+    return 'stale';
+  }
+  if (details.includes('SEQUENCE_NUMBER_TOO_NEW')) {
+    return 'busy';
+  }
+  return 'rejected';
+}
+
+/**
+ * Map over items with at most `limit` calls running at once, keeping input order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Transaction Lifecycle
+ *
+ * Follows a submitted transaction until it commits or can no longer commit.
+ * A transaction can no longer commit once the ledger clock reaches its
+ * expiration time, or once its sequence number was used by another
+ * transaction. An expired transaction signed by this node can be sent again
+ * with the same sequence number and a higher gas unit price.
+ */
+
+import type { RawTransaction } from '@aptos-labs/ts-sdk';
+
+/**
+ * Seconds to follow a transaction before reporting it as pending
+ */
+export const DEFAULT_WAIT_TIMEOUT_SECS = 60;
+
+/**
+ * Percent added to the gas unit price on every resubmission
+ */
+export const DEFAULT_GAS_BUMP_PERCENT = 20;
+
+/**
+ * Seconds a resubmitted transaction stays valid, like the SDK's default
+ */
+export const DEFAULT_RESUBMIT_EXPIRES_IN_SECS = 20;
+
+/**
+ * Delay between two looks at a transaction that is not committed yet
+ */
+export const LIFECYCLE_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Final state of a followed transaction:
+ * - `committed`: executed successfully
+ * - `failed`: committed but aborted, gas was charged
+ * - `expired`: can no longer commit and its sequence number is still free
+ * - `replaced`: its sequence number was used by a transaction this node did not resend
+ * - `pending`: still valid when the wait timed out
+ */
+export type TransactionState = 'committed' | 'failed' | 'expired' | 'replaced' | 'pending';
+
+export interface GasBumpOptions {
+  /** Highest gas unit price a resubmission may pay */
+  maxGasUnitPrice: number;
+  percent?: number;
+  /** Validity of each resubmission */
+  expiresInSecs?: number;
+}
+
+export interface TransactionLifecycle {
+  state: TransactionState;
+  /** Transaction that was followed */
+  hash: string;
+  sender?: string;
+  sequenceNumber?: string;
+  expirationTimestampSecs?: string;
+  gasUnitPrice?: string;
+  /** Gas bumped resubmission that committed in its place, with its result in `state` */
+  replacementHash?: string;
+  /** Last resubmission sent with a higher gas unit price */
+  latestHash?: string;
+  gasBumps: number;
+  version?: string;
+  success?: boolean;
+  vmStatus?: string;
+  gasUsed?: string;
+  error?: string;
+}
+
+/**
+ * Fields of a transaction that decide when it can no longer commit
+ */
+export interface TransactionValidity {
+  sender: string;
+  sequenceNumber: bigint;
+  expirationTimestampSecs: bigint;
+  gasUnitPrice: bigint;
+}
+
+/**
+ * Read the validity fields of a transaction built or signed by this node
+ */
+export function getTransactionValidity(raw: RawTransaction): TransactionValidity {
+  return {
+    sender: raw.sender.toString(),
+    sequenceNumber: raw.sequence_number,
+    expirationTimestampSecs: raw.expiration_timestamp_secs,
+    gasUnitPrice: raw.gas_unit_price,
+  };
+}
+
+/**
+ * Decide whether a transaction that was not found committed can still commit.
+ * Both readings must be taken before looking the transaction up.
+ *
+ * @param ledgerTimestampUsecs Ledger timestamp from the fullnode's ledger info
+ * @param accountSequenceNumber Sender's sequence number on chain
+ */
+export function getUncommittedState(
+  transaction: Pick<TransactionValidity, 'sequenceNumber' | 'expirationTimestampSecs'>,
+  ledgerTimestampUsecs: bigint,
+  accountSequenceNumber: bigint,
+): 'expired' | 'replaced' | undefined {
+  if (accountSequenceNumber > transaction.sequenceNumber) {
+    return 'replaced';
+  }
+  // The prologue refuses transactions once now_seconds() reaches their expiration
+  if (ledgerTimestampUsecs / BigInt(1000000) >= transaction.expirationTimestampSecs) {
+    return 'expired';
+  }
+  return undefined;
+}
+
+/**
+ * Gas unit price of the next resubmission, rounded up and at least one more
+ * than the current price. Undefined when it would go over the ceiling.
+ */
+export function getBumpedGasUnitPrice(
+  current: bigint,
+  options: GasBumpOptions,
+): bigint | undefined {
+  const percent = BigInt(options.percent ?? DEFAULT_GAS_BUMP_PERCENT);
+  const raised = (current * (BigInt(100) + percent) + BigInt(99)) / BigInt(100);
+  const next = raised > current ? raised : current + BigInt(1);
+  return next <= BigInt(options.maxGasUnitPrice) ? next : undefined;
+}
@@ -11,6 +11,8 @@
  * Provides helper functions for working with Aptos accounts and addresses.
  */
 
+import { formatTypeTag, parseTypeTag } from './typeTag';
+
 /**
  * Address validation regex (32 bytes hex with 0x prefix)
  */
@@ -115,15 +117,12 @@ export function parseMoveType(resourceType: string): {
   name: string;
   typeArgs?: string[];
 } {
-  // Match pattern: address::module::Name<TypeArgs>
-  const match = resourceType.match(/^(0x[a-fA-F0-9]+)::([a-zA-Z_][a-zA-Z0-9_]*)::([a-zA-Z_][a-zA-Z0-9_]*)(?:<(.+)>)?$/);
-  
-  if (!match) {
+  const tag = parseTypeTag(resourceType);
+  if (tag.kind !== 'struct') {
     throw new Error(`Invalid Move type: ${resourceType}`);
   }
-
-  const [, address, module, name, typeArgsStr] = match;
-  const typeArgs = typeArgsStr ? typeArgsStr.split(',').map((t) => t.trim()) : undefined;
+  const { address, module, name } = tag;
+  const typeArgs = tag.typeArgs.length ? tag.typeArgs.map(formatTypeTag) : undefined;
 
   return { address, module, name, typeArgs };
 }
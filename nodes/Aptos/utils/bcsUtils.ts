@@ -12,7 +12,8 @@
  * using BCS serialization format.
  */
 
-import { hexToBytes, bytesToHex } from './accountUtils';
+import { hexToBytes, bytesToHex, isValidAddress, normalizeAddress } from './accountUtils';
+import { MoveTypeTag, formatTypeTag, getStructId, parseTypeTag } from './typeTag';
 
 /**
  * Supported BCS types for encoding/decoding
@@ -71,7 +72,7 @@ export function encodeU32(value: number): Uint8Array {
 /**
  * Encode a u64 value (little-endian)
  */
-export function encodeU64(value: bigint | number): Uint8Array {
+export function encodeU64(value: bigint | string | number): Uint8Array {
   const bigValue = BigInt(value);
   const bytes = new Uint8Array(8);
   for (let i = 0; i < 8; i++) {
@@ -83,8 +84,8 @@ export function encodeU64(value: bigint | number): Uint8Array {
 /**
  * Encode a u128 value (little-endian)
  */
-export function encodeU128(value: bigint | string): Uint8Array {
-  const bigValue = typeof value === 'string' ? BigInt(value) : value;
+export function encodeU128(value: bigint | string | number): Uint8Array {
+  const bigValue = BigInt(value);
   const bytes = new Uint8Array(16);
   for (let i = 0; i < 16; i++) {
     bytes[i] = Number((bigValue >> BigInt(i * 8)) & BigInt(0xff));
@@ -95,8 +96,8 @@ export function encodeU128(value: bigint | string): Uint8Array {
 /**
  * Encode a u256 value (little-endian)
  */
-export function encodeU256(value: bigint | string): Uint8Array {
-  const bigValue = typeof value === 'string' ? BigInt(value) : value;
+export function encodeU256(value: bigint | string | number): Uint8Array {
+  const bigValue = BigInt(value);
   const bytes = new Uint8Array(32);
   for (let i = 0; i < 32; i++) {
     bytes[i] = Number((bigValue >> BigInt(i * 8)) & BigInt(0xff));
@@ -205,7 +206,8 @@ export function decodeUleb128(
 
   while (offset + bytesRead < bytes.length) {
     const byte = bytes[offset + bytesRead];
-    result |= (byte & 0x7f) << shift;
+    // Multiply instead of shifting, which would overflow past 31 bits
+    result += (byte & 0x7f) * 2 ** shift;
     bytesRead++;
     if ((byte & 0x80) === 0) {
       break;
@@ -233,10 +235,231 @@ export function decodeString(
 }
 
 /**
- * Encode Move script arguments based on type
+ * Byte widths of the unsigned integer types
+ */
+const UINT_WIDTHS: Record<string, number> = { u8: 1, u16: 2, u32: 4, u64: 8, u128: 16, u256: 32 };
+
+/**
+ * Resolve a fully instantiated struct type, such as
+ * `0x1::coin::Coin<0x1::aptos_coin::AptosCoin>`, to its fields in declaration
+ * order with generic type parameters already substituted
+ */
+export type StructLayoutResolver = (
+  structType: string,
+) => Array<{ name: string; type: string }> | undefined;
+
+/**
+ * Check that `length` bytes are available at `offset`
+ */
+function ensureAvailable(bytes: Uint8Array, offset: number, length: number): void {
+  if (offset + length > bytes.length) {
+    throw new Error(`Unexpected end of BCS input: needed ${length} bytes at offset ${offset}`);
+  }
+}
+
+/**
+ * Decode a little-endian unsigned integer of the given byte width
+ */
+export function decodeUint(bytes: Uint8Array, offset: number, width: number): bigint {
+  ensureAvailable(bytes, offset, width);
+  let result = BigInt(0);
+  for (let i = width - 1; i >= 0; i--) {
+    result = (result << BigInt(8)) | BigInt(bytes[offset + i]);
+  }
+  return result;
+}
+
+/**
+ * Check if a type is `0x1::string::String`, with a short or long address
+ */
+export function isStringType(type: string | MoveTypeTag): boolean {
+  try {
+    return getStructId(typeof type === 'string' ? parseTypeTag(type) : type) === '0x1::string::String';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fields of the framework structs that are decoded without fetching their
+ * module ABI. `Object<T>` only holds an address, whatever `T` is.
  */
-export function encodeMoveArg(type: string, value: unknown): Uint8Array {
-  switch (type.toLowerCase()) {
+export function getFrameworkStructLayout(
+  tag: MoveTypeTag,
+): Array<{ name: string; type: string }> | undefined {
+  if (tag.kind !== 'struct') {
+    return undefined;
+  }
+  switch (getStructId(tag)) {
+    case '0x1::option::Option':
+      return [{ name: 'vec', type: `vector<${formatTypeTag(tag.typeArgs[0])}>` }];
+    case '0x1::object::Object':
+      return [{ name: 'inner', type: 'address' }];
+    case '0x1::fixed_point32::FixedPoint32':
+      return [{ name: 'value', type: 'u64' }];
+    case '0x1::fixed_point64::FixedPoint64':
+      return [{ name: 'value', type: 'u128' }];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decode one BCS encoded Move value at `offset` into the JSON shape the fullnode
+ * returns: u8 to u32 as numbers, u64 and wider as decimal strings, `vector<u8>`
+ * as hex, `String` as text and structs as objects keyed by field name.
+ */
+export function decodeBcsValue(
+  type: string | MoveTypeTag,
+  bytes: Uint8Array,
+  offset = 0,
+  resolveStruct?: StructLayoutResolver,
+): { value: unknown; bytesRead: number } {
+  const tag = typeof type === 'string' ? parseTypeTag(type) : type;
+
+  const width = UINT_WIDTHS[tag.kind];
+  if (width) {
+    const value = decodeUint(bytes, offset, width);
+    return { value: width <= 4 ? Number(value) : value.toString(), bytesRead: width };
+  }
+
+  if (tag.kind === 'bool') {
+    ensureAvailable(bytes, offset, 1);
+    if (bytes[offset] > 1) {
+      throw new Error(`Invalid BCS bool ${bytes[offset]} at offset ${offset}`);
+    }
+    return { value: bytes[offset] === 1, bytesRead: 1 };
+  }
+
+  if (tag.kind === 'address' || tag.kind === 'signer') {
+    ensureAvailable(bytes, offset, 32);
+    return { value: normalizeAddress(bytesToHex(bytes.slice(offset, offset + 32))), bytesRead: 32 };
+  }
+
+  if (isStringType(tag)) {
+    const { value: length, bytesRead: lengthBytes } = decodeUleb128(bytes, offset);
+    ensureAvailable(bytes, offset + lengthBytes, length);
+    return decodeString(bytes, offset);
+  }
+
+  if (tag.kind === 'vector') {
+    const { value: length, bytesRead: lengthBytes } = decodeUleb128(bytes, offset);
+    if (tag.elementType.kind === 'u8') {
+      ensureAvailable(bytes, offset + lengthBytes, length);
+      const start = offset + lengthBytes;
+      return {
+        value: bytesToHex(bytes.slice(start, start + length)),
+        bytesRead: lengthBytes + length,
+      };
+    }
+    const items: unknown[] = [];
+    let bytesRead = lengthBytes;
+    for (let i = 0; i < length; i++) {
+      const item = decodeBcsValue(tag.elementType, bytes, offset + bytesRead, resolveStruct);
+      items.push(item.value);
+      bytesRead += item.bytesRead;
+    }
+    return { value: items, bytesRead };
+  }
+
+  const fields = getFrameworkStructLayout(tag) ?? (tag.kind === 'struct' ? resolveStruct?.(formatTypeTag(tag)) : undefined);
+  if (!fields) {
+    throw new Error(`Cannot decode BCS value of type ${formatTypeTag(tag)}: unknown struct layout`);
+  }
+  const value: Record<string, unknown> = {};
+  let bytesRead = 0;
+  for (const field of fields) {
+    const decoded = decodeBcsValue(field.type, bytes, offset + bytesRead, resolveStruct);
+    value[field.name] = decoded.value;
+    bytesRead += decoded.bytesRead;
+  }
+  return { value, bytesRead };
+}
+
+/**
+ * Decode a complete BCS encoded Move value, rejecting trailing bytes
+ */
+export function decodeBcs(
+  type: string,
+  bytes: Uint8Array,
+  resolveStruct?: StructLayoutResolver,
+): unknown {
+  const tag = parseTypeTag(type);
+  const { value, bytesRead } = decodeBcsValue(tag, bytes, 0, resolveStruct);
+  if (bytesRead !== bytes.length) {
+    throw new Error(`BCS value of type ${formatTypeTag(tag)} used ${bytesRead} of ${bytes.length} bytes`);
+  }
+  return value;
+}
+
+/**
+ * Decode a complete BCS encoded Move value of any type, given as bytes or hex,
+ * into the JSON shape the fullnode returns. Option is `{ vec: [] }` or
+ * `{ vec: [value] }` and Object is `{ inner: address }`. Other structs are
+ * decoded with the layouts from `resolveStruct`, usually built from module
+ * ABIs by `AptosClientWrapper.getStructLayoutResolver`.
+ */
+export function decodeMoveValue(
+  type: string,
+  bytes: Uint8Array | string,
+  resolveStruct?: StructLayoutResolver,
+): unknown {
+  return decodeBcs(type, typeof bytes === 'string' ? hexToBytes(bytes) : bytes, resolveStruct);
+}
+
+/**
+ * Split a BCS `vector<vector<u8>>`, the shape of a BCS view function response,
+ * into its byte strings
+ */
+export function decodeByteVectors(bytes: Uint8Array): Uint8Array[] {
+  const { value: count, bytesRead: countBytes } = decodeUleb128(bytes);
+  const result: Uint8Array[] = [];
+  let offset = countBytes;
+  for (let i = 0; i < count; i++) {
+    const { value: length, bytesRead } = decodeUleb128(bytes, offset);
+    ensureAvailable(bytes, offset + bytesRead, length);
+    result.push(bytes.slice(offset + bytesRead, offset + bytesRead + length));
+    offset += bytesRead + length;
+  }
+  return result;
+}
+
+/**
+ * Raw value of a `FixedPoint32` or `FixedPoint64`, from a decimal such as
+ * `"1.5"` or from the `{ "value": raw }` shape the fullnode returns. Digits
+ * past the precision are truncated, like `create_from_rational`.
+ */
+function toFixedPointRaw(value: unknown, fractionalBits: number): bigint {
+  let raw: bigint;
+  const decimal = typeof value === 'number' ? String(value) : value;
+  if (typeof value === 'object' && value !== null && /^\d+$/.test(String((value as { value?: unknown }).value))) {
+    raw = BigInt(String((value as { value: unknown }).value));
+  } else if (typeof decimal === 'string' && /^\d+(\.\d+)?$/.test(decimal.trim())) {
+    const [whole, fraction = ''] = decimal.trim().split('.');
+    const scale = BigInt(10) ** BigInt(fraction.length);
+    raw = (BigInt(whole + fraction) << BigInt(fractionalBits)) / scale;
+  } else {
+    throw new Error(`Expected a decimal number or { "value": raw } for a fixed point number, got ${JSON.stringify(value)}`);
+  }
+  if (raw >= BigInt(1) << BigInt(fractionalBits * 2)) {
+    throw new Error(`Fixed point number ${JSON.stringify(value)} is out of range`);
+  }
+  return raw;
+}
+
+/**
+ * Encode Move script arguments based on type. `string` is short for
+ * `0x1::string::String`. Besides primitives and vectors, the structs a
+ * script or entry function may take are supported: `String`,
+ * `Option<T>` (null when empty), `Object<T>` (the object's address) and
+ * `FixedPoint32`/`FixedPoint64`.
+ */
+export function encodeMoveArg(type: string | MoveTypeTag, value: unknown): Uint8Array {
+  if (type === 'string') {
+    return encodeString(value as string);
+  }
+  const tag = typeof type === 'string' ? parseTypeTag(type) : type;
+  switch (tag.kind) {
     case 'bool':
       return encodeBool(value as boolean);
     case 'u8':
@@ -246,23 +469,53 @@ export function encodeMoveArg(type: string, value: unknown): Uint8Array {
     case 'u32':
       return encodeU32(value as number);
     case 'u64':
-      return encodeU64(value as bigint | number);
+      return encodeU64(value as bigint | string | number);
     case 'u128':
-      return encodeU128(value as bigint | string);
+      return encodeU128(value as bigint | string | number);
     case 'u256':
-      return encodeU256(value as bigint | string);
+      return encodeU256(value as bigint | string | number);
     case 'address':
       return encodeAddress(value as string);
-    case 'string':
+    case 'vector': {
+      if (!Array.isArray(value)) {
+        throw new Error(`Expected an array for ${formatTypeTag(tag)}, got ${JSON.stringify(value)}`);
+      }
+      const items = value.map((v, i) => {
+        try {
+          return encodeMoveArg(tag.elementType, v);
+        } catch (error) {
+          throw new Error(`item ${i}: ${(error as Error).message}`);
+        }
+      });
+      return encodeVector(items);
+    }
+  }
+
+  if (tag.kind !== 'struct') {
+    throw new Error(`Unsupported BCS type: ${formatTypeTag(tag)}`);
+  }
+  switch (getStructId(tag)) {
     case '0x1::string::String':
       return encodeString(value as string);
-    default:
-      if (type.startsWith('vector<')) {
-        const innerType = type.slice(7, -1);
-        const items = (value as unknown[]).map((v) => encodeMoveArg(innerType, v));
-        return encodeVector(items);
+    case '0x1::option::Option': {
+      // Also accept the `{ vec: [] }` shape the fullnode returns
+      const vec = typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as { vec?: unknown }).vec : undefined;
+      const items = Array.isArray(vec) && vec.length <= 1 ? vec : value === null || value === undefined ? [] : [value];
+      return encodeVector(items.map((item) => encodeMoveArg(tag.typeArgs[0], item)));
+    }
+    case '0x1::object::Object': {
+      const address = typeof value === 'object' && value !== null ? (value as { inner?: unknown }).inner : value;
+      if (typeof address !== 'string' || !isValidAddress(address)) {
+        throw new Error(`Expected an object address, got ${JSON.stringify(value)}`);
       }
-      throw new Error(`Unsupported BCS type: ${type}`);
+      return encodeAddress(address);
+    }
+    case '0x1::fixed_point32::FixedPoint32':
+      return encodeU64(toFixedPointRaw(value, 32));
+    case '0x1::fixed_point64::FixedPoint64':
+      return encodeU128(toFixedPointRaw(value, 64));
+    default:
+      throw new Error(`Unsupported BCS type: ${formatTypeTag(tag)}`);
   }
 }
 
@@ -9,3 +9,5 @@ export * from './unitConverter';
 export * from './accountUtils';
 export * from './bcsUtils';
 export * from './moveUtils';
+export * from './transactionUtils';
+export * from './typeTag';
@@ -11,6 +11,16 @@
  * Provides helper functions for working with Move modules, functions, and types.
  */
 
+import type { MoveFunction } from '@aptos-labs/ts-sdk';
+import { isValidAddress, normalizeAddress } from './accountUtils';
+import {
+  MoveTypeTag,
+  formatTypeTag,
+  getStructId,
+  instantiateTypeTag,
+  parseTypeTag,
+} from './typeTag';
+
 /**
  * Move function visibility types
  */
@@ -114,7 +124,9 @@ export function buildFunctionId(address: string, module: string, functionName: s
 }
 
 /**
- * Parse Move type string to extract generics
+ * Split a Move type into its base type and its type arguments, printed in
+ * canonical form. `vector<T>` has base type `vector`. Use `parseTypeTag` for
+ * the whole type tree.
  *
  * @param typeStr - Move type string (e.g., "vector<u8>", "0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>")
  * @returns Type name and generic arguments
@@ -123,38 +135,36 @@ export function parseMoveTypeString(typeStr: string): {
   baseType: string;
   typeArgs: string[];
 } {
-  const genericStart = typeStr.indexOf('<');
-  if (genericStart === -1) {
-    return { baseType: typeStr, typeArgs: [] };
-  }
-
-  const baseType = typeStr.slice(0, genericStart);
-  const genericPart = typeStr.slice(genericStart + 1, -1);
-
-  // Handle nested generics by tracking depth
-  const typeArgs: string[] = [];
-  let depth = 0;
-  let current = '';
-
-  for (const char of genericPart) {
-    if (char === '<') {
-      depth++;
-      current += char;
-    } else if (char === '>') {
-      depth--;
-      current += char;
-    } else if (char === ',' && depth === 0) {
-      typeArgs.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+  const tag = parseTypeTag(typeStr);
+  if (tag.kind === 'vector') {
+    return { baseType: 'vector', typeArgs: [formatTypeTag(tag.elementType)] };
   }
-  if (current.trim()) {
-    typeArgs.push(current.trim());
+  if (tag.kind === 'struct') {
+    return { baseType: getStructId(tag) as string, typeArgs: tag.typeArgs.map(formatTypeTag) };
   }
+  return { baseType: formatTypeTag(tag), typeArgs: [] };
+}
+
+/**
+ * Replace the generic type parameters `T0`, `T1`, ... of an ABI type with concrete types
+ *
+ * @param type - Type as written in a module ABI (e.g., "0x1::coin::Coin<T0>")
+ * @param typeArgs - Concrete types, by parameter index
+ * @returns Instantiated type string, in canonical form
+ */
+export function substituteTypeParams(type: string, typeArgs: string[]): string {
+  return formatTypeTag(instantiateTypeTag(parseTypeTag(type), typeArgs.map(parseTypeTag)));
+}
 
-  return { baseType, typeArgs };
+/**
+ * Parse a type for a yes/no check, treating unparsable types as no match
+ */
+function tryParseTypeTag(type: string): MoveTypeTag | undefined {
+  try {
+    return parseTypeTag(type);
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -164,8 +174,8 @@ export function parseMoveTypeString(typeStr: string): {
  * @returns True if primitive type
  */
 export function isPrimitiveType(type: string): boolean {
-  const primitives = ['bool', 'u8', 'u16', 'u32', 'u64', 'u128', 'u256', 'address', 'signer'];
-  return primitives.includes(type.toLowerCase());
+  const kind = tryParseTypeTag(type)?.kind;
+  return kind !== undefined && !['vector', 'struct', 'generic', 'reference'].includes(kind);
 }
 
 /**
@@ -175,7 +185,7 @@ export function isPrimitiveType(type: string): boolean {
  * @returns True if vector type
  */
 export function isVectorType(type: string): boolean {
-  return type.toLowerCase().startsWith('vector<');
+  return tryParseTypeTag(type)?.kind === 'vector';
 }
 
 /**
@@ -185,8 +195,8 @@ export function isVectorType(type: string): boolean {
  * @returns Inner type string
  */
 export function getVectorInnerType(vectorType: string): string {
-  const { typeArgs } = parseMoveTypeString(vectorType);
-  return typeArgs[0] || '';
+  const tag = tryParseTypeTag(vectorType);
+  return tag?.kind === 'vector' ? formatTypeTag(tag.elementType) : '';
 }
 
 /**
@@ -196,54 +206,203 @@ export function getVectorInnerType(vectorType: string): string {
  * @returns True if optional type
  */
 export function isOptionType(type: string): boolean {
-  const { baseType } = parseMoveTypeString(type);
-  return baseType === '0x1::option::Option' || baseType === 'option::Option';
+  const tag = tryParseTypeTag(type);
+  return tag !== undefined && getStructId(tag) === '0x1::option::Option';
 }
 
 /**
- * Convert JavaScript value to Move argument based on type
+ * Bit widths of the unsigned integer types
+ */
+const UINT_BITS: Record<string, number> = { u8: 8, u16: 16, u32: 32, u64: 64, u128: 128, u256: 256 };
+
+/**
+ * Show an argument value in an error message
+ */
+function describeArg(value: unknown): string {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+/**
+ * Read an address argument, given as a string or as the `{ inner }` of an Object
+ */
+function parseAddressArg(value: unknown): string {
+  const address = typeof value === 'object' && value !== null ? (value as { inner?: unknown }).inner : value;
+  if (typeof address !== 'string' || !isValidAddress(address)) {
+    throw new Error(`expected a hex address, got ${describeArg(value)}`);
+  }
+  return normalizeAddress(address);
+}
+
+/**
+ * Convert a JSON value to the Move argument of a parameter type, checking it
+ * fits: u8 to u32 become numbers, u64 and wider become bigints, `vector<u8>`
+ * is read from a hex string with or without `0x`, `Option<T>` is null when
+ * empty and `Object<T>` is its address. Values of other struct types are
+ * passed through.
  *
  * @param value - JavaScript value
- * @param type - Move type string
+ * @param type - Move type string or tag, with type parameters substituted
  * @returns Converted value for Move
  */
-export function convertToMoveArg(value: unknown, type: string): unknown {
-  if (isPrimitiveType(type)) {
-    switch (type.toLowerCase()) {
-      case 'bool':
-        return Boolean(value);
-      case 'u8':
-      case 'u16':
-      case 'u32':
-        return Number(value);
-      case 'u64':
-      case 'u128':
-      case 'u256':
-        return BigInt(value as string | number);
-      case 'address':
-        return String(value);
-      default:
-        return value;
+export function convertToMoveArg(value: unknown, type: string | MoveTypeTag): unknown {
+  const tag = typeof type === 'string' ? parseTypeTag(type) : type;
+
+  const bits = UINT_BITS[tag.kind];
+  if (bits) {
+    let integer: bigint | undefined;
+    if (typeof value === 'bigint') {
+      integer = value;
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      integer = BigInt(value);
+    } else if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+      integer = BigInt(value.trim());
+    }
+    if (integer === undefined) {
+      throw new Error(`expected an unsigned integer, got ${describeArg(value)}. Give large integers as strings.`);
+    }
+    if (integer < BigInt(0) || integer >= BigInt(1) << BigInt(bits)) {
+      throw new Error(`${integer} is out of range`);
+    }
+    return bits <= 32 ? Number(integer) : integer;
+  }
+
+  if (tag.kind === 'bool') {
+    if (typeof value === 'boolean') {
+      return value;
     }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    throw new Error(`expected true or false, got ${describeArg(value)}`);
+  }
+
+  if (tag.kind === 'address') {
+    return parseAddressArg(value);
   }
 
-  if (isVectorType(type)) {
-    const innerType = getVectorInnerType(type);
-    if (Array.isArray(value)) {
-      return value.map((v) => convertToMoveArg(v, innerType));
+  if (tag.kind === 'vector') {
+    if (tag.elementType.kind === 'u8' && typeof value === 'string') {
+      if (!/^(0x)?([0-9a-fA-F]{2})*$/.test(value)) {
+        throw new Error(`expected a hex string of bytes, got ${describeArg(value)}`);
+      }
+      return Array.from(Buffer.from(value.replace(/^0x/, ''), 'hex'));
     }
-    // Handle vector<u8> from hex string
-    if (innerType === 'u8' && typeof value === 'string') {
-      const hex = value.startsWith('0x') ? value.slice(2) : value;
-      return Array.from(Buffer.from(hex, 'hex'));
+    if (!Array.isArray(value)) {
+      throw new Error(`expected an array, got ${describeArg(value)}`);
     }
+    return value.map((item, i) => {
+      try {
+        return convertToMoveArg(item, tag.elementType);
+      } catch (error) {
+        throw new Error(`item ${i}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  if (tag.kind !== 'struct') {
     return value;
   }
+  switch (getStructId(tag)) {
+    case '0x1::string::String':
+      if (typeof value !== 'string') {
+        throw new Error(`expected a string, got ${describeArg(value)}`);
+      }
+      return value;
+    case '0x1::object::Object':
+      return parseAddressArg(value);
+    case '0x1::option::Option': {
+      // Also accept the `{ vec: [] }` shape the fullnode returns
+      const vec = typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as { vec?: unknown }).vec : undefined;
+      if (Array.isArray(vec) && vec.length <= 1) {
+        return vec.length ? convertToMoveArg(vec[0], tag.typeArgs[0]) : null;
+      }
+      return value === null || value === undefined ? null : convertToMoveArg(value, tag.typeArgs[0]);
+    }
+    default:
+      // For other structs, return as-is
+      return value;
+  }
+}
 
-  // For complex types, return as-is
+/**
+ * Write a value returned by `convertToMoveArg` in the JSON shape of the
+ * fullnode's view API: wide integers as strings, `vector<u8>` as hex and
+ * `Option<T>` as `{ vec: [] }`
+ */
+export function toMoveJsonArg(value: unknown, type: string | MoveTypeTag): unknown {
+  const tag = typeof type === 'string' ? parseTypeTag(type) : type;
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (tag.kind === 'struct' && getStructId(tag) === '0x1::option::Option') {
+    return { vec: value === null ? [] : [toMoveJsonArg(value, tag.typeArgs[0])] };
+  }
+  if (tag.kind === 'vector' && Array.isArray(value)) {
+    if (tag.elementType.kind === 'u8') {
+      return `0x${Buffer.from(value as number[]).toString('hex')}`;
+    }
+    return value.map((item) => toMoveJsonArg(item, tag.elementType));
+  }
   return value;
 }
 
+/**
+ * Check arguments against a function's ABI and convert each one to its
+ * parameter type. Leading signer parameters are filled by the transaction,
+ * not passed as arguments. Errors name the argument index and expected type.
+ *
+ * @param functionId - Fully qualified function ID, for error messages
+ * @param fn - Function ABI from the module
+ * @param typeArguments - Type arguments for the function's generic type parameters
+ * @param args - Arguments as parsed from JSON
+ * @returns Converted arguments
+ */
+export function coerceFunctionArguments(
+  functionId: string,
+  fn: Pick<MoveFunction, 'generic_type_params' | 'params'>,
+  typeArguments: string[],
+  args: unknown,
+): unknown[] {
+  const typeParamCount = fn.generic_type_params.length;
+  if (typeArguments.length !== typeParamCount) {
+    throw new Error(
+      `${functionId} takes ${typeParamCount} type argument${typeParamCount === 1 ? '' : 's'}, got ${typeArguments.length}`,
+    );
+  }
+  const typeArgs = typeArguments.map(parseTypeTag);
+  const tags = fn.params.map((type) => instantiateTypeTag(parseTypeTag(type), typeArgs));
+  let firstArg = 0;
+  while (firstArg < tags.length && isSignerParam(tags[firstArg])) {
+    firstArg++;
+  }
+  const params = tags.slice(firstArg);
+  if (!Array.isArray(args)) {
+    throw new Error(`Function arguments must be a JSON array, got ${describeArg(args)}`);
+  }
+  if (args.length !== params.length) {
+    throw new Error(
+      `${functionId} takes ${params.length} argument${params.length === 1 ? '' : 's'} (${params.map(formatTypeTag).join(', ')}), got ${args.length}`,
+    );
+  }
+  return params.map((tag, i) => {
+    try {
+      return convertToMoveArg(args[i], tag);
+    } catch (error) {
+      throw new Error(`Argument ${i} of ${functionId} must be ${formatTypeTag(tag)}: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Check if an ABI parameter is a `signer` or `&signer` filled by the transaction
+ */
+export function isSignerParam(tag: MoveTypeTag): boolean {
+  return tag.kind === 'signer' || (tag.kind === 'reference' && tag.referent.kind === 'signer');
+}
+
 /**
  * Convert Move value to JavaScript value
  *
@@ -259,7 +418,8 @@ export function convertFromMoveValue(value: unknown, type?: string): unknown {
   // Handle string representations of big numbers
   if (typeof value === 'string' && /^\d+$/.test(value)) {
     // Large numbers returned as strings
-    if (type && ['u64', 'u128', 'u256'].includes(type.toLowerCase())) {
+    const kind = type ? tryParseTypeTag(type)?.kind : undefined;
+    if (kind === 'u64' || kind === 'u128' || kind === 'u256') {
       return BigInt(value);
     }
     // Small numbers can be converted
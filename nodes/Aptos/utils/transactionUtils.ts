@@ -0,0 +1,298 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Transaction Utilities for Aptos
+ *
+ * Moves unsubmitted transactions and signatures between workflow steps as BCS hex.
+ */
+
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  AnyRawTransaction,
+  Deserializer,
+  MultiAgentTransaction,
+  Serialized,
+  SignedTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  hashValues,
+} from '@aptos-labs/ts-sdk';
+import type { IDataObject } from 'n8n-workflow';
+import { bytesToHex, hexToBytes } from './accountUtils';
+import { encodeMoveArg } from './bcsUtils';
+import { convertToMoveArg } from './moveUtils';
+
+/**
+ * Serialize a transaction or an authenticator to BCS hex
+ */
+export function serializeToHex(value: AnyRawTransaction | AccountAuthenticator): string {
+  return bytesToHex(value.bcsToBytes());
+}
+
+function deserializeHex<T>(hex: string, label: string, read: (d: Deserializer) => T): T {
+  return deserializeBytes(hexToBytes((hex || '').trim()), label, read);
+}
+
+function deserializeBytes<T>(bytes: Uint8Array, label: string, read: (d: Deserializer) => T): T {
+  const deserializer = new Deserializer(bytes);
+  let value: T;
+  try {
+    value = read(deserializer);
+  } catch (error) {
+    throw new Error(`Invalid ${label}: ${(error as Error).message}`);
+  }
+  if (deserializer.remaining() > 0) {
+    throw new Error(`Invalid ${label}: ${deserializer.remaining()} unexpected trailing bytes`);
+  }
+  return value;
+}
+
+/**
+ * Read a multi-agent transaction from BCS hex
+ */
+export function deserializeMultiAgentTransaction(hex: string): MultiAgentTransaction {
+  return deserializeHex(hex, 'multi-agent transaction', (d) =>
+    MultiAgentTransaction.deserialize(d),
+  );
+}
+
+/**
+ * Read a single-signer or fee-payer transaction from BCS hex
+ */
+export function deserializeSimpleTransaction(hex: string): SimpleTransaction {
+  return deserializeHex(hex, 'transaction', (d) => SimpleTransaction.deserialize(d));
+}
+
+/**
+ * Read BCS signed transaction bytes
+ */
+export function deserializeSignedTransaction(bytes: Uint8Array): SignedTransaction {
+  return deserializeBytes(bytes, 'signed transaction', (d) => SignedTransaction.deserialize(d));
+}
+
+/**
+ * Hash of BCS signed transaction bytes, as the fullnode computes it
+ */
+export function hashSignedTransaction(signedTransaction: Uint8Array): string {
+  const prefix = hashValues(['APTOS::Transaction']);
+  return bytesToHex(hashValues([prefix, new Uint8Array([0]), signedTransaction]));
+}
+
+/**
+ * Variants of the `Transaction` enum, named like the `type` field of a
+ * transaction in the fullnode's JSON
+ */
+const TRANSACTION_TYPES = [
+  'user_transaction',
+  'genesis_transaction',
+  'block_metadata_transaction',
+  'state_checkpoint_transaction',
+  'validator_transaction',
+  'block_metadata_transaction',
+  'block_epilogue_transaction',
+];
+
+/**
+ * Transaction read from the fullnode as BCS. Only user transactions carry
+ * the signed transaction and their execution result; for other kinds the
+ * bytes after the kind are not read.
+ */
+export interface TransactionDataBcs {
+  state: 'committed' | 'pending';
+  type: string;
+  version?: string;
+  hash?: string;
+  success?: boolean;
+  vmStatus?: string;
+  gasUsed?: string;
+  signedTransaction?: SignedTransaction;
+}
+
+/**
+ * Read where a Move abort or execution failure happened
+ */
+function readAbortLocation(deserializer: Deserializer): string {
+  if (deserializer.deserializeUleb128AsU32() !== 0) {
+    return 'script';
+  }
+  return `${AccountAddress.deserialize(deserializer).toString()}::${deserializer.deserializeStr()}`;
+}
+
+/**
+ * Read an `ExecutionStatus` and describe it the way the fullnode's `vm_status` does
+ */
+function readExecutionStatus(deserializer: Deserializer): { success: boolean; vmStatus: string } {
+  const variant = deserializer.deserializeUleb128AsU32();
+  switch (variant) {
+    case 0:
+      return { success: true, vmStatus: 'Executed successfully' };
+    case 1:
+      return { success: false, vmStatus: 'Out of gas' };
+    case 2: {
+      const location = readAbortLocation(deserializer);
+      const code = `0x${deserializer.deserializeU64().toString(16)}`;
+      if (deserializer.deserializeUleb128AsU32() === 0) {
+        return { success: false, vmStatus: `Move abort in ${location}: ${code}` };
+      }
+      const reasonName = deserializer.deserializeStr();
+      const description = deserializer.deserializeStr();
+      return { success: false, vmStatus: `Move abort in ${location}: ${reasonName}(${code}): ${description}` };
+    }
+    case 3: {
+      const location = readAbortLocation(deserializer);
+      const functionIndex = deserializer.deserializeU16();
+      const codeOffset = deserializer.deserializeU16();
+      return {
+        success: false,
+        vmStatus: `Execution failed in ${location} at code offset ${codeOffset} of function ${functionIndex}`,
+      };
+    }
+    case 4: {
+      const code = deserializer.deserializeUleb128AsU32() === 0 ? undefined : deserializer.deserializeU64();
+      return { success: false, vmStatus: code === undefined ? 'Miscellaneous error' : `Miscellaneous error ${code}` };
+    }
+    default:
+      throw new Error(`unknown execution status ${variant}`);
+  }
+}
+
+/**
+ * Read a transaction returned by `/transactions/by_hash` or `/transactions/by_version`
+ * as BCS: a committed transaction with its version and execution result, or a
+ * pending signed transaction
+ */
+export function deserializeTransactionData(bytes: Uint8Array): TransactionDataBcs {
+  const deserializer = new Deserializer(bytes);
+  try {
+    const variant = deserializer.deserializeUleb128AsU32();
+    if (variant === 1) {
+      return {
+        state: 'pending',
+        type: 'pending_transaction',
+        hash: hashSignedTransaction(bytes.slice(1)),
+        signedTransaction: SignedTransaction.deserialize(deserializer),
+      };
+    }
+    if (variant !== 0) {
+      throw new Error(`unknown transaction data variant ${variant}`);
+    }
+    const version = deserializer.deserializeU64().toString();
+    const kind = deserializer.deserializeUleb128AsU32();
+    const type = TRANSACTION_TYPES[kind];
+    if (!type) {
+      throw new Error(`unknown transaction kind ${kind}`);
+    }
+    if (kind !== 0) {
+      return { state: 'committed', type, version };
+    }
+    const signedTransaction = SignedTransaction.deserialize(deserializer);
+    if (deserializer.deserializeUleb128AsU32() !== 0) {
+      throw new Error('unknown transaction info version');
+    }
+    const gasUsed = deserializer.deserializeU64().toString();
+    const { success, vmStatus } = readExecutionStatus(deserializer);
+    const hash = bytesToHex(deserializer.deserializeFixedBytes(32));
+    return { state: 'committed', type, version, hash, success, vmStatus, gasUsed, signedTransaction };
+  } catch (error) {
+    throw new Error(`Invalid BCS transaction: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Read an account authenticator from BCS hex
+ */
+export function deserializeAuthenticator(hex: string): AccountAuthenticator {
+  return deserializeHex(hex, 'account authenticator', (d) => AccountAuthenticator.deserialize(d));
+}
+
+/**
+ * Parse a list of hex values given as a JSON array or a comma-separated string.
+ * Empty entries are kept so positions still line up with their signers.
+ */
+export function parseHexList(value: string | string[] | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => String(entry ?? '').trim());
+  }
+  const text = (value ?? '').trim();
+  if (!text) {
+    return [];
+  }
+  if (text.startsWith('[')) {
+    return parseHexList(JSON.parse(text) as string[]);
+  }
+  return text.split(',').map((entry) => entry.trim());
+}
+
+/**
+ * Encode script arguments given as `{ "type", "value" }` objects. Each value is
+ * checked against its Move type like an entry function argument, then BCS
+ * encoded and passed to the script as it is.
+ */
+export function encodeScriptArguments(args: unknown): Serialized[] {
+  if (!Array.isArray(args)) {
+    throw new Error('Script arguments must be a JSON array of { "type", "value" } objects');
+  }
+  return args.map((arg: { type?: unknown; value?: unknown }, i) => {
+    if (!arg || typeof arg.type !== 'string' || arg.value === undefined) {
+      throw new Error(`Script argument ${i} must be an object with a "type" and a "value"`);
+    }
+    const type = arg.type.trim() === 'string' ? '0x1::string::String' : arg.type.trim();
+    try {
+      return new Serialized(encodeMoveArg(type, convertToMoveArg(arg.value, type)));
+    } catch (error) {
+      throw new Error(`Script argument ${i} (${arg.type}): ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Expiry in Unix seconds for a transaction that stays valid for `expiresInSecs`.
+ * Undefined keeps the SDK default.
+ */
+export function getExpireTimestamp(expiresInSecs: number | undefined): number | undefined {
+  return expiresInSecs ? Math.floor(Date.now() / 1000) + expiresInSecs : undefined;
+}
+
+/**
+ * Entry function a transaction calls, as `address::module::function`
+ */
+export function getEntryFunctionId(transaction: AnyRawTransaction): string | undefined {
+  const payload = transaction.rawTransaction.payload;
+  if (!(payload instanceof TransactionPayloadEntryFunction)) {
+    return undefined;
+  }
+  const { module_name: moduleId, function_name: functionName } = payload.entryFunction;
+  return `${moduleId.address.toString()}::${moduleId.name.identifier}::${functionName.identifier}`;
+}
+
+/**
+ * Fields a later step needs to check what it is about to sign or submit
+ */
+export function describeTransaction(transaction: AnyRawTransaction): IDataObject {
+  const raw = transaction.rawTransaction;
+  const details: IDataObject = {
+    sender: raw.sender.toString(),
+    sequenceNumber: raw.sequence_number.toString(),
+    maxGasAmount: raw.max_gas_amount.toString(),
+    gasUnitPrice: raw.gas_unit_price.toString(),
+    expirationTimestampSecs: raw.expiration_timestamp_secs.toString(),
+    chainId: raw.chain_id.chainId,
+    secondarySignerAddresses: (transaction.secondarySignerAddresses ?? []).map((address) =>
+      address.toString(),
+    ),
+  };
+  const functionId = getEntryFunctionId(transaction);
+  if (functionId) {
+    details.function = functionId;
+  }
+  if (transaction.feePayerAddress) {
+    details.feePayerAddress = transaction.feePayerAddress.toString();
+  }
+  return details;
+}
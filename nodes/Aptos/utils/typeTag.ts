@@ -0,0 +1,267 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Move Type Tags
+ *
+ * Tokenizes and parses Move type strings, such as
+ * `0x1::coin::CoinStore<0xabc::lp::LP<0x1::aptos_coin::AptosCoin, 0xdef::usdc::USDC>>`,
+ * into a tree. Printing a tree gives the canonical form the fullnode uses:
+ * addresses in AIP-40 form and type arguments separated by `, `.
+ */
+
+/**
+ * Primitive Move types
+ */
+export type PrimitiveMoveType =
+  | 'bool'
+  | 'u8'
+  | 'u16'
+  | 'u32'
+  | 'u64'
+  | 'u128'
+  | 'u256'
+  | 'address'
+  | 'signer';
+
+const PRIMITIVE_TYPES: PrimitiveMoveType[] = [
+  'bool',
+  'u8',
+  'u16',
+  'u32',
+  'u64',
+  'u128',
+  'u256',
+  'address',
+  'signer',
+];
+
+/**
+ * Parsed Move type. `generic` is a type parameter `T0`, `T1`, ... of a
+ * module ABI and `reference` a `&T` or `&mut T` parameter.
+ */
+export type MoveTypeTag =
+  | { kind: PrimitiveMoveType }
+  | { kind: 'vector'; elementType: MoveTypeTag }
+  | { kind: 'struct'; address: string; module: string; name: string; typeArgs: MoveTypeTag[] }
+  | { kind: 'generic'; index: number }
+  | { kind: 'reference'; mutable: boolean; referent: MoveTypeTag };
+
+interface Token {
+  kind: 'address' | 'name' | 'symbol';
+  text: string;
+  position: number;
+}
+
+/**
+ * Whitespace, an address, a name or a symbol
+ */
+const TOKEN_PATTERN = /\s+|(0x[0-9a-fA-F]+)|([A-Za-z_][A-Za-z0-9_]*)|(::|[<>,&])/y;
+
+/**
+ * Split a Move type string into tokens, skipping whitespace
+ */
+function tokenize(type: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < type.length) {
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(type);
+    if (!match) {
+      throw new Error(`Unexpected "${type[position]}" at position ${position} of Move type "${type}"`);
+    }
+    if (match[1]) {
+      tokens.push({ kind: 'address', text: match[1], position });
+    } else if (match[2]) {
+      tokens.push({ kind: 'name', text: match[2], position });
+    } else if (match[3]) {
+      tokens.push({ kind: 'symbol', text: match[3], position });
+    }
+    position = TOKEN_PATTERN.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Write an address in AIP-40 form: `0x0` to `0xf` short, others as 64 hex digits
+ */
+export function normalizeTypeAddress(address: string): string {
+  const hex = address.replace(/^0x/i, '').toLowerCase().replace(/^0+/, '');
+  if (!/^[0-9a-f]*$/.test(hex) || hex.length > 64) {
+    throw new Error(`Invalid address ${address} in Move type`);
+  }
+  return hex.length <= 1 ? `0x${hex || '0'}` : `0x${hex.padStart(64, '0')}`;
+}
+
+/**
+ * Parse a Move type string into a type tag
+ *
+ * @param type - Move type string (e.g., "vector<0x1::option::Option<vector<u8>>>")
+ * @returns Type tag with normalized addresses
+ */
+export function parseTypeTag(type: string): MoveTypeTag {
+  const tokens = tokenize(type);
+  let next = 0;
+
+  const parseError = (message: string): Error => {
+    const token = tokens[next];
+    const where = token ? `at position ${token.position}` : 'at the end';
+    return new Error(`${message} ${where} of Move type "${type}"`);
+  };
+  const accept = (text: string): boolean => {
+    if (tokens[next]?.text !== text) {
+      return false;
+    }
+    next++;
+    return true;
+  };
+  const expect = (text: string): void => {
+    if (!accept(text)) {
+      throw parseError(`Expected "${text}"`);
+    }
+  };
+  const expectName = (): string => {
+    const token = tokens[next];
+    if (token?.kind !== 'name') {
+      throw parseError('Expected a name');
+    }
+    next++;
+    return token.text;
+  };
+
+  const parseType = (): MoveTypeTag => {
+    const token = tokens[next];
+    if (!token) {
+      throw parseError('Expected a type');
+    }
+    if (accept('&')) {
+      const mutable = accept('mut');
+      return { kind: 'reference', mutable, referent: parseType() };
+    }
+    if (token.kind === 'address') {
+      next++;
+      expect('::');
+      const module = expectName();
+      expect('::');
+      const name = expectName();
+      const typeArgs: MoveTypeTag[] = [];
+      if (accept('<')) {
+        do {
+          typeArgs.push(parseType());
+        } while (accept(','));
+        expect('>');
+      }
+      return { kind: 'struct', address: normalizeTypeAddress(token.text), module, name, typeArgs };
+    }
+    if (token.kind !== 'name') {
+      throw parseError(`Unexpected "${token.text}"`);
+    }
+    if ((PRIMITIVE_TYPES as string[]).includes(token.text)) {
+      next++;
+      return { kind: token.text as PrimitiveMoveType };
+    }
+    if (token.text === 'vector') {
+      next++;
+      expect('<');
+      const elementType = parseType();
+      expect('>');
+      return { kind: 'vector', elementType };
+    }
+    const generic = /^T(\d+)$/.exec(token.text);
+    if (generic) {
+      next++;
+      return { kind: 'generic', index: Number(generic[1]) };
+    }
+    throw parseError(`Unknown type "${token.text}"`);
+  };
+
+  const tag = parseType();
+  if (next < tokens.length) {
+    throw parseError(`Unexpected "${tokens[next].text}"`);
+  }
+  return tag;
+}
+
+/**
+ * Print a type tag in canonical form
+ */
+export function formatTypeTag(tag: MoveTypeTag): string {
+  switch (tag.kind) {
+    case 'vector':
+      return `vector<${formatTypeTag(tag.elementType)}>`;
+    case 'struct': {
+      const id = `${tag.address}::${tag.module}::${tag.name}`;
+      return tag.typeArgs.length ? `${id}<${tag.typeArgs.map(formatTypeTag).join(', ')}>` : id;
+    }
+    case 'generic':
+      return `T${tag.index}`;
+    case 'reference':
+      return `&${tag.mutable ? 'mut ' : ''}${formatTypeTag(tag.referent)}`;
+    default:
+      return tag.kind;
+  }
+}
+
+/**
+ * Parse and print a Move type string in canonical form, so two spellings
+ * of the same type compare equal
+ */
+export function normalizeMoveType(type: string): string {
+  return formatTypeTag(parseTypeTag(type));
+}
+
+/**
+ * Split a comma separated list of Move types, such as the type arguments of
+ * a call, keeping commas inside `<...>`. Each type is returned in canonical form.
+ */
+export function parseTypeArgumentList(text: string): string[] {
+  if (!text.trim()) {
+    return [];
+  }
+  const types: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '<') {
+      depth++;
+    } else if (text[i] === '>') {
+      depth--;
+    } else if (text[i] === ',' && depth === 0) {
+      types.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  types.push(text.slice(start));
+  return types.map(normalizeMoveType);
+}
+
+/**
+ * `address::module::Name` of a struct type without its type arguments, or
+ * undefined for other types
+ */
+export function getStructId(tag: MoveTypeTag): string | undefined {
+  return tag.kind === 'struct' ? `${tag.address}::${tag.module}::${tag.name}` : undefined;
+}
+
+/**
+ * Replace the generic type parameters of a type tag. Parameters without a
+ * replacement are kept.
+ */
+export function instantiateTypeTag(tag: MoveTypeTag, typeArgs: MoveTypeTag[]): MoveTypeTag {
+  switch (tag.kind) {
+    case 'generic':
+      return typeArgs[tag.index] ?? tag;
+    case 'vector':
+      return { kind: 'vector', elementType: instantiateTypeTag(tag.elementType, typeArgs) };
+    case 'struct':
+      return { ...tag, typeArgs: tag.typeArgs.map((arg) => instantiateTypeTag(arg, typeArgs)) };
+    case 'reference':
+      return { ...tag, referent: instantiateTypeTag(tag.referent, typeArgs) };
+    default:
+      return tag;
+  }
+}
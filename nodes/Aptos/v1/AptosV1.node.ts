@@ -0,0 +1,1300 @@
+/**
+ * Copyright (c) 2026 Velocity BPA
+ * 
+ * Licensed under the Business Source License 1.1 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     https://github.com/VelocityBPA/n8n-nodes-aptos/blob/main/LICENSE
+ * 
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeBaseDescription,
+  INodeTypeDescription,
+  NodeOperationError,
+  NodeApiError,
+} from 'n8n-workflow';
+import {
+  AccountResponse,
+  BlockResponse,
+  EncodedSubmissionResponse,
+  EventResponse,
+  GasEstimateResponse,
+  LedgerInfoResponse,
+  MoveModuleResponse,
+  MoveResourceResponse,
+  TransactionResponse,
+  aptosApiRequest,
+  encodePathSegment,
+} from '../transport/restClient';
+
+/**
+ * Aptos node v1
+ *
+ * Talks to the fullnode REST API directly using the `aptosApi` credential.
+ * Kept for workflows created before the SDK-based v2 node.
+ */
+export class AptosV1 implements INodeType {
+  description: INodeTypeDescription;
+
+  constructor(baseDescription: INodeTypeBaseDescription) {
+    this.description = {
+      ...baseDescription,
+      version: 1,
+      subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+      description: 'Interact with the Aptos API',
+      defaults: {
+        name: 'Aptos',
+      },
+      inputs: ['main'],
+      outputs: ['main'],
+      credentials: [
+        {
+          name: 'aptosApi',
+          required: true,
+        },
+      ],
+      properties: [
+        // Resource selector
+        {
+          displayName: 'Resource',
+          name: 'resource',
+          type: 'options',
+          noDataExpression: true,
+          options: [
+            {
+              name: 'Accounts',
+              value: 'accounts',
+            },
+            {
+              name: 'Transactions',
+              value: 'transactions',
+            },
+            {
+              name: 'Blocks',
+              value: 'blocks',
+            },
+            {
+              name: 'Coins',
+              value: 'coins',
+            },
+            {
+              name: 'Events',
+              value: 'events',
+            },
+            {
+              name: 'LedgerInfo',
+              value: 'ledgerInfo',
+            }
+          ],
+          default: 'accounts',
+        },
+        // Operation dropdowns per resource
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Account',
+      value: 'getAccount',
+      description: 'Get account data by address',
+      action: 'Get account data',
+    },
+    {
+      name: 'Get Account Resources',
+      value: 'getAccountResources',
+      description: 'Get account resources',
+      action: 'Get account resources',
+    },
+    {
+      name: 'Get Account Modules',
+      value: 'getAccountModules',
+      description: 'Get account modules',
+      action: 'Get account modules',
+    },
+    {
+      name: 'Get Account Resource',
+      value: 'getAccountResource',
+      description: 'Get specific account resource',
+      action: 'Get specific account resource',
+    },
+  ],
+  default: 'getAccount',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+    },
+  },
+  options: [
+    {
+      name: 'Submit Transaction',
+      value: 'submitTransaction',
+      description: 'Submit a signed transaction',
+      action: 'Submit transaction',
+    },
+    {
+      name: 'Get Transactions',
+      value: 'getTransactions',
+      description: 'Get list of transactions',
+      action: 'Get transactions',
+    },
+    {
+      name: 'Get Transaction',
+      value: 'getTransaction',
+      description: 'Get transaction by hash or version',
+      action: 'Get transaction',
+    },
+    {
+      name: 'Simulate Transaction',
+      value: 'simulateTransaction',
+      description: 'Simulate transaction execution',
+      action: 'Simulate transaction',
+    },
+    {
+      name: 'Submit Batch Transactions',
+      value: 'submitBatchTransactions',
+      description: 'Submit multiple transactions',
+      action: 'Submit batch transactions',
+    },
+    {
+      name: 'Get Account Transactions',
+      value: 'getAccountTransactions',
+      description: 'Get transactions for specific account',
+      action: 'Get account transactions',
+    },
+  ],
+  default: 'submitTransaction',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['blocks'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Block by Height',
+      value: 'getBlockByHeight',
+      description: 'Get block information by block height',
+      action: 'Get block by height',
+    },
+    {
+      name: 'Get Block by Version',
+      value: 'getBlockByVersion',
+      description: 'Get block information by version number',
+      action: 'Get block by version',
+    },
+  ],
+  default: 'getBlockByHeight',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+    },
+  },
+  options: [
+    {
+      name: 'Encode Coin Transfer',
+      value: 'encodeCoinTransfer',
+      description: 'Encode a coin transfer transaction for submission',
+      action: 'Encode coin transfer transaction',
+    },
+    {
+      name: 'Get Coin Balance',
+      value: 'getCoinBalance',
+      description: 'Get coin balance for an account',
+      action: 'Get coin balance for account',
+    },
+    {
+      name: 'Get Coin Withdraw Events',
+      value: 'getCoinWithdrawEvents',
+      description: 'Get coin withdraw events for an account',
+      action: 'Get coin withdraw events',
+    },
+    {
+      name: 'Get Coin Deposit Events',
+      value: 'getCoinDepositEvents',
+      description: 'Get coin deposit events for an account',
+      action: 'Get coin deposit events',
+    },
+  ],
+  default: 'encodeCoinTransfer',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Account Events',
+      value: 'getAccountEvents',
+      description: 'Get events by account and event handle',
+      action: 'Get account events',
+    },
+    {
+      name: 'Get Events By Key',
+      value: 'getEventsByKey',
+      description: 'Get events by event key',
+      action: 'Get events by key',
+    },
+  ],
+  default: 'getAccountEvents',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['ledgerInfo'],
+    },
+  },
+  options: [
+    {
+      name: 'Get Ledger Info',
+      value: 'getLedgerInfo',
+      description: 'Get current ledger information',
+      action: 'Get ledger info',
+    },
+    {
+      name: 'Estimate Gas Price',
+      value: 'estimateGasPrice',
+      description: 'Get current gas price estimate',
+      action: 'Estimate gas price',
+    },
+  ],
+  default: 'getLedgerInfo',
+},
+      // Parameter definitions
+{
+  displayName: 'Address',
+  name: 'address',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['getAccount', 'getAccountResources', 'getAccountModules', 'getAccountResource'],
+    },
+  },
+  default: '',
+  description: 'The account address',
+},
+{
+  displayName: 'Resource Type',
+  name: 'resourceType',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['getAccountResource'],
+    },
+  },
+  default: '',
+  description: 'The specific resource type to retrieve',
+},
+{
+  displayName: 'Ledger Version',
+  name: 'ledgerVersion',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['getAccountResources', 'getAccountModules', 'getAccountResource'],
+    },
+  },
+  default: '',
+  description: 'Ledger version to query for account resource',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['getAccountResources', 'getAccountModules'],
+    },
+  },
+  default: '',
+  description: 'Cursor specifying where to start for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['getAccountResources', 'getAccountModules'],
+    },
+  },
+  default: 25,
+  description: 'Max number of items to retrieve',
+  typeOptions: {
+    minValue: 1,
+    maxValue: 1000,
+  },
+},
+{
+  displayName: 'Transaction Data',
+  name: 'transactionData',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['submitTransaction'],
+    },
+  },
+  default: '{}',
+  description: 'The signed transaction data to submit',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getTransactions'],
+    },
+  },
+  default: 0,
+  description: 'Start index for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getTransactions'],
+    },
+  },
+  default: 25,
+  description: 'Maximum number of transactions to return',
+},
+{
+  displayName: 'Transaction Hash or Version',
+  name: 'txnHashOrVersion',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getTransaction'],
+    },
+  },
+  default: '',
+  description: 'Transaction hash or version number',
+},
+{
+  displayName: 'Transaction Data',
+  name: 'transactionData',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['simulateTransaction'],
+    },
+  },
+  default: '{}',
+  description: 'The transaction data to simulate',
+},
+{
+  displayName: 'Estimate Gas Unit Price',
+  name: 'estimateGasUnitPrice',
+  type: 'boolean',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['simulateTransaction'],
+    },
+  },
+  default: false,
+  description: 'Whether to estimate gas unit price',
+},
+{
+  displayName: 'Estimate Max Gas Amount',
+  name: 'estimateMaxGasAmount',
+  type: 'boolean',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['simulateTransaction'],
+    },
+  },
+  default: false,
+  description: 'Whether to estimate maximum gas amount',
+},
+{
+  displayName: 'Transactions Array',
+  name: 'transactionsArray',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['submitBatchTransactions'],
+    },
+  },
+  default: '[]',
+  description: 'Array of signed transactions to submit',
+},
+{
+  displayName: 'Account Address',
+  name: 'address',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getAccountTransactions'],
+    },
+  },
+  default: '',
+  description: 'The account address',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getAccountTransactions'],
+    },
+  },
+  default: 0,
+  description: 'Start index for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['transactions'],
+      operation: ['getAccountTransactions'],
+    },
+  },
+  default: 25,
+  description: 'Maximum number of transactions to return',
+},
+{
+  displayName: 'Block Height',
+  name: 'blockHeight',
+  type: 'number',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['blocks'],
+      operation: ['getBlockByHeight'],
+    },
+  },
+  default: 0,
+  description: 'The block height to retrieve',
+},
+{
+  displayName: 'Include Transactions',
+  name: 'withTransactions',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['blocks'],
+      operation: ['getBlockByHeight'],
+    },
+  },
+  default: false,
+  description: 'Whether to include transactions in the response',
+},
+{
+  displayName: 'Version',
+  name: 'version',
+  type: 'number',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['blocks'],
+      operation: ['getBlockByVersion'],
+    },
+  },
+  default: 0,
+  description: 'The version number to retrieve the block for',
+},
+{
+  displayName: 'Include Transactions',
+  name: 'withTransactions',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['blocks'],
+      operation: ['getBlockByVersion'],
+    },
+  },
+  default: false,
+  description: 'Whether to include transactions in the response',
+},
+{
+  displayName: 'Sender Address',
+  name: 'sender',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['encodeCoinTransfer'],
+    },
+  },
+  default: '',
+  description: 'The sender account address',
+},
+{
+  displayName: 'Receiver Address',
+  name: 'receiver',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['encodeCoinTransfer'],
+    },
+  },
+  default: '',
+  description: 'The receiver account address',
+},
+{
+  displayName: 'Amount',
+  name: 'amount',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['encodeCoinTransfer'],
+    },
+  },
+  default: '',
+  description: 'The amount to transfer',
+},
+{
+  displayName: 'Coin Type',
+  name: 'coinType',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['encodeCoinTransfer', 'getCoinBalance', 'getCoinWithdrawEvents', 'getCoinDepositEvents'],
+    },
+  },
+  default: '0x1::aptos_coin::AptosCoin',
+  description: 'The coin type (e.g., 0x1::aptos_coin::AptosCoin)',
+},
+{
+  displayName: 'Account Address',
+  name: 'address',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['getCoinBalance', 'getCoinWithdrawEvents', 'getCoinDepositEvents'],
+    },
+  },
+  default: '',
+  description: 'The account address',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['getCoinWithdrawEvents', 'getCoinDepositEvents'],
+    },
+  },
+  default: 0,
+  description: 'Start index for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  displayOptions: {
+    show: {
+      resource: ['coins'],
+      operation: ['getCoinWithdrawEvents', 'getCoinDepositEvents'],
+    },
+  },
+  default: 25,
+  description: 'Maximum number of events to return',
+},
+{
+  displayName: 'Account Address',
+  name: 'address',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getAccountEvents'],
+    },
+  },
+  default: '',
+  description: 'The account address',
+},
+{
+  displayName: 'Event Handle',
+  name: 'event_handle',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getAccountEvents'],
+    },
+  },
+  default: '',
+  description: 'The event handle',
+},
+{
+  displayName: 'Field Name',
+  name: 'field_name',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getAccountEvents'],
+    },
+  },
+  default: '',
+  description: 'The field name',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getAccountEvents'],
+    },
+  },
+  default: 0,
+  description: 'Start position for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getAccountEvents'],
+    },
+  },
+  default: 25,
+  description: 'Maximum number of events to return',
+},
+{
+  displayName: 'Event Key',
+  name: 'event_key',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getEventsByKey'],
+    },
+  },
+  default: '',
+  description: 'The event key',
+},
+{
+  displayName: 'Start',
+  name: 'start',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getEventsByKey'],
+    },
+  },
+  default: 0,
+  description: 'Start position for pagination',
+},
+{
+  displayName: 'Limit',
+  name: 'limit',
+  type: 'number',
+  required: false,
+  displayOptions: {
+    show: {
+      resource: ['events'],
+      operation: ['getEventsByKey'],
+    },
+  },
+  default: 25,
+  description: 'Maximum number of events to return',
+},
+// No additional parameters needed for this resource as both operations don't require parameters,
+      ],
+    };
+  }
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const resource = this.getNodeParameter('resource', 0) as string;
+
+    switch (resource) {
+      case 'accounts':
+        return [await executeAccountsOperations.call(this, items)];
+      case 'transactions':
+        return [await executeTransactionsOperations.call(this, items)];
+      case 'blocks':
+        return [await executeBlocksOperations.call(this, items)];
+      case 'coins':
+        return [await executeCoinsOperations.call(this, items)];
+      case 'events':
+        return [await executeEventsOperations.call(this, items)];
+      case 'ledgerInfo':
+        return [await executeLedgerInfoOperations.call(this, items)];
+      default:
+        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+  }
+}
+
+// ============================================================
+// Resource Handler Functions
+// ============================================================
+
+/**
+ * Accept JSON parameters given either as an object or as a JSON string
+ */
+function parseJsonParameter<T extends IDataObject | IDataObject[]>(value: unknown): T {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Shared per-item error handling for the resource handlers
+ */
+function handleItemError(
+  execFns: IExecuteFunctions,
+  error: unknown,
+  itemIndex: number,
+  returnData: INodeExecutionData[],
+): void {
+  if (execFns.continueOnFail()) {
+    returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: itemIndex } });
+    return;
+  }
+  if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+    throw error;
+  }
+  throw new NodeOperationError(execFns.getNode(), (error as Error).message, { itemIndex });
+}
+
+/**
+ * Start of a transaction page. 0 is not sent, so the fullnode returns the
+ * latest transactions as it did before.
+ */
+function getPageStart(execFns: IExecuteFunctions, itemIndex: number): number | undefined {
+  const start = execFns.getNodeParameter('start', itemIndex, 0) as number;
+  return start > 0 ? start : undefined;
+}
+
+/**
+ * Wrap a REST response as an output item
+ */
+function toItem(result: unknown, itemIndex: number): INodeExecutionData {
+  return { json: result as IDataObject, pairedItem: { item: itemIndex } };
+}
+
+export async function executeAccountsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const address = encodePathSegment(this.getNodeParameter('address', i) as string);
+      let result: AccountResponse | MoveResourceResponse | MoveResourceResponse[] | MoveModuleResponse[];
+
+      switch (operation) {
+        case 'getAccount': {
+          result = await aptosApiRequest<AccountResponse>(this, 'GET', `/accounts/${address}`, i);
+          break;
+        }
+
+        case 'getAccountResources': {
+          result = await aptosApiRequest<MoveResourceResponse[]>(
+            this,
+            'GET',
+            `/accounts/${address}/resources`,
+            i,
+            {
+              qs: {
+                ledger_version: this.getNodeParameter('ledgerVersion', i, '') as string,
+                start: this.getNodeParameter('start', i, '') as string,
+                limit: this.getNodeParameter('limit', i, 25) as number,
+              },
+            },
+          );
+          break;
+        }
+
+        case 'getAccountModules': {
+          result = await aptosApiRequest<MoveModuleResponse[]>(
+            this,
+            'GET',
+            `/accounts/${address}/modules`,
+            i,
+            {
+              qs: {
+                ledger_version: this.getNodeParameter('ledgerVersion', i, '') as string,
+                start: this.getNodeParameter('start', i, '') as string,
+                limit: this.getNodeParameter('limit', i, 25) as number,
+              },
+            },
+          );
+          break;
+        }
+
+        case 'getAccountResource': {
+          const resourceType = encodePathSegment(this.getNodeParameter('resourceType', i) as string);
+          result = await aptosApiRequest<MoveResourceResponse>(
+            this,
+            'GET',
+            `/accounts/${address}/resource/${resourceType}`,
+            i,
+            { qs: { ledger_version: this.getNodeParameter('ledgerVersion', i, '') as string } },
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeTransactionsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: TransactionResponse | TransactionResponse[];
+
+      switch (operation) {
+        case 'submitTransaction': {
+          const transactionData = parseJsonParameter<IDataObject>(
+            this.getNodeParameter('transactionData', i),
+          );
+          result = await aptosApiRequest<TransactionResponse>(this, 'POST', '/transactions', i, {
+            body: transactionData,
+          });
+          break;
+        }
+
+        case 'getTransactions': {
+          result = await aptosApiRequest<TransactionResponse[]>(this, 'GET', '/transactions', i, {
+            qs: {
+              start: getPageStart(this, i),
+              limit: this.getNodeParameter('limit', i, 25) as number,
+            },
+          });
+          break;
+        }
+
+        case 'getTransaction': {
+          const txnHashOrVersion = (this.getNodeParameter('txnHashOrVersion', i) as string).trim();
+          const path = /^\d+$/.test(txnHashOrVersion) ? 'by_version' : 'by_hash';
+          result = await aptosApiRequest<TransactionResponse>(
+            this,
+            'GET',
+            `/transactions/${path}/${encodePathSegment(txnHashOrVersion)}`,
+            i,
+          );
+          break;
+        }
+
+        case 'simulateTransaction': {
+          const transactionData = parseJsonParameter<IDataObject>(
+            this.getNodeParameter('transactionData', i),
+          );
+          result = await aptosApiRequest<TransactionResponse[]>(
+            this,
+            'POST',
+            '/transactions/simulate',
+            i,
+            {
+              qs: {
+                estimate_gas_unit_price: this.getNodeParameter('estimateGasUnitPrice', i, false)
+                  ? true
+                  : undefined,
+                estimate_max_gas_amount: this.getNodeParameter('estimateMaxGasAmount', i, false)
+                  ? true
+                  : undefined,
+              },
+              body: transactionData,
+            },
+          );
+          break;
+        }
+
+        case 'submitBatchTransactions': {
+          const transactionsArray = parseJsonParameter<IDataObject[]>(
+            this.getNodeParameter('transactionsArray', i),
+          );
+          result = await aptosApiRequest<TransactionResponse[]>(
+            this,
+            'POST',
+            '/transactions/batch',
+            i,
+            { body: transactionsArray },
+          );
+          break;
+        }
+
+        case 'getAccountTransactions': {
+          const address = encodePathSegment(this.getNodeParameter('address', i) as string);
+          result = await aptosApiRequest<TransactionResponse[]>(
+            this,
+            'GET',
+            `/accounts/${address}/transactions`,
+            i,
+            {
+              qs: {
+                start: getPageStart(this, i),
+                limit: this.getNodeParameter('limit', i, 25) as number,
+              },
+            },
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeBlocksOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: BlockResponse;
+
+      switch (operation) {
+        case 'getBlockByHeight': {
+          const blockHeight = this.getNodeParameter('blockHeight', i) as number;
+          result = await aptosApiRequest<BlockResponse>(
+            this,
+            'GET',
+            `/blocks/by_height/${encodePathSegment(blockHeight)}`,
+            i,
+            {
+              qs: {
+                with_transactions:
+                  (this.getNodeParameter('withTransactions', i, false) as boolean) || undefined,
+              },
+            },
+          );
+          break;
+        }
+
+        case 'getBlockByVersion': {
+          const version = this.getNodeParameter('version', i) as number;
+          result = await aptosApiRequest<BlockResponse>(
+            this,
+            'GET',
+            `/blocks/by_version/${encodePathSegment(version)}`,
+            i,
+            {
+              qs: {
+                with_transactions:
+                  (this.getNodeParameter('withTransactions', i, false) as boolean) || undefined,
+              },
+            },
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeCoinsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const coinType = this.getNodeParameter('coinType', i) as string;
+      const coinStore = encodePathSegment(`0x1::coin::CoinStore<${coinType}>`);
+      let result: EncodedSubmissionResponse | MoveResourceResponse | EventResponse[];
+
+      switch (operation) {
+        case 'encodeCoinTransfer': {
+          const sender = this.getNodeParameter('sender', i) as string;
+          const receiver = this.getNodeParameter('receiver', i) as string;
+          const amount = this.getNodeParameter('amount', i) as string;
+
+          result = await aptosApiRequest<EncodedSubmissionResponse>(
+            this,
+            'POST',
+            '/transactions/encode_submission',
+            i,
+            {
+              body: {
+                sender,
+                sequence_number: '0',
+                max_gas_amount: '1000',
+                gas_unit_price: '1',
+                expiration_timestamp_secs: Math.floor(Date.now() / 1000 + 600).toString(),
+                payload: {
+                  type: 'entry_function_payload',
+                  function: '0x1::coin::transfer',
+                  type_arguments: [coinType],
+                  arguments: [receiver, amount],
+                },
+              },
+            },
+          );
+          break;
+        }
+
+        case 'getCoinBalance': {
+          const address = encodePathSegment(this.getNodeParameter('address', i) as string);
+          result = await aptosApiRequest<MoveResourceResponse>(
+            this,
+            'GET',
+            `/accounts/${address}/resource/${coinStore}`,
+            i,
+          );
+          break;
+        }
+
+        case 'getCoinWithdrawEvents':
+        case 'getCoinDepositEvents': {
+          const address = encodePathSegment(this.getNodeParameter('address', i) as string);
+          const field = operation === 'getCoinWithdrawEvents' ? 'withdraw_events' : 'deposit_events';
+          result = await aptosApiRequest<EventResponse[]>(
+            this,
+            'GET',
+            `/accounts/${address}/events/${coinStore}/${field}`,
+            i,
+            {
+              qs: {
+                start: this.getNodeParameter('start', i, 0) as number,
+                limit: this.getNodeParameter('limit', i, 25) as number,
+              },
+            },
+          );
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(typeof result === 'string' ? { encoded: result } : result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeEventsOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: EventResponse[];
+
+      switch (operation) {
+        case 'getAccountEvents': {
+          const address = encodePathSegment(this.getNodeParameter('address', i) as string);
+          const eventHandle = encodePathSegment(this.getNodeParameter('event_handle', i) as string);
+          const fieldName = encodePathSegment(this.getNodeParameter('field_name', i) as string);
+          result = await aptosApiRequest<EventResponse[]>(
+            this,
+            'GET',
+            `/accounts/${address}/events/${eventHandle}/${fieldName}`,
+            i,
+            {
+              qs: {
+                start: this.getNodeParameter('start', i, 0) as number,
+                limit: this.getNodeParameter('limit', i, 25) as number,
+              },
+            },
+          );
+          break;
+        }
+
+        case 'getEventsByKey': {
+          const eventKey = encodePathSegment(this.getNodeParameter('event_key', i) as string);
+          result = await aptosApiRequest<EventResponse[]>(this, 'GET', `/events/${eventKey}`, i, {
+            qs: {
+              start: this.getNodeParameter('start', i, 0) as number,
+              limit: this.getNodeParameter('limit', i, 25) as number,
+            },
+          });
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
+
+export async function executeLedgerInfoOperations(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const returnData: INodeExecutionData[] = [];
+  const operation = this.getNodeParameter('operation', 0) as string;
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      let result: LedgerInfoResponse | GasEstimateResponse;
+
+      switch (operation) {
+        case 'getLedgerInfo': {
+          result = await aptosApiRequest<LedgerInfoResponse>(this, 'GET', '/', i);
+          break;
+        }
+
+        case 'estimateGasPrice': {
+          result = await aptosApiRequest<GasEstimateResponse>(this, 'GET', '/estimate_gas_price', i);
+          break;
+        }
+
+        default:
+          throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, {
+            itemIndex: i,
+          });
+      }
+
+      returnData.push(toItem(result, i));
+    } catch (error) {
+      handleItemError(this, error, i, returnData);
+    }
+  }
+
+  return returnData;
+}
@@ -0,0 +1,593 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeBaseDescription,
+  INodeTypeDescription,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { AptosClientWrapper, createAptosClientWrapper } from '../transport/aptosClient';
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  ResponseCache,
+  loadResponseCache,
+  saveResponseCache,
+} from '../transport/responseCache';
+import {
+  DEFAULT_IDEMPOTENCY_RETENTION_DAYS,
+  loadIdempotencyStore,
+} from '../transport/idempotencyStore';
+import { getIdempotencyKey } from '../actions/idempotency';
+import {
+  accountOperations,
+  accountFields,
+  executeAccountOperation,
+  ansOperations,
+  ansFields,
+  executeAnsOperation,
+  blockOperations,
+  blockFields,
+  executeBlockOperation,
+  coinOperations,
+  coinFields,
+  executeCoinOperation,
+  digitalAssetOperations,
+  digitalAssetFields,
+  executeDigitalAssetOperation,
+  eventOperations,
+  eventFields,
+  executeEventOperation,
+  faucetOperations,
+  faucetFields,
+  executeFaucetOperation,
+  gasOperations,
+  gasFields,
+  executeGasOperation,
+  governanceOperations,
+  governanceFields,
+  executeGovernanceOperation,
+  indexerOperations,
+  indexerFields,
+  executeIndexerOperation,
+  keylessOperations,
+  keylessFields,
+  executeKeylessOperation,
+  moveModuleOperations,
+  moveModuleFields,
+  executeMoveModuleOperation,
+  moveViewOperations,
+  moveViewFields,
+  executeMoveViewOperation,
+  moveViewBatchOperations,
+  executeMoveViewBatch,
+  multisigOperations,
+  multisigFields,
+  executeMultisigOperation,
+  objectOperations,
+  objectFields,
+  executeObjectOperation,
+  sponsoredTxOperations,
+  sponsoredTxFields,
+  executeSponsoredTxOperation,
+  stakingOperations,
+  stakingFields,
+  executeStakingOperation,
+  tableOperations,
+  tableFields,
+  executeTableOperation,
+  tokenOperations,
+  tokenFields,
+  executeTokenOperation,
+  transactionOperations,
+  transactionFields,
+  executeTransactionOperation,
+  transactionBatchOperations,
+  executeTransactionBatch,
+  transferOperations,
+  transferFields,
+  executeTransferOperation,
+  transferBatchOperations,
+  executeTransferBatch,
+  utilityOperations,
+  utilityFields,
+  executeUtilityOperation,
+} from '../actions';
+
+/**
+ * Signature shared by every resource handler under `actions/`.
+ * List operations return an array, which becomes one output item per entry.
+ * Operations that attach binary data return a complete execution item.
+ */
+type ResourceHandler = (
+  execFns: IExecuteFunctions,
+  client: AptosClientWrapper,
+  operation: string,
+  index: number,
+) => Promise<IDataObject | IDataObject[] | INodeExecutionData>;
+
+/**
+ * Signature of operations that take every input item in one call, such as
+ * batch submission. Returns one result per index, in the same order.
+ */
+type BatchHandler = (
+  execFns: IExecuteFunctions,
+  client: AptosClientWrapper,
+  operation: string,
+  indices: number[],
+) => Promise<IDataObject[]>;
+
+/**
+ * Whether a handler result is a complete execution item with binary data
+ */
+function isExecutionItem(
+  result: IDataObject | IDataObject[] | INodeExecutionData,
+): result is INodeExecutionData {
+  return !Array.isArray(result) && result.binary !== undefined && typeof result.json === 'object';
+}
+
+/**
+ * Resource value to handler routing table
+ */
+const RESOURCE_HANDLERS: Record<string, ResourceHandler> = {
+  account: executeAccountOperation,
+  ans: executeAnsOperation,
+  block: executeBlockOperation,
+  coin: executeCoinOperation,
+  digitalAsset: executeDigitalAssetOperation,
+  event: executeEventOperation,
+  faucet: executeFaucetOperation,
+  gas: executeGasOperation,
+  governance: executeGovernanceOperation,
+  indexer: executeIndexerOperation,
+  keyless: executeKeylessOperation,
+  moveModule: executeMoveModuleOperation,
+  moveView: executeMoveViewOperation,
+  multisig: executeMultisigOperation,
+  object: executeObjectOperation,
+  sponsoredTx: executeSponsoredTxOperation,
+  staking: executeStakingOperation,
+  table: executeTableOperation,
+  token: executeTokenOperation,
+  transaction: executeTransactionOperation,
+  transfer: executeTransferOperation,
+  utility: executeUtilityOperation,
+};
+
+/**
+ * Resource value to the operations run once for all items and their handler
+ */
+const BATCH_HANDLERS: Record<string, { operations: string[]; handler: BatchHandler }> = {
+  moveView: { operations: moveViewBatchOperations, handler: executeMoveViewBatch },
+  transaction: { operations: transactionBatchOperations, handler: executeTransactionBatch },
+  transfer: { operations: transferBatchOperations, handler: executeTransferBatch },
+};
+
+/**
+ * Client counters captured before an item runs
+ */
+interface RequestSnapshot {
+  retries: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+function takeSnapshot(client: AptosClientWrapper): RequestSnapshot {
+  const cacheStats = client.cache?.getStats();
+  return {
+    retries: client.retryCounter.retries,
+    cacheHits: cacheStats?.hits ?? 0,
+    cacheMisses: cacheStats?.misses ?? 0,
+  };
+}
+
+/**
+ * Request statistics reported on every output item: how many requests were
+ * retried, which fullnode served the last response and, when the item looked
+ * anything up in the cache, its cache hits and misses
+ */
+function getRequestStats(client: AptosClientWrapper, before: RequestSnapshot): IDataObject {
+  const after = takeSnapshot(client);
+  const stats: IDataObject = { retryCount: after.retries - before.retries };
+  const endpoint = client.getLastEndpoint();
+  if (endpoint) {
+    stats.endpoint = endpoint;
+  }
+  if (after.cacheHits + after.cacheMisses > before.cacheHits + before.cacheMisses) {
+    stats.cacheHits = after.cacheHits - before.cacheHits;
+    stats.cacheMisses = after.cacheMisses - before.cacheMisses;
+  }
+  return stats;
+}
+
+/**
+ * Idempotency details for an item whose write carried a key: the key and
+ * whether its transaction was sent now (`fresh`) or by an earlier execution (`replayed`)
+ */
+function getSubmissionInfo(client: AptosClientWrapper): IDataObject {
+  return client.lastSubmission
+    ? { idempotencyKey: client.idempotencyKey, submission: client.lastSubmission }
+    : {};
+}
+
+/**
+ * Aptos node v2
+ *
+ * Built on `AptosClientWrapper` and the `aptosNetwork` credential.
+ * Every output item carries `retryCount`, the number of retried requests made for it,
+ * and `endpoint`, the fullnode that served its last response. With a pinned ledger
+ * version, items also carry `pinnedLedgerVersion`. Batch operations run once for
+ * all items, and each of their items carries the counters of the whole batch.
+ */
+export class AptosV2 implements INodeType {
+  description: INodeTypeDescription;
+
+  constructor(baseDescription: INodeTypeBaseDescription) {
+    this.description = {
+      ...baseDescription,
+      version: 2,
+      defaults: {
+        name: 'Aptos',
+      },
+      inputs: ['main'],
+      outputs: ['main'],
+      credentials: [
+        {
+          name: 'aptosNetwork',
+          required: true,
+        },
+        {
+          name: 'aptosFaucet',
+          required: true,
+          displayOptions: { show: { resource: ['faucet'] } },
+        },
+      ],
+      properties: [
+        {
+          displayName: 'Resource',
+          name: 'resource',
+          type: 'options',
+          noDataExpression: true,
+          options: [
+            { name: 'Account', value: 'account' },
+            { name: 'ANS', value: 'ans' },
+            { name: 'Block', value: 'block' },
+            { name: 'Coin', value: 'coin' },
+            { name: 'Digital Asset', value: 'digitalAsset' },
+            { name: 'Event', value: 'event' },
+            { name: 'Faucet', value: 'faucet' },
+            { name: 'Gas', value: 'gas' },
+            { name: 'Governance', value: 'governance' },
+            { name: 'Indexer', value: 'indexer' },
+            { name: 'Keyless', value: 'keyless' },
+            { name: 'Move Module', value: 'moveModule' },
+            { name: 'Move View', value: 'moveView' },
+            { name: 'Multisig', value: 'multisig' },
+            { name: 'Object', value: 'object' },
+            { name: 'Sponsored Transaction', value: 'sponsoredTx' },
+            { name: 'Staking', value: 'staking' },
+            { name: 'Table', value: 'table' },
+            { name: 'Token', value: 'token' },
+            { name: 'Transaction', value: 'transaction' },
+            { name: 'Transfer', value: 'transfer' },
+            { name: 'Utility', value: 'utility' },
+          ],
+          default: 'account',
+        },
+        ...accountOperations,
+        ...accountFields,
+        ...ansOperations,
+        ...ansFields,
+        ...blockOperations,
+        ...blockFields,
+        ...coinOperations,
+        ...coinFields,
+        ...digitalAssetOperations,
+        ...digitalAssetFields,
+        ...eventOperations,
+        ...eventFields,
+        ...faucetOperations,
+        ...faucetFields,
+        ...gasOperations,
+        ...gasFields,
+        ...governanceOperations,
+        ...governanceFields,
+        ...indexerOperations,
+        ...indexerFields,
+        ...keylessOperations,
+        ...keylessFields,
+        ...moveModuleOperations,
+        ...moveModuleFields,
+        ...moveViewOperations,
+        ...moveViewFields,
+        ...multisigOperations,
+        ...multisigFields,
+        ...objectOperations,
+        ...objectFields,
+        ...sponsoredTxOperations,
+        ...sponsoredTxFields,
+        ...stakingOperations,
+        ...stakingFields,
+        ...tableOperations,
+        ...tableFields,
+        ...tokenOperations,
+        ...tokenFields,
+        ...transactionOperations,
+        ...transactionFields,
+        ...transferOperations,
+        ...transferFields,
+        ...utilityOperations,
+        ...utilityFields,
+        {
+          displayName: 'Cache Options',
+          name: 'cacheOptions',
+          type: 'collection',
+          placeholder: 'Add Option',
+          default: {},
+          description:
+            'Cache transactions by version, blocks by height and module ABIs at a fixed ledger version',
+          options: [
+            {
+              displayName: 'Cache Immutable Data',
+              name: 'enabled',
+              type: 'boolean',
+              default: true,
+              description: 'Whether to reuse immutable chain data instead of fetching it again',
+            },
+            {
+              displayName: 'Max Cache Entries',
+              name: 'maxEntries',
+              type: 'number',
+              typeOptions: { minValue: 1 },
+              default: DEFAULT_CACHE_MAX_ENTRIES,
+              description: 'Least recently used entries are evicted beyond this size',
+            },
+            {
+              displayName: 'Persist Cache',
+              name: 'persist',
+              type: 'boolean',
+              default: false,
+              description:
+                'Whether to keep the cache in workflow static data so later executions start warm. Avoid on networks that get reset, such as devnet.',
+            },
+          ],
+        },
+        {
+          displayName: 'Idempotency Options',
+          name: 'idempotencyOptions',
+          type: 'collection',
+          placeholder: 'Add Option',
+          default: {},
+          displayOptions: {
+            show: {
+              resource: ['account', 'coin', 'sponsoredTx', 'transaction', 'transfer'],
+              operation: ['rotateAuthKey', 'register', 'transfer', 'sponsor', 'submit', 'submitMultiAgent', 'submitSigned', 'submitBatch', 'transferApt', 'transferCoin', 'registerCoin', 'batchTransfer'],
+            },
+          },
+          description:
+            'Make write operations safe to retry: a key that already sent a transaction returns that transaction instead of sending a new one',
+          options: [
+            {
+              displayName: 'Idempotency Key',
+              name: 'idempotencyKey',
+              type: 'string',
+              default: '',
+              description:
+                'Unique key for the write this item makes, such as a payment ID. Kept in workflow static data.',
+            },
+            {
+              displayName: 'Keep Keys For (Days)',
+              name: 'retentionDays',
+              type: 'number',
+              typeOptions: { minValue: 1 },
+              default: DEFAULT_IDEMPOTENCY_RETENTION_DAYS,
+              description: 'After this many days a key is forgotten and can send a new transaction',
+            },
+          ],
+        },
+        {
+          displayName: 'Ledger Options',
+          name: 'ledgerOptions',
+          type: 'collection',
+          placeholder: 'Add Option',
+          default: {},
+          description: 'Read every item at the same ledger version',
+          options: [
+            {
+              displayName: 'Ledger Version',
+              name: 'ledgerVersion',
+              type: 'string',
+              default: '',
+              description:
+                'Ledger version to pin reads to. Leave empty to use the latest version when the execution starts.',
+            },
+            {
+              displayName: 'Pin Ledger Version',
+              name: 'pinLedgerVersion',
+              type: 'boolean',
+              default: false,
+              description:
+                'Whether to resolve the ledger version once and pass it to every read and view function in this execution',
+            },
+          ],
+        },
+        {
+          displayName: 'Retry Options',
+          name: 'retryOptions',
+          type: 'collection',
+          placeholder: 'Add Option',
+          default: {},
+          description: 'Override the retry policy configured on the credential',
+          options: [
+            {
+              displayName: 'Max Retries',
+              name: 'maxRetries',
+              type: 'number',
+              typeOptions: { minValue: 0 },
+              default: 3,
+              description: 'How many times to retry a rate limited or transiently failing request',
+            },
+            {
+              displayName: 'Retry Base Delay (Ms)',
+              name: 'retryBaseDelay',
+              type: 'number',
+              typeOptions: { minValue: 0 },
+              default: 500,
+              description: 'Initial backoff window, doubled on every attempt',
+            },
+            {
+              displayName: 'Retry Max Delay (Ms)',
+              name: 'retryMaxDelay',
+              type: 'number',
+              typeOptions: { minValue: 0 },
+              default: 10000,
+              description: 'Upper bound for a single backoff',
+            },
+            {
+              displayName: 'Retry Transaction Submission',
+              name: 'retrySubmissions',
+              type: 'boolean',
+              default: true,
+              description:
+                'Whether to retry submitting a signed transaction that the node rejected before processing',
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+    const resource = this.getNodeParameter('resource', 0) as string;
+
+    const handler = RESOURCE_HANDLERS[resource];
+    if (!handler) {
+      throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+
+    const credentials = await this.getCredentials('aptosNetwork');
+    const retryOptions = this.getNodeParameter('retryOptions', 0, {}) as IDataObject;
+    const client = createAptosClientWrapper(credentials, retryOptions);
+
+    const cacheOptions = this.getNodeParameter('cacheOptions', 0, {}) as IDataObject;
+    const staticData = cacheOptions.persist ? this.getWorkflowStaticData('node') : undefined;
+    if (cacheOptions.enabled !== false) {
+      const maxEntries = (cacheOptions.maxEntries as number) || DEFAULT_CACHE_MAX_ENTRIES;
+      client.cache = staticData
+        ? loadResponseCache(staticData, client.endpointPool.primary, maxEntries)
+        : new ResponseCache(maxEntries);
+    }
+
+    const ledgerOptions = this.getNodeParameter('ledgerOptions', 0, {}) as IDataObject;
+    if (ledgerOptions.pinLedgerVersion) {
+      await client.pinLedgerVersion(ledgerOptions.ledgerVersion as string | undefined);
+    }
+    const pinned: IDataObject =
+      client.pinnedLedgerVersion === undefined
+        ? {}
+        : { pinnedLedgerVersion: client.pinnedLedgerVersion };
+
+    // Saved even when an item fails, so entries fetched before it are kept
+    const saveCache = () => {
+      if (staticData && client.cache) {
+        saveResponseCache(staticData, client.endpointPool.primary, client.cache);
+      }
+    };
+
+    const useIdempotency = (i: number) => {
+      const key = getIdempotencyKey(this, i);
+      if (key && !client.idempotencyStore) {
+        const options = this.getNodeParameter('idempotencyOptions', i, {}) as IDataObject;
+        client.idempotencyStore = loadIdempotencyStore(
+          this.getWorkflowStaticData('node'),
+          client.endpointPool.primary,
+          (options.retentionDays as number) || DEFAULT_IDEMPOTENCY_RETENTION_DAYS,
+        );
+      }
+      client.idempotencyKey = key;
+      client.lastSubmission = undefined;
+    };
+
+    const batch = BATCH_HANDLERS[resource];
+    const batchOperation = this.getNodeParameter('operation', 0) as string;
+    if (batch?.operations.includes(batchOperation)) {
+      const before = takeSnapshot(client);
+      client.endpointPool.lastServed = undefined;
+      const indices = items.map((_, i) => i);
+      indices.forEach(useIdempotency);
+      client.idempotencyKey = undefined;
+      try {
+        const results = await batch.handler(this, client, batchOperation, indices);
+        const stats = getRequestStats(client, before);
+        for (const i of indices) {
+          returnData.push({ json: { ...results[i], ...stats, ...pinned }, pairedItem: { item: i } });
+        }
+      } catch (error) {
+        if (!this.continueOnFail()) {
+          throw new NodeOperationError(this.getNode(), error as Error);
+        }
+        const stats = getRequestStats(client, before);
+        for (const i of indices) {
+          returnData.push({ json: { error: (error as Error).message, ...stats, ...pinned }, pairedItem: { item: i } });
+        }
+      } finally {
+        saveCache();
+      }
+      return [returnData];
+    }
+
+    try {
+      for (let i = 0; i < items.length; i++) {
+        const before = takeSnapshot(client);
+        client.endpointPool.lastServed = undefined;
+        try {
+          useIdempotency(i);
+          const operation = this.getNodeParameter('operation', i) as string;
+          const result = await handler(this, client, operation, i);
+          const stats = { ...getRequestStats(client, before), ...getSubmissionInfo(client) };
+          if (isExecutionItem(result)) {
+            returnData.push({
+              json: { ...result.json, ...stats, ...pinned },
+              binary: result.binary,
+              pairedItem: { item: i },
+            });
+            continue;
+          }
+          for (const entry of Array.isArray(result) ? result : [result]) {
+            returnData.push({ json: { ...entry, ...stats, ...pinned }, pairedItem: { item: i } });
+          }
+        } catch (error) {
+          if (this.continueOnFail()) {
+            returnData.push({
+              json: {
+                error: (error as Error).message,
+                ...getRequestStats(client, before),
+                ...getSubmissionInfo(client),
+                ...pinned,
+              },
+              pairedItem: { item: i },
+            });
+            continue;
+          }
+          if (error instanceof NodeOperationError) {
+            throw error;
+          }
+          throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+        }
+      }
+    } finally {
+      saveCache();
+    }
+
+    return [returnData];
+  }
+}
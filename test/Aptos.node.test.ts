@@ -3,8 +3,17 @@
  * Licensed under the Business Source License 1.1
  */
 
-import { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { IExecuteFunctions, INodeExecutionData, INodeType } from 'n8n-workflow';
 import { Aptos } from '../nodes/Aptos/Aptos.node';
+import { AptosApi } from '../credentials/AptosApi.credentials';
+import {
+  executeAccountsOperations,
+  executeTransactionsOperations,
+  executeBlocksOperations,
+  executeCoinsOperations,
+  executeEventsOperations,
+  executeLedgerInfoOperations,
+} from '../nodes/Aptos/v1/AptosV1.node';
 
 // Mock n8n-workflow
 jest.mock('n8n-workflow', () => ({
@@ -18,10 +27,104 @@ jest.mock('n8n-workflow', () => ({
 }));
 
 describe('Aptos Node', () => {
-  let node: Aptos;
+  let node: INodeType;
 
   beforeAll(() => {
-    node = new Aptos();
+    node = new Aptos().nodeVersions[1] as INodeType;
+  });
+
+  describe('Node Versions', () => {
+    it('should default to version 2 and keep version 1', () => {
+      const versioned = new Aptos();
+      expect(versioned.description.defaultVersion).toBe(2);
+      expect(Object.keys(versioned.nodeVersions)).toEqual(['1', '2']);
+      expect(versioned.nodeVersions[1].description.credentials![0].name).toBe('aptosApi');
+      expect(versioned.nodeVersions[2].description.credentials![0].name).toBe('aptosNetwork');
+    });
+
+    it('should register an operation dropdown for every v2 resource', () => {
+      const v2 = new Aptos().nodeVersions[2] as INodeType;
+      const resourceProp = v2.description.properties.find((p) => p.name === 'resource');
+      const resources = (resourceProp!.options as Array<{ value: string }>).map((o) => o.value);
+      expect(resources).toHaveLength(22);
+
+      for (const resource of resources) {
+        const operation = v2.description.properties.find(
+          (p) => p.name === 'operation' && p.displayOptions?.show?.resource?.includes(resource),
+        );
+        expect(operation).toBeDefined();
+      }
+    });
+
+    it('should route v2 items to the resource handler', async () => {
+      const v2 = new Aptos().nodeVersions[2] as INodeType;
+      const params: Record<string, unknown> = { resource: 'utility', operation: 'toOctas', amountApt: 1.5 };
+      const execFns = {
+        getInputData: jest.fn().mockReturnValue([{ json: {} }]),
+        getNodeParameter: jest.fn(
+          (name: string, _index: number, fallback?: unknown) => params[name] ?? fallback,
+        ),
+        getCredentials: jest.fn().mockResolvedValue({ network: 'testnet', authMethod: 'none' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Aptos' }),
+        continueOnFail: jest.fn().mockReturnValue(false),
+      };
+
+      const result = await v2.execute!.call(execFns as unknown as IExecuteFunctions);
+
+      expect(execFns.getCredentials).toHaveBeenCalledWith('aptosNetwork');
+      expect(result).toEqual([
+        [{ json: { apt: 1.5, octas: '150000000', retryCount: 0 }, pairedItem: { item: 0 } }],
+      ]);
+    });
+
+    it('should echo the pinned ledger version on every v2 item', async () => {
+      const v2 = new Aptos().nodeVersions[2] as INodeType;
+      const params: Record<string, unknown> = {
+        resource: 'utility',
+        operation: 'toOctas',
+        amountApt: 1,
+        ledgerOptions: { pinLedgerVersion: true, ledgerVersion: '123456' },
+      };
+      const execFns = {
+        getInputData: jest.fn().mockReturnValue([{ json: {} }, { json: {} }]),
+        getNodeParameter: jest.fn(
+          (name: string, _index: number, fallback?: unknown) => params[name] ?? fallback,
+        ),
+        getCredentials: jest.fn().mockResolvedValue({ network: 'testnet', authMethod: 'none' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Aptos' }),
+        continueOnFail: jest.fn().mockReturnValue(false),
+      };
+
+      const [items] = (await v2.execute!.call(
+        execFns as unknown as IExecuteFunctions,
+      )) as INodeExecutionData[][];
+
+      expect(items).toHaveLength(2);
+      expect(items.map((item) => item.json.pinnedLedgerVersion)).toEqual(['123456', '123456']);
+    });
+
+    it('should reject a ledger version that is not a whole number', async () => {
+      const v2 = new Aptos().nodeVersions[2] as INodeType;
+      const params: Record<string, unknown> = {
+        resource: 'utility',
+        operation: 'toOctas',
+        amountApt: 1,
+        ledgerOptions: { pinLedgerVersion: true, ledgerVersion: 'latest' },
+      };
+      const execFns = {
+        getInputData: jest.fn().mockReturnValue([{ json: {} }]),
+        getNodeParameter: jest.fn(
+          (name: string, _index: number, fallback?: unknown) => params[name] ?? fallback,
+        ),
+        getCredentials: jest.fn().mockResolvedValue({ network: 'testnet', authMethod: 'none' }),
+        getNode: jest.fn().mockReturnValue({ name: 'Aptos' }),
+        continueOnFail: jest.fn().mockReturnValue(false),
+      };
+
+      await expect(v2.execute!.call(execFns as unknown as IExecuteFunctions)).rejects.toThrow(
+        'Ledger Version must be a whole number, got latest',
+      );
+    });
   });
 
   describe('Node Definition', () => {
@@ -60,13 +163,27 @@ describe('Aptos Node', () => {
         (p: any) => p.displayOptions?.show?.resource
       );
       for (const param of params) {
-        expect(param.displayOptions.show.resource).toBeDefined();
-        expect(Array.isArray(param.displayOptions.show.resource)).toBe(true);
+        expect(param.displayOptions!.show!.resource).toBeDefined();
+        expect(Array.isArray(param.displayOptions!.show!.resource)).toBe(true);
       }
     });
   });
 
   // Resource-specific tests
+describe('Aptos API Credential', () => {
+  const request = { url: 'https://api.mainnet.aptoslabs.com/v1/', headers: { Accept: 'application/json' } };
+
+  it('should send the API key as a bearer token', async () => {
+    const result = await new AptosApi().authenticate({ apiKey: 'test-api-key' }, request);
+    expect(result.headers).toEqual({ Accept: 'application/json', Authorization: 'Bearer test-api-key' });
+  });
+
+  it('should send no Authorization header without an API key', async () => {
+    const result = await new AptosApi().authenticate({ apiKey: '' }, request);
+    expect(result.headers).toEqual({ Accept: 'application/json' });
+  });
+});
+
 describe('Accounts Resource', () => {
   let mockExecuteFunctions: any;
 
@@ -74,15 +191,14 @@ describe('Accounts Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        token: 'test-api-key',
+        apiKey: 'test-api-key',
         baseUrl: 'https://api.mainnet.aptoslabs.com/v1',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -102,19 +218,17 @@ describe('Accounts Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockAccount);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockAccount);
 
       const items = [{ json: {} }];
       const result = await executeAccountsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toEqual([{ json: mockAccount, pairedItem: { item: 0 } }]);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x1',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
+        qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -128,7 +242,7 @@ describe('Accounts Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Account not found'));
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(new Error('Account not found'));
 
       const items = [{ json: {} }];
 
@@ -154,19 +268,17 @@ describe('Accounts Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResources);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResources);
 
       const items = [{ json: {} }];
       const result = await executeAccountsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toEqual([{ json: mockResources, pairedItem: { item: 0 } }]);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x1/resources?ledger_version=12345&limit=100',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x1/resources',
+        qs: {ledger_version: '12345', limit: 100},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -190,7 +302,7 @@ describe('Accounts Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockModules);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockModules);
 
       const items = [{ json: {} }];
       const result = await executeAccountsOperations.call(mockExecuteFunctions, items);
@@ -220,19 +332,17 @@ describe('Accounts Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResource);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResource);
 
       const items = [{ json: {} }];
       const result = await executeAccountsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toEqual([{ json: mockResource, pairedItem: { item: 0 } }]);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x1/resource/0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x1/resource/0x1%3A%3Acoin%3A%3ACoinStore%3C0x1%3A%3Aaptos_coin%3A%3AAptosCoin%3E',
+        qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -246,15 +356,14 @@ describe('Transactions Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        bearerToken: 'test-bearer-token',
+        apiKey: 'test-bearer-token',
         baseUrl: 'https://api.mainnet.aptoslabs.com/v1',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -268,18 +377,16 @@ describe('Transactions Resource', () => {
       if (param === 'transactionData') return transactionData;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'POST',
       url: 'https://api.mainnet.aptoslabs.com/v1/transactions',
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(transactionData),
+      qs: {},
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: transactionData,
       json: true,
     });
 
@@ -295,16 +402,15 @@ describe('Transactions Resource', () => {
       if (param === 'limit') return 25;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'GET',
       url: 'https://api.mainnet.aptoslabs.com/v1/transactions',
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-      },
+      qs: { limit: 25 },
+      headers: { Accept: 'application/json' },
       json: true,
     });
 
@@ -320,16 +426,15 @@ describe('Transactions Resource', () => {
       if (param === 'txnHashOrVersion') return txnHash;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'GET',
-      url: `https://api.mainnet.aptoslabs.com/v1/transactions/${txnHash}`,
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-      },
+      url: `https://api.mainnet.aptoslabs.com/v1/transactions/by_hash/${txnHash}`,
+      qs: {},
+      headers: { Accept: 'application/json' },
       json: true,
     });
 
@@ -347,18 +452,16 @@ describe('Transactions Resource', () => {
       if (param === 'estimateMaxGasAmount') return false;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'POST',
-      url: 'https://api.mainnet.aptoslabs.com/v1/transactions/simulate?estimate_gas_unit_price=true',
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(transactionData),
+      url: 'https://api.mainnet.aptoslabs.com/v1/transactions/simulate',
+      qs: {estimate_gas_unit_price: 'true'},
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: transactionData,
       json: true,
     });
 
@@ -374,18 +477,16 @@ describe('Transactions Resource', () => {
       if (param === 'transactionsArray') return transactionsArray;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'POST',
       url: 'https://api.mainnet.aptoslabs.com/v1/transactions/batch',
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(transactionsArray),
+      qs: {},
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: transactionsArray,
       json: true,
     });
 
@@ -403,16 +504,15 @@ describe('Transactions Resource', () => {
       if (param === 'limit') return 50;
     });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
-    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+    expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
       method: 'GET',
-      url: `https://api.mainnet.aptoslabs.com/v1/accounts/${address}/transactions?start=10&limit=50`,
-      headers: {
-        'Authorization': 'Bearer test-bearer-token',
-      },
+      url: `https://api.mainnet.aptoslabs.com/v1/accounts/${address}/transactions`,
+      qs: {start: 10, limit: 50},
+      headers: { Accept: 'application/json' },
       json: true,
     });
 
@@ -426,7 +526,7 @@ describe('Transactions Resource', () => {
 
     const error = new Error('API Error');
     (error as any).httpCode = 400;
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
     await expect(
       executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }])
@@ -439,7 +539,7 @@ describe('Transactions Resource', () => {
     });
 
     mockExecuteFunctions.continueOnFail.mockReturnValue(true);
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('API Error'));
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(new Error('API Error'));
 
     const result = await executeTransactionsOperations.call(mockExecuteFunctions, [{ json: {} }]);
 
@@ -457,15 +557,14 @@ describe('Blocks Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        bearerToken: 'test-bearer-token',
+        apiKey: 'test-bearer-token',
         baseUrl: 'https://api.mainnet.aptoslabs.com/v1',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -489,19 +588,16 @@ describe('Blocks Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBlockData);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockBlockData);
 
       const items = [{ json: {} }];
       const result = await executeBlocksOperations.call(mockExecuteFunctions, items);
 
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/blocks/by_height/12345',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
         qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
 
@@ -524,19 +620,16 @@ describe('Blocks Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBlockData);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockBlockData);
 
       const items = [{ json: {} }];
       const result = await executeBlocksOperations.call(mockExecuteFunctions, items);
 
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/blocks/by_height/12345',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
         qs: { with_transactions: 'true' },
+        headers: { Accept: 'application/json' },
         json: true,
       });
 
@@ -554,7 +647,7 @@ describe('Blocks Resource', () => {
       });
 
       const error = new Error('Block not found');
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
       const items = [{ json: {} }];
 
@@ -583,19 +676,16 @@ describe('Blocks Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBlockData);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockBlockData);
 
       const items = [{ json: {} }];
       const result = await executeBlocksOperations.call(mockExecuteFunctions, items);
 
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/blocks/by_version/100005',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
         qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
 
@@ -618,19 +708,16 @@ describe('Blocks Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBlockData);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockBlockData);
 
       const items = [{ json: {} }];
       const result = await executeBlocksOperations.call(mockExecuteFunctions, items);
 
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/blocks/by_version/100005',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
         qs: { with_transactions: 'true' },
+        headers: { Accept: 'application/json' },
         json: true,
       });
 
@@ -648,7 +735,7 @@ describe('Blocks Resource', () => {
       });
 
       const error = new Error('Version not found');
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
       const items = [{ json: {} }];
 
@@ -670,7 +757,7 @@ describe('Blocks Resource', () => {
 
     mockExecuteFunctions.continueOnFail.mockReturnValue(true);
     const error = new Error('API Error');
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+    mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
     const items = [{ json: {} }];
     const result = await executeBlocksOperations.call(mockExecuteFunctions, items);
@@ -696,8 +783,7 @@ describe('Coins Resource', () => {
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -719,21 +805,18 @@ describe('Coins Resource', () => {
         encoded_transaction: 'encoded_hex_string',
       };
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeCoinsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'POST',
         url: 'https://api.mainnet.aptoslabs.com/v1/transactions/encode_submission',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
-        json: true,
+        qs: {},
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
         body: expect.objectContaining({
           sender: '0x123',
           payload: {
@@ -743,6 +826,7 @@ describe('Coins Resource', () => {
             arguments: ['0x456', '1000000'],
           },
         }),
+        json: true,
       });
     });
 
@@ -758,7 +842,7 @@ describe('Coins Resource', () => {
         }
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('API Error'));
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(new Error('API Error'));
       mockExecuteFunctions.continueOnFail.mockReturnValue(true);
 
       const items = [{ json: {} }];
@@ -789,19 +873,18 @@ describe('Coins Resource', () => {
         },
       };
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeCoinsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/resource/0x1::coin::CoinStore<0x1%3A%3Aaptos_coin%3A%3AAptosCoin>',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-        },
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/resource/0x1%3A%3Acoin%3A%3ACoinStore%3C0x1%3A%3Aaptos_coin%3A%3AAptosCoin%3E',
+        qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -835,24 +918,22 @@ describe('Coins Resource', () => {
         },
       ];
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeCoinsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/0x1::coin::CoinStore<0x1%3A%3Aaptos_coin%3A%3AAptosCoin>/withdraw_events',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-        },
-        json: true,
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/0x1%3A%3Acoin%3A%3ACoinStore%3C0x1%3A%3Aaptos_coin%3A%3AAptosCoin%3E/withdraw_events',
         qs: {
           start: 0,
           limit: 25,
         },
+        headers: { Accept: 'application/json' },
+        json: true,
       });
     });
   });
@@ -885,24 +966,22 @@ describe('Coins Resource', () => {
         },
       ];
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeCoinsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/0x1::coin::CoinStore<0x1%3A%3Aaptos_coin%3A%3AAptosCoin>/deposit_events',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-        },
-        json: true,
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/0x1%3A%3Acoin%3A%3ACoinStore%3C0x1%3A%3Aaptos_coin%3A%3AAptosCoin%3E/deposit_events',
         qs: {
           start: 0,
           limit: 25,
         },
+        headers: { Accept: 'application/json' },
+        json: true,
       });
     });
   });
@@ -922,8 +1001,7 @@ describe('Events Resource', () => {
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -947,20 +1025,18 @@ describe('Events Resource', () => {
         .mockReturnValueOnce(0)
         .mockReturnValueOnce(25);
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeEventsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/test_handle/test_field?start=0&limit=25',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
+        url: 'https://api.mainnet.aptoslabs.com/v1/accounts/0x123/events/test_handle/test_field',
+        qs: {start: 0, limit: 25},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -975,7 +1051,7 @@ describe('Events Resource', () => {
         .mockReturnValueOnce(25);
 
       const error = new Error('API Error');
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
       const items = [{ json: {} }];
 
@@ -1001,20 +1077,18 @@ describe('Events Resource', () => {
         .mockReturnValueOnce(0)
         .mockReturnValueOnce(25);
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockResponse);
 
       const items = [{ json: {} }];
       const result = await executeEventsOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
-        url: 'https://api.mainnet.aptoslabs.com/v1/events/0xabc123?start=0&limit=25',
-        headers: {
-          'Authorization': 'Bearer test-api-key',
-          'Content-Type': 'application/json',
-        },
+        url: 'https://api.mainnet.aptoslabs.com/v1/events/0xabc123',
+        qs: {start: 0, limit: 25},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -1027,7 +1101,7 @@ describe('Events Resource', () => {
         .mockReturnValueOnce(25);
 
       const error = new Error('Invalid event key');
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(error);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(error);
 
       const items = [{ json: {} }];
 
@@ -1044,15 +1118,14 @@ describe('LedgerInfo Resource', () => {
     mockExecuteFunctions = {
       getNodeParameter: jest.fn(),
       getCredentials: jest.fn().mockResolvedValue({
-        bearerToken: 'test-bearer-token',
+        apiKey: 'test-bearer-token',
         baseUrl: 'https://api.mainnet.aptoslabs.com/v1',
       }),
       getInputData: jest.fn().mockReturnValue([{ json: {} }]),
       getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
       continueOnFail: jest.fn().mockReturnValue(false),
       helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
+        httpRequestWithAuthentication: jest.fn(),
       },
     };
   });
@@ -1076,20 +1149,18 @@ describe('LedgerInfo Resource', () => {
         return null;
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockLedgerInfo);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockLedgerInfo);
 
       const items = [{ json: {} }];
       const result = await executeLedgerInfoOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockLedgerInfo);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
+        qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -1100,7 +1171,7 @@ describe('LedgerInfo Resource', () => {
         return null;
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('API Error'));
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(new Error('API Error'));
       mockExecuteFunctions.continueOnFail.mockReturnValue(true);
 
       const items = [{ json: {} }];
@@ -1124,20 +1195,18 @@ describe('LedgerInfo Resource', () => {
         return null;
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockGasEstimate);
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockResolvedValue(mockGasEstimate);
 
       const items = [{ json: {} }];
       const result = await executeLedgerInfoOperations.call(mockExecuteFunctions, items);
 
       expect(result).toHaveLength(1);
       expect(result[0].json).toEqual(mockGasEstimate);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
+      expect(mockExecuteFunctions.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('aptosApi', {
         method: 'GET',
         url: 'https://api.mainnet.aptoslabs.com/v1/estimate_gas_price',
-        headers: {
-          'Authorization': 'Bearer test-bearer-token',
-          'Content-Type': 'application/json',
-        },
+        qs: {},
+        headers: { Accept: 'application/json' },
         json: true,
       });
     });
@@ -1148,7 +1217,7 @@ describe('LedgerInfo Resource', () => {
         return null;
       });
 
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Gas estimation failed'));
+      mockExecuteFunctions.helpers.httpRequestWithAuthentication.mockRejectedValue(new Error('Gas estimation failed'));
       mockExecuteFunctions.continueOnFail.mockReturnValue(true);
 
       const items = [{ json: {} }];
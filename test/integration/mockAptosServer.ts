@@ -0,0 +1,398 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Mock Aptos Services
+ *
+ * A local HTTP server that stands in for a fullnode, an indexer and a faucet,
+ * so the nodes can run end to end without network access. Responses come from
+ * the JSON fixtures in `fixtures/`, one file per service:
+ *
+ * - fullnode: `/fullnode/v1/...`
+ * - indexer:  `/indexer/v1/graphql`, matched by GraphQL operation name
+ * - faucet:   `/faucet/...`
+ *
+ * Signed transactions posted to the fullnode are hashed like the chain does,
+ * and fixtures marked `submitted` only answer for hashes submitted to this
+ * server, so submit and wait flows behave like a real node.
+ *
+ * Record mode (`APTOS_MOCK_RECORD=1`) forwards requests that have no fixture to
+ * the real services, testnet by default, and appends the responses to the
+ * fixture files.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import axios from 'axios';
+import { AccountAddress, Deserializer } from '@aptos-labs/ts-sdk';
+
+export type MockService = 'fullnode' | 'indexer' | 'faucet';
+
+export const MOCK_SERVICES: MockService[] = ['fullnode', 'indexer', 'faucet'];
+
+export interface MockFixture {
+  method: string;
+  /** Path below the service root. `:name` segments match any value. */
+  path: string;
+  /** Query parameters the request must carry */
+  query?: Record<string, string>;
+  /** Fields the JSON request body must contain */
+  body?: Record<string, unknown>;
+  /** Only match when the `:hash` segment is a transaction submitted to this server */
+  submitted?: boolean;
+  /** Stop matching after this many requests */
+  times?: number;
+  status?: number;
+  headers?: Record<string, string>;
+  /** JSON response. `{{name}}` placeholders are replaced with path segments and `{{hash}}`. */
+  response?: unknown;
+  /** Raw response bytes as hex, for `application/x-bcs` reads */
+  responseHex?: string;
+}
+
+export interface MockRequest {
+  service: MockService;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockServerOptions {
+  fixtureDir?: string;
+  record?: boolean;
+  upstream?: Partial<Record<MockService, string>>;
+}
+
+const DEFAULT_UPSTREAM: Record<MockService, string> = {
+  fullnode: 'https://fullnode.testnet.aptoslabs.com/v1',
+  indexer: 'https://api.testnet.aptoslabs.com/v1/graphql',
+  faucet: 'https://faucet.testnet.aptoslabs.com',
+};
+
+const SIGNED_TRANSACTION_MIME_TYPE = 'application/x.aptos.signed_transaction+bcs';
+const VIEW_FUNCTION_MIME_TYPE = 'application/x.aptos.view_function+bcs';
+const BCS_MIME_TYPE = 'application/x-bcs';
+
+/** Prefix hashed into every transaction hash, followed by the UserTransaction variant */
+const TRANSACTION_SALT = createHash('sha3-256').update('APTOS::Transaction').digest();
+
+/**
+ * Compute the hash the chain assigns to a BCS signed transaction
+ */
+export function hashSignedTransaction(bytes: Buffer): string {
+  const hash = createHash('sha3-256')
+    .update(TRANSACTION_SALT)
+    .update(Buffer.from([0]))
+    .update(bytes)
+    .digest('hex');
+  return `0x${hash}`;
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | undefined {
+  const expected = pattern.split('/');
+  const actual = path.split('/');
+  if (expected.length !== actual.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    } else if (expected[i] !== actual[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+function containsFields(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual === expected;
+  }
+  if (actual === null || typeof actual !== 'object') return false;
+  return Object.entries(expected as Record<string, unknown>).every(([key, value]) =>
+    containsFields((actual as Record<string, unknown>)[key], value),
+  );
+}
+
+function fillTemplate(value: unknown, params: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(
+      /\{\{(\w+)\}\}/g,
+      (placeholder, name: string) => params[name] ?? placeholder,
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => fillTemplate(entry, params));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, fillTemplate(entry, params)]),
+    );
+  }
+  return value;
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * The SDK sends view calls as a BCS entry function. Read the function id so
+ * fixtures can match it like a JSON view request.
+ */
+function parseViewFunction(raw: Buffer): Record<string, unknown> {
+  const deserializer = new Deserializer(raw);
+  const address = AccountAddress.deserialize(deserializer).toString();
+  const module = deserializer.deserializeStr();
+  const name = deserializer.deserializeStr();
+  return { function: `${address}::${module}::${name}`, bcs: `0x${raw.toString('hex')}` };
+}
+
+function parseBody(raw: Buffer, contentType: string): unknown {
+  if (contentType.includes(VIEW_FUNCTION_MIME_TYPE)) return parseViewFunction(raw);
+  if (!raw.length || !contentType.includes('json')) return undefined;
+  const body = JSON.parse(raw.toString('utf8'));
+  // GraphQL clients don't always send the operation name, so read it from the query
+  if (typeof body?.query === 'string' && !body.operationName) {
+    const operation = /\b(?:query|mutation)\s+(\w+)/.exec(body.query);
+    if (operation) body.operationName = operation[1];
+  }
+  return body;
+}
+
+export class MockAptosServer {
+  /** Every request the server received, in order */
+  readonly requests: MockRequest[] = [];
+  /** Hashes of the signed transactions submitted to the fullnode */
+  readonly submitted = new Set<string>();
+  private readonly uses = new Map<MockFixture, number>();
+
+  private readonly fixtureDir: string;
+  private readonly record: boolean;
+  private readonly upstream: Record<MockService, string>;
+  private readonly fixtures: Record<MockService, MockFixture[]>;
+  private server: Server | undefined;
+  private baseUrl = '';
+
+  constructor(options: MockServerOptions = {}) {
+    this.fixtureDir = options.fixtureDir ?? join(__dirname, 'fixtures');
+    this.record = options.record ?? process.env.APTOS_MOCK_RECORD === '1';
+    this.upstream = { ...DEFAULT_UPSTREAM, ...options.upstream };
+    for (const service of MOCK_SERVICES) {
+      const url = process.env[`APTOS_MOCK_UPSTREAM_${service.toUpperCase()}`];
+      if (url) this.upstream[service] = url;
+    }
+    this.fixtures = {
+      fullnode: this.loadFixtures('fullnode'),
+      indexer: this.loadFixtures('indexer'),
+      faucet: this.loadFixtures('faucet'),
+    };
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Credentials for a custom network served by this mock
+   */
+  getCredentials(extra: Record<string, unknown> = {}) {
+    return {
+      network: 'custom',
+      nodeUrl: `${this.baseUrl}/fullnode/v1`,
+      indexerUrl: `${this.baseUrl}/indexer/v1/graphql`,
+      faucetUrl: `${this.baseUrl}/faucet`,
+      authMethod: 'none',
+      maxRetries: 0,
+      ...extra,
+    };
+  }
+
+  /**
+   * Add fixtures that take precedence over the ones loaded from disk
+   */
+  use(service: MockService, ...fixtures: MockFixture[]): void {
+    this.fixtures[service].unshift(...fixtures);
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error: Error) => {
+        this.send(response, 500, { message: error.message, error_code: 'mock_server_error' });
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  private loadFixtures(service: MockService): MockFixture[] {
+    const file = join(this.fixtureDir, `${service}.json`);
+    return JSON.parse(readFileSync(file, 'utf8')) as MockFixture[];
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://mock');
+    const [, service, ...rest] = url.pathname.split('/');
+    if (!MOCK_SERVICES.includes(service as MockService)) {
+      this.send(response, 404, { message: `Unknown mock service: ${service}` });
+      return;
+    }
+
+    let path = `/${rest.join('/')}`;
+    if (service !== 'faucet') path = path.replace(/^\/v1/, '') || '/';
+    const raw = await readBody(request);
+    const contentType = request.headers['content-type'] ?? '';
+    const mockRequest: MockRequest = {
+      service: service as MockService,
+      method: request.method ?? 'GET',
+      path,
+      query: Object.fromEntries(url.searchParams),
+      body: parseBody(raw, contentType),
+    };
+    this.requests.push(mockRequest);
+
+    const params: Record<string, string> = {};
+    const submission =
+      mockRequest.method === 'POST' && contentType.includes(SIGNED_TRANSACTION_MIME_TYPE);
+    if (submission) params.hash = hashSignedTransaction(raw);
+
+    const acceptsBcs = request.headers.accept === BCS_MIME_TYPE;
+    for (const fixture of this.fixtures[mockRequest.service]) {
+      const pathParams = this.matchFixture(fixture, mockRequest, acceptsBcs);
+      if (!pathParams) continue;
+      this.uses.set(fixture, (this.uses.get(fixture) ?? 0) + 1);
+      if (submission) this.recordSubmission(path, params.hash, fixture.status);
+      this.reply(response, fixture, { ...pathParams, ...params });
+      return;
+    }
+
+    if (this.record) {
+      const fixture = await this.recordFixture(mockRequest, raw, request);
+      if (submission) this.recordSubmission(path, params.hash, fixture.status);
+      this.reply(response, fixture, params);
+      return;
+    }
+
+    this.send(response, 404, {
+      message: `No ${service} fixture for ${mockRequest.method} ${path}`,
+      error_code: 'mock_fixture_not_found',
+    });
+  }
+
+  /**
+   * Remember transactions the fullnode accepted so their lookups can match
+   */
+  private recordSubmission(path: string, hash: string, status = 200): void {
+    if (path === '/transactions' && status < 300) this.submitted.add(hash);
+  }
+
+  private matchFixture(
+    fixture: MockFixture,
+    request: MockRequest,
+    acceptsBcs: boolean,
+  ): Record<string, string> | undefined {
+    if (fixture.method !== request.method) return undefined;
+    if ((fixture.responseHex !== undefined) !== acceptsBcs) return undefined;
+    const params = matchPath(fixture.path, request.path);
+    if (!params) return undefined;
+    if (fixture.query && !containsFields(request.query, fixture.query)) return undefined;
+    if (fixture.body && !containsFields(request.body, fixture.body)) return undefined;
+    if (fixture.submitted && !this.submitted.has(params.hash)) return undefined;
+    if (fixture.times !== undefined && (this.uses.get(fixture) ?? 0) >= fixture.times) {
+      return undefined;
+    }
+    return params;
+  }
+
+  private reply(response: ServerResponse, fixture: MockFixture, params: Record<string, string>) {
+    const status = fixture.status ?? 200;
+    if (fixture.responseHex !== undefined) {
+      response.writeHead(status, { 'content-type': BCS_MIME_TYPE, ...fixture.headers });
+      response.end(Buffer.from(fixture.responseHex.replace(/^0x/, ''), 'hex'));
+      return;
+    }
+    this.send(response, status, fillTemplate(fixture.response, params), fixture.headers);
+  }
+
+  private send(
+    response: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {},
+  ): void {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(JSON.stringify(body ?? null));
+  }
+
+  /**
+   * Forward a request to the real service and save its response as a fixture
+   */
+  private async recordFixture(
+    request: MockRequest,
+    raw: Buffer,
+    incoming: IncomingMessage,
+  ): Promise<MockFixture> {
+    const upstreamPath = request.path === '/' ? '' : request.path;
+    const upstream = await axios.request<ArrayBuffer>({
+      url: `${this.upstream[request.service]}${upstreamPath}`,
+      method: request.method,
+      params: request.query,
+      data: raw.length ? raw : undefined,
+      headers: {
+        'content-type': incoming.headers['content-type'] ?? 'application/json',
+        accept: incoming.headers.accept ?? 'application/json',
+      },
+      responseType: 'arraybuffer',
+      validateStatus: () => true,
+    });
+
+    const bytes = Buffer.from(upstream.data);
+    const fixture: MockFixture = { method: request.method, path: request.path };
+    if (Object.keys(request.query).length) fixture.query = request.query;
+    if (request.service === 'indexer') {
+      const { operationName, variables } = request.body as Record<string, unknown>;
+      fixture.body = { operationName, variables };
+    } else if (request.body !== undefined) {
+      const { bcs, ...body } = request.body as Record<string, unknown>;
+      fixture.body = bcs === undefined ? body : { ...body, bcs };
+    }
+    if (upstream.status !== 200) fixture.status = upstream.status;
+    const cursor = upstream.headers['x-aptos-cursor'];
+    if (cursor) fixture.headers = { 'x-aptos-cursor': String(cursor) };
+    if (String(upstream.headers['content-type']).startsWith(BCS_MIME_TYPE)) {
+      fixture.responseHex = `0x${bytes.toString('hex')}`;
+    } else {
+      fixture.response = JSON.parse(bytes.toString('utf8'));
+    }
+
+    this.fixtures[request.service].push(fixture);
+    const file = join(this.fixtureDir, `${request.service}.json`);
+    const saved = this.loadFixtures(request.service);
+    writeFileSync(file, `${JSON.stringify([...saved, fixture], null, 2)}\n`);
+    return fixture;
+  }
+}
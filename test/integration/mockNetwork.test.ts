@@ -0,0 +1,1451 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * End to end tests against the fixture-backed mock fullnode, indexer and faucet.
+ * They run offline. See mockAptosServer.ts for record mode.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Account,
+  AccountAddress,
+  AccountAuthenticator,
+  ChainId,
+  Deserializer,
+  Ed25519PrivateKey,
+  EntryFunction,
+  Hex,
+  MultiEd25519PublicKey,
+  PublicKey,
+  RawTransaction,
+  Secp256k1PrivateKey,
+  Serializer,
+  Signature,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+  generateSignedTransaction,
+} from '@aptos-labs/ts-sdk';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  IPollFunctions,
+} from 'n8n-workflow';
+import { Aptos } from '../../nodes/Aptos/Aptos.node';
+import { AptosTrigger } from '../../nodes/Aptos/AptosTrigger.node';
+import { createAptosClientWrapper } from '../../nodes/Aptos/transport/aptosClient';
+import { createIndexerClientWrapper } from '../../nodes/Aptos/transport/indexerClient';
+import { MOCK_SERVICES, MockAptosServer } from './mockAptosServer';
+
+const PRIVATE_KEY = `ed25519-priv-0x${'11'.repeat(32)}`;
+const SENDER = Account.fromPrivateKey({
+  privateKey: new Ed25519PrivateKey(PRIVATE_KEY),
+}).accountAddress.toString();
+const CO_SIGNER_KEY = `ed25519-priv-0x${'22'.repeat(32)}`;
+const CO_SIGNER = Account.fromPrivateKey({
+  privateKey: new Ed25519PrivateKey(CO_SIGNER_KEY),
+}).accountAddress.toString();
+const SETTLE_FUNCTION = `0x${'cafe'.padStart(64, '0')}::swap::settle`;
+const RECIPIENT = '0x0000000000000000000000000000000000000000000000000000000000000002';
+
+describe('Mock Aptos network', () => {
+  const server = new MockAptosServer();
+  const workflowStaticData: IDataObject = {};
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  /**
+   * Run the v2 node. A parameter given as an array holds one value per input item.
+   */
+  async function runNode(
+    params: Record<string, unknown>,
+    credentials: Record<string, unknown> = {},
+    itemCount = 1,
+  ): Promise<IDataObject[]> {
+    const v2 = new Aptos().nodeVersions[2] as INodeType;
+    const execFns = {
+      getInputData: () => Array.from({ length: itemCount }, () => ({ json: {} })),
+      getNodeParameter: (name: string, index: number, fallback?: unknown) => {
+        const value = params[name];
+        return (Array.isArray(value) ? value[index] : value) ?? fallback;
+      },
+      getCredentials: async (name: string) =>
+        name === 'aptosFaucet'
+          ? { network: 'custom', faucetUrl: server.getCredentials().faucetUrl }
+          : server.getCredentials({ chainId: 4, ...credentials }),
+      getNode: () => ({ name: 'Aptos' }),
+      getWorkflowStaticData: () => workflowStaticData,
+      continueOnFail: () => false,
+    };
+
+    const [items] = (await v2.execute!.call(
+      execFns as unknown as IExecuteFunctions,
+    )) as INodeExecutionData[][];
+    return items.map((item) => item.json);
+  }
+
+  it('should read an account and its balance from the fullnode', async () => {
+    const [account] = await runNode({ resource: 'account', operation: 'get', address: SENDER });
+    const [balance] = await runNode({
+      resource: 'account',
+      operation: 'getBalance',
+      address: SENDER,
+    });
+
+    expect(account).toMatchObject({
+      address: SENDER,
+      sequenceNumber: '0',
+      authenticationKey: SENDER,
+    });
+    expect(balance).toMatchObject({ balanceOctas: '250000000', balanceApt: 2.5 });
+  });
+
+  it('should keep cached responses when a later item fails', async () => {
+    server.use(
+      'fullnode',
+      {
+        method: 'GET',
+        path: '/blocks/by_height/7',
+        times: 1,
+        response: {
+          block_height: '7',
+          block_hash: `0x${'07'.repeat(32)}`,
+          block_timestamp: '1760000000000000',
+          first_version: '70',
+          last_version: '79',
+        },
+      },
+      {
+        method: 'GET',
+        path: '/blocks/by_height/8',
+        status: 404,
+        response: { message: 'Block not found', error_code: 'block_not_found' },
+      },
+    );
+
+    await expect(
+      runNode(
+        {
+          resource: 'block',
+          operation: 'getByHeight',
+          blockHeight: [7, 8],
+          withTransactions: false,
+          cacheOptions: { persist: true },
+        },
+        {},
+        2,
+      ),
+    ).rejects.toThrow('Block not found');
+    const [block] = await runNode({
+      resource: 'block',
+      operation: 'getByHeight',
+      blockHeight: 7,
+      withTransactions: false,
+      cacheOptions: { persist: true },
+    });
+
+    expect(block).toMatchObject({ blockHeight: '7', lastVersion: '79' });
+  });
+
+  it('should submit a transfer and wait for it to commit', async () => {
+    const [result] = await runNode(
+      {
+        resource: 'transfer',
+        operation: 'transferApt',
+        recipientAddress: RECIPIENT,
+        amountApt: 0.5,
+        options: {},
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+
+    expect(server.submitted.size).toBe(1);
+    const [hash] = [...server.submitted];
+    expect(result).toMatchObject({ success: true, hash, version: '1201', gasUsed: '12' });
+    expect(server.requests.map((request) => request.path)).toEqual(
+      expect.arrayContaining(['/transactions', `/transactions/by_hash/${hash}`]),
+    );
+  });
+
+  it('should replay a transfer sent under the same idempotency key instead of paying again', async () => {
+    const params = {
+      resource: 'transfer',
+      operation: 'transferApt',
+      recipientAddress: RECIPIENT,
+      amountApt: 0.25,
+      options: {},
+      idempotencyOptions: { idempotencyKey: 'payout-42' },
+    };
+    const credentials = { authMethod: 'privateKey', privateKey: PRIVATE_KEY };
+
+    const [first] = await runNode(params, credentials);
+    const submittedAfterFirst = server.submitted.size;
+    server.requests.length = 0;
+    const [second] = await runNode(params, credentials);
+
+    expect(first).toMatchObject({
+      success: true,
+      submission: 'fresh',
+      idempotencyKey: 'payout-42',
+    });
+    expect(second).toMatchObject({
+      success: true,
+      hash: first.hash,
+      submission: 'replayed',
+      idempotencyKey: 'payout-42',
+    });
+    expect(server.submitted.size).toBe(submittedAfterFirst);
+    expect(server.requests.some((request) => request.path === '/transactions')).toBe(false);
+  });
+
+  it('should collect a co-signer authenticator and submit a multi-agent transaction', async () => {
+    const sender = { authMethod: 'privateKey', privateKey: PRIVATE_KEY };
+    const call = {
+      resource: 'transaction',
+      function: SETTLE_FUNCTION,
+      typeArguments: '',
+      functionArguments: '["1000"]',
+      gasOptions: {},
+    };
+
+    const [built] = await runNode(
+      { ...call, operation: 'buildMultiAgent', secondarySignerAddresses: CO_SIGNER },
+      sender,
+    );
+    const [signed] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'signMultiAgent',
+        rawTransaction: built.rawTransaction,
+      },
+      { authMethod: 'privateKey', privateKey: CO_SIGNER_KEY },
+    );
+    const [submitted] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submitMultiAgent',
+        rawTransaction: built.rawTransaction,
+        secondaryAuthenticators: JSON.stringify([signed.authenticator]),
+      },
+      sender,
+    );
+
+    expect(built).toMatchObject({
+      sender: SENDER,
+      sequenceNumber: '0',
+      chainId: 4,
+      secondarySignerAddresses: [CO_SIGNER],
+    });
+    expect(signed).toMatchObject({
+      signer: CO_SIGNER,
+      authenticator: expect.stringMatching(/^0x/),
+    });
+    expect(server.submitted).toContain(submitted.hash);
+    expect(submitted).toMatchObject({ success: true, secondarySignerAddresses: [CO_SIGNER] });
+  });
+
+  it('should refuse to submit a multi-agent transaction without every authenticator', async () => {
+    const [built] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'buildMultiAgent',
+        function: SETTLE_FUNCTION,
+        typeArguments: '',
+        functionArguments: '["1000"]',
+        secondarySignerAddresses: CO_SIGNER,
+        gasOptions: {},
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+
+    await expect(
+      runNode(
+        {
+          resource: 'transaction',
+          operation: 'submitMultiAgent',
+          rawTransaction: built.rawTransaction,
+        },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      ),
+    ).rejects.toThrow(`Missing authenticator for secondary signer ${CO_SIGNER}`);
+  });
+
+  it('should build a sponsored transaction and submit it with the sponsor signature', async () => {
+    const [built] = await runNode(
+      {
+        resource: 'sponsoredTx',
+        operation: 'build',
+        function: SETTLE_FUNCTION,
+        typeArguments: '',
+        functionArguments: '["1000"]',
+        gasOptions: { maxGasAmount: 2000, gasUnitPrice: 100 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+    const sponsor = (sponsorOptions: IDataObject) =>
+      runNode(
+        {
+          resource: 'sponsoredTx',
+          operation: 'sponsor',
+          rawTransaction: built.rawTransaction,
+          senderAuthenticator: built.senderAuthenticator,
+          sponsorOptions,
+        },
+        { authMethod: 'privateKey', privateKey: CO_SIGNER_KEY },
+      );
+
+    await expect(sponsor({ allowedFunctions: '0x1::aptos_account::transfer' })).rejects.toThrow(
+      'not in Allowed Functions',
+    );
+    await expect(sponsor({ maxGasFee: 100000 })).rejects.toThrow('above Max Gas Fee 100000');
+    const [sponsored] = await sponsor({ allowedFunctions: SETTLE_FUNCTION, maxGasFee: 200000 });
+
+    expect(built).toMatchObject({
+      sender: SENDER,
+      function: SETTLE_FUNCTION,
+      feePayerAddress: '0x0',
+      senderAuthenticator: expect.stringMatching(/^0x/),
+    });
+    expect(server.submitted).toContain(sponsored.hash);
+    expect(sponsored).toMatchObject({ success: true, sender: SENDER, feePayerAddress: CO_SIGNER });
+  });
+
+  it('should build, sign and submit a raw transaction in separate steps', async () => {
+    const [built] = await runNode({
+      resource: 'transaction',
+      operation: 'buildRaw',
+      senderAddress: SENDER,
+      function: SETTLE_FUNCTION,
+      typeArguments: '',
+      functionArguments: '["1000"]',
+      gasOptions: { expiresInSecs: 600 },
+    });
+    const sign = (privateKey: string) =>
+      runNode(
+        { resource: 'transaction', operation: 'signRaw', rawTransaction: built.rawTransaction },
+        { authMethod: 'privateKey', privateKey },
+      );
+
+    await expect(sign(CO_SIGNER_KEY)).rejects.toThrow(`is not the sender ${SENDER}`);
+    const [signed] = await sign(PRIVATE_KEY);
+    const [submitted] = await runNode({
+      resource: 'transaction',
+      operation: 'submitSigned',
+      signedTransaction: signed.signedTransaction,
+    });
+
+    const details = {
+      sender: SENDER,
+      sequenceNumber: '0',
+      chainId: 4,
+      expirationTimestampSecs: built.expirationTimestampSecs,
+    };
+    expect(built).toMatchObject({ ...details, signingMessage: expect.stringMatching(/^0x/) });
+    expect(Number(built.expirationTimestampSecs)).toBeGreaterThan(Date.now() / 1000 + 500);
+    expect(signed).toMatchObject(details);
+    expect(submitted).toMatchObject({ ...details, hash: signed.hash, success: true });
+    expect(server.submitted).toContain(signed.hash);
+  });
+
+  it('should keep nested generic type arguments whole when building a transaction', async () => {
+    const router = `0x${'cafe'.padStart(64, '0')}`;
+    server.use('fullnode', {
+      method: 'GET',
+      path: `/accounts/${router}/module/router`,
+      times: 1,
+      response: {
+        bytecode: '0x',
+        abi: {
+          address: router,
+          name: 'router',
+          friends: [],
+          exposed_functions: [
+            {
+              name: 'swap',
+              visibility: 'public',
+              is_entry: true,
+              is_view: false,
+              generic_type_params: [{ constraints: [] }, { constraints: [] }],
+              params: ['&signer', 'u64'],
+              return: [],
+            },
+          ],
+          structs: [],
+        },
+      },
+    });
+
+    const [built] = await runNode({
+      resource: 'transaction',
+      operation: 'buildRaw',
+      senderAddress: SENDER,
+      function: `${router}::router::swap`,
+      typeArguments:
+        '0xabc::lp::LP<0x1::aptos_coin::AptosCoin, 0xdef::usdc::USDC>, 0x1::aptos_coin::AptosCoin',
+      functionArguments: '["1000"]',
+      gasOptions: {},
+    });
+
+    const transaction = SimpleTransaction.deserialize(
+      new Deserializer(Hex.fromHexInput(built.rawTransaction as string).toUint8Array()),
+    );
+    const payload = transaction.rawTransaction.payload as TransactionPayloadEntryFunction;
+    expect(payload.entryFunction.type_args.map((typeArg) => typeArg.toString())).toEqual([
+      `0x${'abc'.padStart(64, '0')}::lp::LP<0x1::aptos_coin::AptosCoin, 0x${'def'.padStart(64, '0')}::usdc::USDC>`,
+      '0x1::aptos_coin::AptosCoin',
+    ]);
+  });
+
+  describe('key schemes', () => {
+    const OWNER_KEYS = ['33', '44', '55'].map(
+      (byte) => new Ed25519PrivateKey(`0x${byte.repeat(32)}`),
+    );
+    const MULTI_PUBLIC_KEY = new MultiEd25519PublicKey({
+      publicKeys: OWNER_KEYS.map((key) => key.publicKey()),
+      threshold: 2,
+    });
+    const MULTI_ADDRESS = MULTI_PUBLIC_KEY.authKey().derivedAddress().toString();
+    const MULTI_CREDENTIALS = {
+      authMethod: 'privateKey',
+      keyScheme: 'multiEd25519',
+      multiPublicKeys: OWNER_KEYS.map((key) => key.publicKey().toString()).join('\n'),
+      threshold: 2,
+      multiPrivateKeys: `${OWNER_KEYS[2].toString()}, ${OWNER_KEYS[0].toString()}`,
+      expectedAddress: MULTI_ADDRESS,
+    };
+
+    /**
+     * Build a transaction from the credential's account, sign it and check the signature
+     */
+    async function buildAndSign(credentials: Record<string, unknown>) {
+      const [built] = await runNode(
+        {
+          resource: 'transaction',
+          operation: 'buildRaw',
+          function: '0x1::aptos_account::transfer',
+          typeArguments: '',
+          functionArguments: JSON.stringify([RECIPIENT, '1']),
+          gasOptions: {},
+        },
+        credentials,
+      );
+      const [signed] = await runNode(
+        { resource: 'transaction', operation: 'signRaw', rawTransaction: built.rawTransaction },
+        credentials,
+      );
+      const authenticator = AccountAuthenticator.deserialize(
+        new Deserializer(Hex.fromHexInput(signed.authenticator as string).toUint8Array()),
+      ) as AccountAuthenticator & { public_key: PublicKey; signature: Signature };
+      const verified = authenticator.public_key.verifySignature({
+        message: built.signingMessage as string,
+        signature: authenticator.signature,
+      });
+      return { sender: built.sender, authenticator, verified };
+    }
+
+    it('should sign with a secp256k1 key under the SingleKey scheme', async () => {
+      const privateKey = new Secp256k1PrivateKey(`0x${'66'.repeat(32)}`);
+      const result = await buildAndSign({
+        authMethod: 'privateKey',
+        keyScheme: 'secp256k1',
+        privateKey: privateKey.toString(),
+      });
+
+      expect(result.sender).toBe(Account.fromPrivateKey({ privateKey }).accountAddress.toString());
+      expect(result.authenticator.isSingleKey()).toBe(true);
+      expect(result.verified).toBe(true);
+    });
+
+    it('should sign as a 2-of-3 MultiEd25519 account and simulate for it', async () => {
+      server.use('fullnode', {
+        method: 'POST',
+        path: '/transactions/simulate',
+        times: 1,
+        response: [
+          {
+            success: true,
+            vm_status: 'Executed successfully',
+            gas_used: '9',
+            gas_unit_price: '100',
+            max_gas_amount: '200000',
+          },
+        ],
+      });
+
+      const result = await buildAndSign(MULTI_CREDENTIALS);
+      const [simulation] = await runNode(
+        {
+          resource: 'transaction',
+          operation: 'simulate',
+          function: '0x1::aptos_account::transfer',
+          typeArguments: '',
+          functionArguments: JSON.stringify([RECIPIENT, '1']),
+        },
+        MULTI_CREDENTIALS,
+      );
+
+      expect(result.sender).toBe(MULTI_ADDRESS);
+      expect(result.authenticator.isMultiEd25519()).toBe(true);
+      expect(result.verified).toBe(true);
+      expect(simulation).toMatchObject({ success: true, gasUsed: '9' });
+    });
+
+    it('should refuse keys that derive another address than the expected one', async () => {
+      await expect(
+        runNode(
+          { resource: 'account', operation: 'get', address: SENDER },
+          {
+            authMethod: 'privateKey',
+            privateKey: PRIVATE_KEY,
+            keyScheme: 'ed25519SingleKey',
+            expectedAddress: SENDER,
+          },
+        ),
+      ).rejects.toThrow(`not the expected address ${SENDER}`);
+      await expect(
+        runNode(
+          { resource: 'account', operation: 'get', address: SENDER },
+          {
+            ...MULTI_CREDENTIALS,
+            multiPrivateKeys: `${OWNER_KEYS[0].toString()}, ${CO_SIGNER_KEY}`,
+          },
+        ),
+      ).rejects.toThrow('Signer private key 2 does not belong to any of the 3 public keys');
+    });
+
+    it('should rotate the authentication key and sign for the address with the new key', async () => {
+      const newKey = new Ed25519PrivateKey(`0x${'77'.repeat(32)}`);
+      const newAuthKey = newKey.publicKey().authKey().toString();
+      const submittedBefore = server.submitted.size;
+      server.use(
+        'fullnode',
+        {
+          method: 'GET',
+          path: '/accounts/:address',
+          times: 2,
+          response: { sequence_number: '0', authentication_key: SENDER },
+        },
+        {
+          method: 'GET',
+          path: '/accounts/:address',
+          times: 1,
+          response: { sequence_number: '1', authentication_key: newAuthKey },
+        },
+      );
+
+      const [rotation] = await runNode(
+        { resource: 'account', operation: 'rotateAuthKey', newPrivateKey: newKey.toString() },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      );
+      const rotated = await buildAndSign({
+        authMethod: 'privateKey',
+        privateKey: newKey.toString(),
+        accountAddress: SENDER,
+      });
+
+      expect(server.submitted.size).toBe(submittedBefore + 1);
+      expect(rotation).toMatchObject({
+        success: true,
+        address: SENDER,
+        previousAuthKey: SENDER,
+        newAuthKey,
+        onChainAuthKey: newAuthKey,
+        verified: true,
+        controllingKey: 'new',
+      });
+      expect(rotated.sender).toBe(SENDER);
+      expect(rotated.verified).toBe(true);
+    });
+
+    it('should refuse to rotate a key the credential does not control', async () => {
+      server.use('fullnode', {
+        method: 'GET',
+        path: '/accounts/:address',
+        times: 1,
+        response: { sequence_number: '0', authentication_key: RECIPIENT },
+      });
+
+      await expect(
+        runNode(
+          {
+            resource: 'account',
+            operation: 'rotateAuthKey',
+            newPrivateKey: `0x${'77'.repeat(32)}`,
+          },
+          { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+        ),
+      ).rejects.toThrow(`The credential's key does not control ${SENDER}`);
+    });
+  });
+
+  it('should decode a BCS value with struct layouts from the module ABI', async () => {
+    const receiptModule = `/accounts/0x${'cafe'.padStart(64, '0')}/module/receipts`;
+    server.use('fullnode', {
+      method: 'GET',
+      path: receiptModule,
+      times: 1,
+      response: {
+        bytecode: '0x',
+        abi: {
+          address: `0x${'cafe'.padStart(64, '0')}`,
+          name: 'receipts',
+          friends: [],
+          exposed_functions: [],
+          structs: [
+            {
+              name: 'Receipt',
+              is_native: false,
+              abilities: ['drop', 'store'],
+              generic_type_params: [],
+              fields: [
+                { name: 'amount', type: 'u64' },
+                { name: 'memo', type: '0x1::option::Option<0x1::string::String>' },
+                { name: 'pool', type: '0x1::object::Object<0x1::fungible_asset::Metadata>' },
+              ],
+            },
+          ],
+        },
+      },
+    });
+    server.requests.length = 0;
+    const bytes = Buffer.concat([
+      Buffer.from('e803000000000000', 'hex'),
+      Buffer.from([1, 2]),
+      Buffer.from('ok'),
+      Buffer.from('0a'.padStart(64, '0'), 'hex'),
+    ]);
+
+    const [result] = await runNode({
+      resource: 'utility',
+      operation: 'decodeBcs',
+      moveType: `0x${'cafe'.padStart(64, '0')}::receipts::Receipt`,
+      bcsHex: `0x${bytes.toString('hex')}`,
+    });
+
+    expect(result).toMatchObject({
+      type: `0x${'cafe'.padStart(64, '0')}::receipts::Receipt`,
+      value: {
+        amount: '1000',
+        memo: { vec: ['ok'] },
+        pool: { inner: `0x${'a'.padStart(64, '0')}` },
+      },
+    });
+    expect(server.requests.map((request) => request.path)).toEqual([receiptModule]);
+  });
+
+  it('should decode transactions read as BCS with the entry function ABI', async () => {
+    const account = Account.fromPrivateKey({
+      privateKey: new Ed25519PrivateKey(`0x${'11'.repeat(32)}`),
+    });
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        account.accountAddress,
+        BigInt(3),
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build(
+            '0x1::aptos_account',
+            'transfer',
+            [],
+            [AccountAddress.from(RECIPIENT), new U64(1000)],
+          ),
+        ),
+        BigInt(2000),
+        BigInt(100),
+        BigInt(1760000000),
+        new ChainId(4),
+      ),
+    );
+    const signed = generateSignedTransaction({
+      transaction,
+      senderAuthenticator: account.signTransactionWithAuthenticator(transaction),
+    });
+    const hash = `0x${'ab'.repeat(32)}`;
+    // TransactionData::OnChain up to the transaction hash, then the rest of the info
+    const onChain = (version: number, writeStatus: (serializer: Serializer) => void) => {
+      const serializer = new Serializer();
+      serializer.serializeU32AsUleb128(0);
+      serializer.serializeU64(version);
+      serializer.serializeU32AsUleb128(0);
+      serializer.serializeFixedBytes(signed);
+      serializer.serializeU32AsUleb128(0);
+      serializer.serializeU64(7);
+      writeStatus(serializer);
+      serializer.serializeFixedBytes(Hex.fromHexInput(hash).toUint8Array());
+      serializer.serializeFixedBytes(new Uint8Array(64));
+      return Hex.fromHexInput(serializer.toUint8Array()).toString();
+    };
+    const aborted = onChain(43, (serializer) => {
+      serializer.serializeU32AsUleb128(2);
+      serializer.serializeU32AsUleb128(0);
+      serializer.serializeFixedBytes(AccountAddress.ONE.toUint8Array());
+      serializer.serializeStr('coin');
+      serializer.serializeU64(0x10006);
+      serializer.serializeU32AsUleb128(1);
+      serializer.serializeStr('EINSUFFICIENT_BALANCE');
+      serializer.serializeStr('Not enough coins');
+    });
+    server.use(
+      'fullnode',
+      {
+        method: 'GET',
+        path: `/transactions/by_hash/${hash}`,
+        responseHex: onChain(42, (serializer) => serializer.serializeU32AsUleb128(0)),
+      },
+      { method: 'GET', path: '/transactions/by_version/43', responseHex: aborted },
+    );
+
+    const [committed] = await runNode({
+      resource: 'transaction',
+      operation: 'getByHash',
+      transactionHash: hash,
+      encoding: 'bcs',
+    });
+    const [failed] = await runNode({
+      resource: 'transaction',
+      operation: 'getByVersion',
+      ledgerVersion: 43,
+      encoding: 'bcs',
+    });
+
+    expect(committed).toMatchObject({
+      hash,
+      state: 'committed',
+      type: 'user_transaction',
+      version: '42',
+      success: true,
+      vmStatus: 'Executed successfully',
+      gasUsed: '7',
+      sender: SENDER,
+      sequenceNumber: '3',
+      payload: {
+        function: '0x1::aptos_account::transfer',
+        typeArguments: [],
+        arguments: [RECIPIENT, '1000'],
+        argumentsBcs: [RECIPIENT, '0xe803000000000000'],
+      },
+      encoding: 'bcs',
+    });
+    expect(failed).toMatchObject({
+      hash,
+      version: '43',
+      success: false,
+      vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins',
+    });
+  });
+
+  describe('view functions', () => {
+    const CAFE = `0x${'cafe'.padStart(64, '0')}`;
+    // The SDK memoizes module ABIs, so each test serves its own module
+    const poolsModule = (name: string) => ({
+      path: `/accounts/${CAFE}/module/${name}`,
+      reserves: `${CAFE}::${name}::reserves`,
+      fixture: {
+        method: 'GET',
+        path: `/accounts/${CAFE}/module/${name}`,
+        times: 1,
+        response: {
+          bytecode: '0x',
+          abi: {
+            address: CAFE,
+            name,
+            friends: [],
+            exposed_functions: [
+              {
+                name: 'reserves',
+                visibility: 'public',
+                is_entry: false,
+                is_view: true,
+                generic_type_params: [{ constraints: [] }],
+                params: ['address'],
+                return: [
+                  'u64',
+                  '0x1::option::Option<0x1::string::String>',
+                  `${CAFE}::${name}::Pool<T0>`,
+                ],
+              },
+            ],
+            structs: [
+              {
+                name: 'Pool',
+                is_native: false,
+                abilities: ['store'],
+                generic_type_params: [{ constraints: [] }],
+                fields: [
+                  { name: 'owner', type: 'address' },
+                  { name: 'fee_bps', type: 'u16' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    });
+    // vector<vector<u8>> with a u64, an Option<String> and a Pool
+    const reservesHex = [
+      '03',
+      '08e803000000000000',
+      '04' + '01026f6b',
+      '22' + '0a'.padStart(64, '0') + '1e00',
+    ].join('');
+    const pool = { owner: `0x${'a'.padStart(64, '0')}`, fee_bps: 30 };
+
+    it('should decode return values into named outputs', async () => {
+      const { fixture, reserves } = poolsModule('pools');
+      server.use('fullnode', fixture, {
+        method: 'POST',
+        path: '/view',
+        query: { ledger_version: '42' },
+        body: { function: reserves },
+        responseHex: reservesHex,
+      });
+      server.requests.length = 0;
+
+      const [result] = await runNode({
+        resource: 'moveView',
+        operation: 'call',
+        function: reserves,
+        typeArguments: '0x01::aptos_coin::AptosCoin',
+        functionArguments: JSON.stringify(['0xa']),
+        ledgerVersion: '42',
+        outputNames: 'reserve, memo',
+      });
+
+      expect(result).toMatchObject({
+        function: reserves,
+        typeArguments: ['0x1::aptos_coin::AptosCoin'],
+        ledgerVersion: '42',
+        returnTypes: [
+          'u64',
+          '0x1::option::Option<0x1::string::String>',
+          `${CAFE}::pools::Pool<0x1::aptos_coin::AptosCoin>`,
+        ],
+        outputs: { reserve: '1000', memo: { vec: ['ok'] }, value2: pool },
+      });
+      const view = server.requests.find((request) => request.path === '/view');
+      expect(view?.body).toMatchObject({
+        type_arguments: ['0x1::aptos_coin::AptosCoin'],
+        arguments: [`0x${'a'.padStart(64, '0')}`],
+      });
+    });
+
+    it('should fetch the ABI once for a batch and report failing items alone', async () => {
+      const { fixture, path, reserves } = poolsModule('vaults');
+      server.use('fullnode', fixture, {
+        method: 'POST',
+        path: '/view',
+        body: { function: reserves },
+        responseHex: reservesHex,
+      });
+      server.requests.length = 0;
+
+      const results = await runNode(
+        {
+          resource: 'moveView',
+          operation: 'callBatch',
+          function: reserves,
+          typeArguments: '0x1::aptos_coin::AptosCoin',
+          functionArguments: [JSON.stringify(['0xa']), JSON.stringify(['bob']), '["0xb"'],
+        },
+        {},
+        3,
+      );
+
+      expect(results[0]).toMatchObject({ outputs: { value0: '1000', value2: pool } });
+      expect(results[1].error).toContain('Argument 0 of ' + reserves + ' must be address');
+      expect(results[2].error).toContain('Function Arguments:');
+      expect(server.requests.filter((request) => request.path === path)).toHaveLength(1);
+      expect(server.requests.filter((request) => request.path === '/view')).toHaveLength(1);
+    });
+  });
+
+  it('should check function arguments against the ABI before submitting', async () => {
+    const submittedBefore = server.submitted.size;
+
+    await expect(
+      runNode(
+        {
+          resource: 'transaction',
+          operation: 'submit',
+          function: '0x1::aptos_account::transfer',
+          typeArguments: '',
+          functionArguments: JSON.stringify([RECIPIENT, '1.5']),
+          gasOptions: {},
+        },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      ),
+    ).rejects.toThrow(
+      'Argument 1 of 0x1::aptos_account::transfer must be u64: expected an unsigned integer, got "1.5"',
+    );
+    await expect(
+      runNode(
+        {
+          resource: 'transaction',
+          operation: 'simulate',
+          function: '0x1::aptos_account::transfer',
+          typeArguments: '0x1::aptos_coin::AptosCoin',
+          functionArguments: JSON.stringify([RECIPIENT, '1']),
+        },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      ),
+    ).rejects.toThrow('0x1::aptos_account::transfer takes 0 type arguments, got 1');
+    expect(server.submitted.size).toBe(submittedBefore);
+  });
+
+  it('should submit a compiled script with typed arguments', async () => {
+    const submittedBefore = server.submitted.size;
+    const [result] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submit',
+        payloadType: 'script',
+        scriptInput: 'hex',
+        scriptBytecode: '0xa11ceb0b0700000a',
+        typeArguments: '0x1::aptos_coin::AptosCoin',
+        scriptArguments: JSON.stringify([
+          { type: 'address', value: RECIPIENT },
+          { type: 'u64', value: '2500' },
+        ]),
+        gasOptions: {},
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+
+    expect(server.submitted.size).toBe(submittedBefore + 1);
+    expect(result).toMatchObject({ state: 'committed', success: true, gasBumps: 0 });
+  });
+
+  it('should submit a batch with local sequence numbers and resync after a stale one', async () => {
+    server.use(
+      'fullnode',
+      {
+        method: 'GET',
+        path: '/accounts/:address',
+        times: 1,
+        response: { sequence_number: '0', authentication_key: '{{address}}' },
+      },
+      {
+        method: 'GET',
+        path: '/accounts/:address',
+        times: 1,
+        response: { sequence_number: '1', authentication_key: '{{address}}' },
+      },
+      {
+        method: 'POST',
+        path: '/transactions',
+        times: 1,
+        status: 400,
+        response: {
+          message: 'Invalid transaction: Type: Validation Code: SEQUENCE_NUMBER_TOO_OLD',
+          error_code: 'vm_error',
+          vm_error_code: 3,
+        },
+      },
+    );
+    server.requests.length = 0;
+    const submittedBefore = server.submitted.size;
+
+    const results = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submitBatch',
+        function: '0x1::aptos_account::transfer',
+        typeArguments: '',
+        functionArguments: [
+          `["${RECIPIENT}", "1"]`,
+          `["${RECIPIENT}", "2"]`,
+          `["${RECIPIENT}", "3"]`,
+        ],
+        gasOptions: { gasUnitPrice: 100 },
+        batchOptions: { concurrency: 1 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      3,
+    );
+
+    expect(results).toHaveLength(3);
+    expect(results.map((result) => result.status)).toEqual(['committed', 'committed', 'committed']);
+    expect(results.map((result) => result.sequenceNumber)).toEqual(['1', '2', '3']);
+    expect(new Set(results.map((result) => result.hash)).size).toBe(3);
+    expect(server.submitted.size - submittedBefore).toBe(3);
+    const accountReads = server.requests.filter(
+      (request) => request.path === `/accounts/${SENDER}`,
+    );
+    expect(accountReads).toHaveLength(2);
+  });
+
+  it('should report batch items behind a rejected one as blocked without filling the gap', async () => {
+    server.use('fullnode', {
+      method: 'POST',
+      path: '/transactions',
+      times: 1,
+      status: 400,
+      response: {
+        message:
+          'Invalid transaction: Type: Validation Code: INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE',
+        error_code: 'vm_error',
+        vm_error_code: 5,
+      },
+    });
+    server.requests.length = 0;
+    const submittedBefore = server.submitted.size;
+
+    const results = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submitBatch',
+        function: '0x1::aptos_account::transfer',
+        typeArguments: '',
+        functionArguments: [
+          `["${RECIPIENT}", "1"]`,
+          `["${RECIPIENT}", "2"]`,
+          `["${RECIPIENT}", "3"]`,
+        ],
+        gasOptions: { gasUnitPrice: 100 },
+        batchOptions: { concurrency: 3 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      3,
+    );
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'blocked', 'blocked']);
+    expect(results[0].error).toContain('INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE');
+    expect(results.map((result) => result.sequenceNumber)).toEqual([undefined, '1', '2']);
+    expect(results[1].hash).toBeDefined();
+    expect(results[1].error).toContain('Waiting behind sequence number 0');
+    expect(server.submitted.size - submittedBefore).toBe(2);
+    expect(server.requests.filter((request) => request.method === 'POST')).toHaveLength(3);
+    expect(
+      server.requests.filter((request) => request.path === `/accounts/${SENDER}`),
+    ).toHaveLength(2);
+  });
+
+  it('should report batch items with bad arguments as invalid and submit the others', async () => {
+    const payouts = `0x${'cafe'.padStart(64, '0')}::payouts::pay`;
+    server.use('fullnode', {
+      method: 'GET',
+      path: `/accounts/0x${'cafe'.padStart(64, '0')}/module/payouts`,
+      response: {
+        bytecode: '0x',
+        abi: {
+          address: `0x${'cafe'.padStart(64, '0')}`,
+          name: 'payouts',
+          friends: [],
+          exposed_functions: [
+            {
+              name: 'pay',
+              visibility: 'public',
+              is_entry: true,
+              is_view: false,
+              generic_type_params: [],
+              params: ['&signer', 'address', 'u64'],
+              return: [],
+            },
+          ],
+          structs: [],
+        },
+      },
+    });
+    server.requests.length = 0;
+    const submittedBefore = server.submitted.size;
+
+    const results = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submitBatch',
+        function: payouts,
+        typeArguments: '',
+        functionArguments: [
+          `["${RECIPIENT}", "6"]`,
+          `["${RECIPIENT}", "1.5"]`,
+          `["${RECIPIENT}"`,
+          `["${RECIPIENT}", "7"]`,
+        ],
+        gasOptions: { gasUnitPrice: 100 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      4,
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      'committed',
+      'invalid',
+      'invalid',
+      'committed',
+    ]);
+    expect(results[1].function).toBe(payouts);
+    expect(results[1].error).toContain(
+      `Argument 1 of ${payouts} must be u64: expected an unsigned integer, got "1.5"`,
+    );
+    expect(results[2].error).toBeDefined();
+    expect(server.submitted.size - submittedBefore).toBe(2);
+    const abiReads = server.requests.filter((request) => request.path.endsWith('/module/payouts'));
+    expect(abiReads).toHaveLength(1);
+  });
+
+  it('should pay every valid row of a batch transfer and report the invalid ones', async () => {
+    const submittedBefore = server.submitted.size;
+
+    const results = await runNode(
+      {
+        resource: 'transfer',
+        operation: 'batchTransfer',
+        recipientAddress: [RECIPIENT, 'not-an-address', CO_SIGNER],
+        amount: ['1000', '2000', 3000],
+        asset: '0x1::aptos_coin::AptosCoin',
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+      3,
+    );
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({
+      recipient: RECIPIENT,
+      amount: '1000',
+      status: 'committed',
+      retryable: false,
+    });
+    expect(results[1]).toMatchObject({
+      status: 'invalid',
+      error: 'Invalid address: not-an-address',
+      retryable: true,
+    });
+    expect(results[1].hash).toBeUndefined();
+    expect(results[2]).toMatchObject({ recipient: CO_SIGNER, amount: '3000', status: 'committed' });
+    expect(server.submitted.size - submittedBefore).toBe(2);
+  });
+
+  it('should refuse a batch transfer that sends more than the balance', async () => {
+    const submittedBefore = server.submitted.size;
+
+    await expect(
+      runNode(
+        {
+          resource: 'transfer',
+          operation: 'batchTransfer',
+          recipientAddress: [RECIPIENT, CO_SIGNER],
+          amount: ['200000000', '100000000'],
+          asset: '0x1::aptos_coin::AptosCoin',
+        },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+        2,
+      ),
+    ).rejects.toThrow(
+      'Insufficient balance of 0x1::aptos_coin::AptosCoin: the batch sends 300000000 plus up to 40000000 in gas',
+    );
+    expect(server.submitted.size).toBe(submittedBefore);
+  });
+
+  it('should count gas in the balance check and not read a failed balance as 0', async () => {
+    const submittedBefore = server.submitted.size;
+    const batchTransfer = (amount: string) =>
+      runNode(
+        {
+          resource: 'transfer',
+          operation: 'batchTransfer',
+          recipientAddress: [RECIPIENT, CO_SIGNER],
+          amount: [amount, amount],
+          asset: '0x1::aptos_coin::AptosCoin',
+          batchOptions: { maxGasAmount: 1000 },
+        },
+        { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+        2,
+      );
+
+    await expect(batchTransfer('124950000')).rejects.toThrow(
+      'the batch sends 249900000 plus up to 200000 in gas but',
+    );
+    server.use('fullnode', {
+      method: 'POST',
+      path: '/view',
+      body: { function: '0x1::coin::balance' },
+      times: 1,
+      status: 400,
+      response: { message: 'Invalid request', error_code: 'invalid_input' },
+    });
+    const failedRead = batchTransfer('1');
+    await expect(failedRead).rejects.toThrow('Invalid request');
+    await expect(failedRead).rejects.not.toThrow('holds 0');
+    expect(server.submitted.size).toBe(submittedBefore);
+  });
+
+  it('should resend an expired transaction with a higher gas price up to the ceiling', async () => {
+    const submittedBefore = server.submitted.size;
+    server.use(
+      'fullnode',
+      {
+        method: 'GET',
+        path: '/',
+        times: 3,
+        response: {
+          chain_id: 4,
+          epoch: '2',
+          ledger_version: '1300',
+          oldest_ledger_version: '0',
+          ledger_timestamp: `${(Math.floor(Date.now() / 1000) + 3600) * 1000000}`,
+          node_role: 'validator',
+          oldest_block_height: '0',
+          block_height: '520',
+        },
+      },
+      {
+        method: 'GET',
+        path: '/transactions/by_hash/:hash',
+        times: 2,
+        status: 404,
+        response: { message: 'Transaction not found', error_code: 'transaction_not_found' },
+      },
+    );
+
+    const [result] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submit',
+        function: '0x1::aptos_account::transfer',
+        typeArguments: '',
+        functionArguments: JSON.stringify([RECIPIENT, '4321']),
+        gasOptions: {},
+        waitOptions: { maxGasUnitPrice: 150, timeoutSecs: 5 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+
+    const [original, resent] = [...server.submitted].slice(submittedBefore);
+    expect(result).toMatchObject({
+      state: 'committed',
+      hash: original,
+      replacementHash: resent,
+      gasBumps: 1,
+      gasUnitPrice: '120',
+      success: true,
+    });
+  });
+
+  it('should report the result of a resent transaction that aborted', async () => {
+    const submittedBefore = server.submitted.size;
+    server.use(
+      'fullnode',
+      {
+        method: 'GET',
+        path: '/',
+        times: 3,
+        response: {
+          chain_id: 4,
+          epoch: '2',
+          ledger_version: '1300',
+          oldest_ledger_version: '0',
+          ledger_timestamp: `${(Math.floor(Date.now() / 1000) + 3600) * 1000000}`,
+          node_role: 'validator',
+          oldest_block_height: '0',
+          block_height: '520',
+        },
+      },
+      {
+        method: 'GET',
+        path: '/transactions/by_hash/:hash',
+        times: 2,
+        status: 404,
+        response: { message: 'Transaction not found', error_code: 'transaction_not_found' },
+      },
+      {
+        method: 'GET',
+        path: '/transactions/by_hash/:hash',
+        submitted: true,
+        times: 1,
+        response: {
+          type: 'user_transaction',
+          version: '1301',
+          hash: '{{hash}}',
+          gas_used: '9',
+          success: false,
+          vm_status: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)',
+        },
+      },
+    );
+
+    const [result] = await runNode(
+      {
+        resource: 'transaction',
+        operation: 'submit',
+        function: '0x1::aptos_account::transfer',
+        typeArguments: '',
+        functionArguments: JSON.stringify([RECIPIENT, '4322']),
+        gasOptions: {},
+        waitOptions: { maxGasUnitPrice: 150, timeoutSecs: 5 },
+      },
+      { authMethod: 'privateKey', privateKey: PRIVATE_KEY },
+    );
+
+    const [original, resent] = [...server.submitted].slice(submittedBefore);
+    expect(result).toMatchObject({
+      state: 'failed',
+      hash: original,
+      replacementHash: resent,
+      gasBumps: 1,
+      gasUnitPrice: '120',
+      success: false,
+      vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)',
+    });
+  });
+
+  it('should report a transaction that was never committed before its expiry as expired', async () => {
+    const hash = `0x${'cd'.repeat(32)}`;
+    server.use('fullnode', {
+      method: 'GET',
+      path: `/transactions/by_hash/${hash}`,
+      response: {
+        type: 'pending_transaction',
+        hash,
+        sender: SENDER,
+        sequence_number: '3',
+        max_gas_amount: '200000',
+        gas_unit_price: '100',
+        expiration_timestamp_secs: '1759999990',
+      },
+    });
+
+    const [result] = await runNode({
+      resource: 'transaction',
+      operation: 'wait',
+      transactionHash: hash,
+    });
+
+    expect(result).toMatchObject({
+      state: 'expired',
+      hash,
+      sequenceNumber: '3',
+      expirationTimestampSecs: '1759999990',
+      gasBumps: 0,
+    });
+  });
+
+  it('should report transactions that were never submitted as missing', async () => {
+    const hash = `0x${'ab'.repeat(32)}`;
+
+    await expect(
+      runNode({ resource: 'transaction', operation: 'getByHash', transactionHash: hash }),
+    ).rejects.toThrow('Transaction not found');
+  });
+
+  it('should fund an account through the faucet', async () => {
+    const [result] = await runNode({
+      resource: 'faucet',
+      operation: 'fundAccount',
+      address: RECIPIENT,
+      amount: 100000000,
+    });
+
+    expect(result).toMatchObject({ success: true, address: RECIPIENT, amount: 100000000 });
+    expect(server.requests).toContainEqual(
+      expect.objectContaining({
+        service: 'faucet',
+        path: '/mint',
+        query: { address: RECIPIENT, amount: '100000000' },
+      }),
+    );
+  });
+
+  it('should answer indexer queries by operation name', async () => {
+    const indexer = createIndexerClientWrapper(server.getCredentials());
+
+    const result = await indexer.getAccountCoins(RECIPIENT);
+
+    expect(result).toMatchObject({
+      current_fungible_asset_balances: [
+        { amount: 250000000, asset_type: '0x1::aptos_coin::AptosCoin' },
+      ],
+    });
+  });
+
+  it('should count indexer retries with the fullnode client retries', async () => {
+    const client = createAptosClientWrapper(server.getCredentials(), {
+      maxRetries: 1,
+      retryBaseDelay: 0,
+    });
+    const indexer = client.createIndexerClient(server.getCredentials());
+    server.use('indexer', {
+      method: 'POST',
+      path: '/graphql',
+      body: { operationName: 'GetAccountCoins' },
+      status: 503,
+      times: 1,
+      response: { errors: [{ message: 'unavailable' }] },
+    });
+
+    await indexer.getAccountCoins(RECIPIENT);
+
+    expect(client.retryCounter.retries).toBe(1);
+  });
+
+  it('should fire the trigger on new blocks and balance changes', async () => {
+    const trigger = new AptosTrigger();
+    const poll = async (params: Record<string, unknown>, staticData: IDataObject) => {
+      const pollFns = {
+        getCredentials: async () => server.getCredentials(),
+        getNodeParameter: (name: string) => params[name],
+        getWorkflowStaticData: () => staticData,
+      };
+      return trigger.poll.call(pollFns as unknown as IPollFunctions);
+    };
+
+    const blockState: IDataObject = {};
+    const blocks = await poll({ triggerType: 'newBlock' }, blockState);
+    const balanceState: IDataObject = { lastBalance: '300000000' };
+    const balances = await poll(
+      { triggerType: 'balanceChanged', accountAddress: SENDER },
+      balanceState,
+    );
+
+    expect(blocks![0][0].json).toMatchObject({ ledgerVersion: '1200', chainId: 4 });
+    expect(blockState.lastVersion).toBe(1200);
+    expect(await poll({ triggerType: 'newBlock' }, blockState)).toBeNull();
+    expect(balances![0][0].json).toMatchObject({
+      currentBalance: '250000000',
+      change: '-50000000',
+    });
+  });
+
+  it('should record responses for requests without a fixture', async () => {
+    const fixtureDir = mkdtempSync(join(tmpdir(), 'aptos-fixtures-'));
+    for (const service of MOCK_SERVICES) {
+      writeFileSync(join(fixtureDir, `${service}.json`), '[]');
+    }
+    const recorder = new MockAptosServer({
+      fixtureDir,
+      record: true,
+      upstream: { fullnode: `${server.url}/fullnode/v1` },
+    });
+    await recorder.start();
+
+    try {
+      const client = createAptosClientWrapper(recorder.getCredentials());
+      await expect(client.getLedgerInfo()).resolves.toMatchObject({ chain_id: 4 });
+
+      const recorded = JSON.parse(readFileSync(join(fixtureDir, 'fullnode.json'), 'utf8'));
+      expect(recorded).toEqual([
+        expect.objectContaining({
+          method: 'GET',
+          path: '/',
+          response: expect.objectContaining({ chain_id: 4 }),
+        }),
+      ]);
+    } finally {
+      await recorder.stop();
+      rmSync(fixtureDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { Client, ClientRequest } from '@aptos-labs/ts-sdk';
+import { EndpointPool } from '../../nodes/Aptos/transport/endpointPool';
+import { DEFAULT_RETRY_POLICY } from '../../nodes/Aptos/transport/retry';
+import { getNodeUrls, NETWORKS } from '../../nodes/Aptos/constants/networks';
+
+const PRIMARY = 'https://node-a/v1';
+const SECONDARY = 'https://node-b/v1';
+
+type Responder = (
+  url: string,
+) => { status: number; data?: unknown; headers?: Record<string, string> } | Error;
+
+function mockClient(responder: Responder) {
+  const provider = jest.fn(async (request: ClientRequest<unknown>) => {
+    const result = responder(request.url);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return { statusText: '', data: {}, ...result };
+  });
+  return { client: { provider } as unknown as Client, provider };
+}
+
+function ledger(version: number) {
+  return { status: 200, data: { ledger_version: String(version) } };
+}
+
+describe('Endpoint Pool', () => {
+  it('should list the primary endpoint first without duplicates', () => {
+    expect(
+      getNodeUrls({ ...NETWORKS.mainnet, fallbackNodeUrls: [`${NETWORKS.mainnet.nodeUrl}/`] }),
+    ).toEqual([NETWORKS.mainnet.nodeUrl]);
+  });
+
+  it('should mark lagging endpoints as stale and prefer the fresh one', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY], { maxLedgerLag: 100 });
+    const { client } = mockClient((url) => (url.startsWith(PRIMARY) ? ledger(1000) : ledger(5000)));
+
+    const health = await pool.probe(client);
+
+    expect(health[0]).toMatchObject({
+      url: PRIMARY,
+      healthy: false,
+      stale: true,
+      ledgerVersion: 1000,
+    });
+    expect(health[1]).toMatchObject({ url: SECONDARY, healthy: true, stale: false });
+    expect(pool.getOrderedEndpoints()[0].url).toBe(SECONDARY);
+  });
+
+  it('should mark an endpoint stale once its responses fall behind', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY], { maxLedgerLag: 100 });
+    let primaryVersion = 5000;
+    const { client } = mockClient((url) => {
+      if (url === PRIMARY || url === SECONDARY) return ledger(5000);
+      const version = url.startsWith(PRIMARY) ? primaryVersion : 5000;
+      return { status: 200, data: {}, headers: { 'x-aptos-ledger-version': String(version) } };
+    });
+    const read = (endpoint: string) =>
+      pool.send(
+        client,
+        { url: `${endpoint}/accounts/0x1`, method: 'GET' },
+        'read',
+        DEFAULT_RETRY_POLICY,
+      );
+
+    await read(PRIMARY);
+    expect(pool.lastServed).toBe(PRIMARY);
+
+    primaryVersion = 4000;
+    await read(PRIMARY);
+    expect(pool.getHealth()[0]).toMatchObject({ stale: true, healthy: false, ledgerVersion: 4000 });
+    await read(PRIMARY);
+    expect(pool.lastServed).toBe(SECONDARY);
+  });
+
+  it('should probe the endpoints again after the probe interval', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY], { probeIntervalMs: 1000 });
+    const { client, provider } = mockClient((url) =>
+      url === PRIMARY || url === SECONDARY ? ledger(10) : { status: 200 },
+    );
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const read = () =>
+      pool.send(
+        client,
+        { url: `${PRIMARY}/accounts/0x1`, method: 'GET' },
+        'read',
+        DEFAULT_RETRY_POLICY,
+      );
+    const probes = () => provider.mock.calls.filter(([request]) => request.url === PRIMARY).length;
+
+    try {
+      await read();
+      await read();
+      expect(probes()).toBe(1);
+      now.mockReturnValue(1000);
+      await read();
+      expect(probes()).toBe(2);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should fail over reads and report the serving endpoint', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY]);
+    const { client, provider } = mockClient((url) => {
+      if (url === PRIMARY || url === SECONDARY) return ledger(10);
+      return url.startsWith(PRIMARY) ? { status: 503 } : { status: 200, data: { ok: true } };
+    });
+
+    const response = await pool.send(
+      client,
+      { url: `${PRIMARY}/accounts/0x1`, method: 'GET' },
+      'read',
+      DEFAULT_RETRY_POLICY,
+    );
+
+    expect(response.data).toEqual({ ok: true });
+    expect(pool.lastServed).toBe(SECONDARY);
+    expect(provider).toHaveBeenCalledWith(
+      expect.objectContaining({ url: `${SECONDARY}/accounts/0x1` }),
+    );
+  });
+
+  it('should not fail over a submission the node may have processed', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY]);
+    const { client, provider } = mockClient((url) => {
+      if (url === PRIMARY || url === SECONDARY) return ledger(10);
+      return { status: 500 };
+    });
+
+    const response = await pool.send(
+      client,
+      { url: `${PRIMARY}/transactions`, method: 'POST' },
+      'submit',
+      DEFAULT_RETRY_POLICY,
+    );
+
+    expect(response.status).toBe(500);
+    const submissions = provider.mock.calls.filter(([request]) =>
+      request.url.endsWith('/transactions'),
+    );
+    expect(submissions).toHaveLength(1);
+  });
+
+  it('should pass through requests for other services', async () => {
+    const pool = new EndpointPool([PRIMARY, SECONDARY]);
+    const { client, provider } = mockClient(() => ({ status: 200 }));
+
+    await pool.send(
+      client,
+      { url: 'https://indexer/v1/graphql', method: 'POST' },
+      'read',
+      DEFAULT_RETRY_POLICY,
+    );
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(pool.lastServed).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import {
+  IdempotencyRecord,
+  loadIdempotencyStore,
+} from '../../nodes/Aptos/transport/idempotencyStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function record(hash: string, submittedAt = Date.now()): IdempotencyRecord {
+  return {
+    hash,
+    sender: '0x1',
+    sequenceNumber: '0',
+    expirationTimestampSecs: '1760000020',
+    submittedAt,
+  };
+}
+
+describe('Idempotency Store', () => {
+  it('should write records straight to workflow static data per namespace', () => {
+    const staticData: IDataObject = {};
+
+    loadIdempotencyStore(staticData, 'https://mainnet').set('payout-1', record('0xaa'));
+    const testnet = loadIdempotencyStore(staticData, 'https://testnet');
+
+    expect(loadIdempotencyStore(staticData, 'https://mainnet').get('payout-1')?.hash).toBe('0xaa');
+    expect(testnet.get('payout-1')).toBeUndefined();
+  });
+
+  it('should forget records older than the retention period', () => {
+    const staticData: IDataObject = {};
+    const store = loadIdempotencyStore(staticData, 'node');
+    store.set('old', record('0x01', Date.now() - 8 * DAY_MS));
+    store.set('recent', record('0x02', Date.now() - DAY_MS));
+
+    const reloaded = loadIdempotencyStore(staticData, 'node', 7);
+
+    expect(reloaded.get('old')).toBeUndefined();
+    expect(reloaded.get('recent')?.hash).toBe('0x02');
+  });
+});
@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { LedgerInfo } from '@aptos-labs/ts-sdk';
+import {
+  AptosClientWrapper,
+  getNetworkFromCredentials,
+} from '../../nodes/Aptos/transport/aptosClient';
+
+function withChainId(client: AptosClientWrapper, chainId: number) {
+  return jest
+    .spyOn(client, 'getLedgerInfo')
+    .mockResolvedValue({ chain_id: chainId } as unknown as LedgerInfo);
+}
+
+describe('Networks', () => {
+  it('should provide the localnet preset with the expected chain id from the credential', () => {
+    const config = getNetworkFromCredentials({ network: 'localnet', chainId: 4 });
+
+    expect(config).toMatchObject({
+      name: 'Localnet',
+      chainId: 4,
+      nodeUrl: 'http://127.0.0.1:8080/v1',
+      faucetUrl: 'http://127.0.0.1:8081',
+      indexerUrl: 'http://127.0.0.1:8090/v1/graphql',
+    });
+  });
+
+  it('should read the chain id once and accept it when none is configured', async () => {
+    const client = new AptosClientWrapper({ network: 'localnet', authMethod: 'none' });
+    const ledgerInfo = withChainId(client, 4);
+
+    await expect(client.verifyChainId()).resolves.toBe(4);
+    await expect(client.getChainId()).resolves.toBe(4);
+    expect(ledgerInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to sign when the node reports another chain', async () => {
+    const client = new AptosClientWrapper({ network: 'mainnet', authMethod: 'none' });
+    withChainId(client, 2);
+
+    await expect(client.verifyChainId()).rejects.toThrow(
+      'Chain ID mismatch: Mainnet expects chain ID 1',
+    );
+  });
+
+  it('should check a custom network against its configured chain id', async () => {
+    const client = new AptosClientWrapper({
+      network: 'custom',
+      nodeUrl: 'https://node.example.com/v1',
+      chainId: 35,
+      authMethod: 'none',
+    });
+    withChainId(client, 36);
+
+    await expect(client.verifyChainId()).rejects.toThrow('reports 36');
+  });
+});
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { collectCursorPages, collectSequencePages } from '../../nodes/Aptos/transport/pagination';
+
+describe('Pagination', () => {
+  it('should follow cursors until none is returned', async () => {
+    const fetchPage = jest
+      .fn()
+      .mockResolvedValueOnce({ items: [1, 2], cursor: 'c1' })
+      .mockResolvedValueOnce({ items: [3], cursor: undefined });
+
+    const results = await collectCursorPages(fetchPage, 10, 2);
+
+    expect(results).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenNthCalledWith(1, undefined, 2);
+    expect(fetchPage).toHaveBeenNthCalledWith(2, 'c1', 2);
+  });
+
+  it('should stop following cursors at the max items cap', async () => {
+    const fetchPage = jest.fn(async (_cursor: string | undefined, limit: number) => ({
+      items: Array.from({ length: limit }, (_, i) => i),
+      cursor: 'next',
+    }));
+
+    const results = await collectCursorPages(fetchPage, 5, 2);
+
+    expect(results).toHaveLength(5);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenLastCalledWith('next', 1);
+  });
+
+  it('should page by sequence number and stop on a short page', async () => {
+    const events = Array.from({ length: 5 }, (_, i) => ({ sequence_number: String(i + 10) }));
+    const fetchPage = jest.fn(async (start: bigint, limit: number) =>
+      events.filter((e) => BigInt(e.sequence_number) >= start).slice(0, limit),
+    );
+
+    const results = await collectSequencePages(fetchPage, BigInt(10), 100, 2);
+
+    expect(results.map((e) => e.sequence_number)).toEqual(['10', '11', '12', '13', '14']);
+    expect(fetchPage.mock.calls.map(([start]) => start)).toEqual([
+      BigInt(10),
+      BigInt(12),
+      BigInt(14),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import {
+  ResponseCache,
+  loadResponseCache,
+  saveResponseCache,
+} from '../../nodes/Aptos/transport/responseCache';
+
+describe('Response Cache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new ResponseCache(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.getStats()).toEqual({ hits: 3, misses: 1, evictions: 1, size: 2, maxEntries: 2 });
+  });
+
+  it('should fetch once and serve repeats from the cache', async () => {
+    const cache = new ResponseCache();
+    const fetcher = jest.fn().mockResolvedValue({ version: '42' });
+
+    await cache.getOrFetch('txn:42', fetcher);
+    const second = await cache.getOrFetch('txn:42', fetcher);
+
+    expect(second).toEqual({ version: '42' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should not store values rejected by isCacheable', async () => {
+    const cache = new ResponseCache();
+    const fetcher = jest.fn().mockResolvedValue(undefined);
+
+    await cache.getOrFetch('abi:0x1::coin@1', fetcher, (abi) => abi !== undefined);
+    await cache.getOrFetch('abi:0x1::coin@1', fetcher, (abi) => abi !== undefined);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should round trip through workflow static data per namespace', () => {
+    const staticData: IDataObject = {};
+    const cache = new ResponseCache();
+    cache.set('block:1:false', { block_height: '1' });
+    saveResponseCache(staticData, 'https://node-a/v1', cache);
+
+    const restored = loadResponseCache(staticData, 'https://node-a/v1');
+    const other = loadResponseCache(staticData, 'https://node-b/v1');
+
+    expect(restored.get('block:1:false')).toEqual({ block_height: '1' });
+    expect(other.getStats().size).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { Client } from '@aptos-labs/ts-sdk';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeBackoffDelay,
+  getRetryPolicy,
+  parseRetryAfter,
+  withRetry,
+} from '../../nodes/Aptos/transport/retry';
+import { createRetryingClient, getRequestKind } from '../../nodes/Aptos/transport/aptosClient';
+
+const noSleep = jest.fn().mockResolvedValue(undefined);
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, response: { status, headers } });
+}
+
+describe('Retry Transport', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxRetries: 2 };
+
+  beforeEach(() => {
+    noSleep.mockClear();
+  });
+
+  describe('getRetryPolicy', () => {
+    it('should use defaults when nothing is configured', () => {
+      expect(getRetryPolicy({ network: 'mainnet' })).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should let node options override the credential', () => {
+      const result = getRetryPolicy(
+        { maxRetries: 5, retryBaseDelay: 100, retrySubmissions: true },
+        { maxRetries: 0, retrySubmissions: false },
+      );
+      expect(result).toEqual({
+        maxRetries: 0,
+        baseDelayMs: 100,
+        maxDelayMs: 10000,
+        retrySubmissions: false,
+      });
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      expect(parseRetryAfter({ 'Retry-After': '2' })).toBe(2000);
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }, now)).toBe(5000);
+      expect(parseRetryAfter({})).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially and respect the maximum', () => {
+      expect(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, undefined, () => 0.999)).toBe(499);
+      expect(computeBackoffDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 0.5)).toBe(1000);
+      expect(computeBackoffDelay(10, DEFAULT_RETRY_POLICY, undefined, () => 1)).toBe(10000);
+    });
+
+    it('should prefer Retry-After capped at the maximum delay', () => {
+      expect(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, 3000)).toBe(3000);
+      expect(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, 60000)).toBe(10000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry reads on transient errors and count retries', async () => {
+      const counter = { retries: 0 };
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))
+        .mockResolvedValue('ok');
+
+      await expect(
+        withRetry(operation, { policy, kind: 'read', counter, sleep: noSleep }),
+      ).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(counter.retries).toBe(2);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '1' }));
+
+      await expect(withRetry(operation, { policy, kind: 'read', sleep: noSleep })).rejects.toThrow(
+        'HTTP 429',
+      );
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(noSleep).toHaveBeenCalledWith(1000);
+    });
+
+    it('should not retry client errors', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(400));
+
+      await expect(
+        withRetry(operation, { policy, kind: 'read', sleep: noSleep }),
+      ).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only retry submissions that were rate limited', async () => {
+      const failed = jest.fn().mockRejectedValue(httpError(502));
+      await expect(withRetry(failed, { policy, kind: 'submit', sleep: noSleep })).rejects.toThrow();
+      expect(failed).toHaveBeenCalledTimes(1);
+
+      const limited = jest.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValue('hash');
+      await expect(withRetry(limited, { policy, kind: 'submit', sleep: noSleep })).resolves.toBe(
+        'hash',
+      );
+
+      const disabled = jest.fn().mockRejectedValue(httpError(429));
+      await expect(
+        withRetry(disabled, {
+          policy: { ...policy, retrySubmissions: false },
+          kind: 'submit',
+          sleep: noSleep,
+        }),
+      ).rejects.toThrow();
+      expect(disabled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('SDK client provider', () => {
+    it('should classify transaction submission separately from reads', () => {
+      expect(getRequestKind('POST', 'https://node/v1/transactions')).toBe('submit');
+      expect(getRequestKind('POST', 'https://node/v1/transactions/batch')).toBe('submit');
+      expect(getRequestKind('POST', 'https://node/v1/transactions/simulate')).toBe('read');
+      expect(getRequestKind('POST', 'https://node/v1/view')).toBe('read');
+      expect(getRequestKind('GET', 'https://node/v1/transactions')).toBe('read');
+    });
+
+    it('should hand the last response back once retries are exhausted', async () => {
+      const counter = { retries: 0 };
+      const provider = jest.fn().mockResolvedValue({ status: 503, statusText: '', data: {} });
+      const client = createRetryingClient(
+        { provider } as unknown as Client,
+        { ...policy, baseDelayMs: 0, maxDelayMs: 0 },
+        counter,
+      );
+
+      const response = await client.provider({ url: 'https://node/v1/', method: 'GET' });
+
+      expect(response.status).toBe(503);
+      expect(provider).toHaveBeenCalledTimes(3);
+      expect(counter.retries).toBe(2);
+    });
+  });
+});
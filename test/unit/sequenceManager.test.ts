@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  SequenceNumberManager,
+  classifySubmitFailure,
+  runWithConcurrency,
+} from '../../nodes/Aptos/transport/sequenceManager';
+
+function apiError(status: number, message = '') {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    status,
+    data: { message, error_code: 'vm_error' },
+  });
+}
+
+describe('Sequence Number Manager', () => {
+  it('should read the chain once and then hand out numbers locally', async () => {
+    const fetch = jest.fn().mockResolvedValue(BigInt(7));
+    const manager = new SequenceNumberManager(fetch);
+
+    const numbers = await Promise.all([manager.reserve(), manager.reserve(), manager.reserve()]);
+
+    expect(numbers).toEqual([BigInt(7), BigInt(8), BigInt(9)]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse released numbers lowest first to close gaps', async () => {
+    const manager = new SequenceNumberManager(async () => BigInt(0));
+    for (let i = 0; i < 4; i++) await manager.reserve();
+
+    manager.release(BigInt(2));
+    manager.release(BigInt(1));
+    manager.release(BigInt(9));
+
+    expect(await manager.reserve()).toBe(BigInt(1));
+    expect(await manager.reserve()).toBe(BigInt(2));
+    expect(await manager.reserve()).toBe(BigInt(4));
+  });
+
+  it('should skip numbers used elsewhere after a resync', async () => {
+    const fetch = jest.fn().mockResolvedValueOnce(BigInt(0)).mockResolvedValueOnce(BigInt(5));
+    const manager = new SequenceNumberManager(fetch);
+    await manager.reserve();
+    await manager.reserve();
+    manager.release(BigInt(1));
+
+    await manager.resync();
+
+    expect(await manager.reserve()).toBe(BigInt(5));
+  });
+
+  it('should find the gaps below a sequence number after a resync', async () => {
+    const fetch = jest.fn().mockResolvedValueOnce(BigInt(0)).mockResolvedValueOnce(BigInt(1));
+    const manager = new SequenceNumberManager(fetch);
+    for (let i = 0; i < 5; i++) await manager.reserve();
+    manager.release(BigInt(0));
+    manager.release(BigInt(2));
+    manager.release(BigInt(4));
+
+    expect(await manager.findGapsBelow(BigInt(3))).toEqual([BigInt(2)]);
+    expect(await manager.findGapsBelow(BigInt(1))).toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await manager.reserve()).toBe(BigInt(2));
+  });
+
+  it('should share one chain read between concurrent resyncs', async () => {
+    const fetch = jest.fn().mockResolvedValue(BigInt(3));
+    const manager = new SequenceNumberManager(fetch);
+
+    await Promise.all([manager.resync(), manager.resync()]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('classifySubmitFailure', () => {
+  it('should tell stale, busy and rejected submissions apart', () => {
+    expect(classifySubmitFailure(apiError(400, 'Validation Code: SEQUENCE_NUMBER_TOO_OLD'))).toBe(
+      'stale',
+    );
+    expect(classifySubmitFailure(apiError(400, 'Validation Code: SEQUENCE_NUMBER_TOO_NEW'))).toBe(
+      'busy',
+    );
+    expect(classifySubmitFailure(apiError(429))).toBe('busy');
+    expect(classifySubmitFailure(apiError(507, 'Mempool is full'))).toBe('busy');
+    expect(classifySubmitFailure(apiError(400, 'INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE'))).toBe(
+      'rejected',
+    );
+  });
+
+  it('should not assume a transaction was refused when the outcome is unknown', () => {
+    expect(classifySubmitFailure(apiError(503))).toBe('unknown');
+    expect(classifySubmitFailure(apiError(408))).toBe('unknown');
+    expect(classifySubmitFailure(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+      'unknown',
+    );
+    expect(
+      classifySubmitFailure(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' })),
+    ).toBe('busy');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('should keep input order and never exceed the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
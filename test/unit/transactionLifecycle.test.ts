@@ -0,0 +1,45 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  getBumpedGasUnitPrice,
+  getUncommittedState,
+} from '../../nodes/Aptos/transport/transactionLifecycle';
+
+const TRANSACTION = { sequenceNumber: BigInt(5), expirationTimestampSecs: BigInt(1760000020) };
+
+describe('getUncommittedState', () => {
+  it('should keep waiting while the transaction can still commit', () => {
+    expect(getUncommittedState(TRANSACTION, BigInt(1760000019999999), BigInt(5))).toBeUndefined();
+  });
+
+  it('should report expiry once the ledger clock reaches the expiration time', () => {
+    expect(getUncommittedState(TRANSACTION, BigInt(1760000020000000), BigInt(5))).toBe('expired');
+  });
+
+  it('should report a sequence number used by another transaction as replaced', () => {
+    expect(getUncommittedState(TRANSACTION, BigInt(1760000000000000), BigInt(6))).toBe('replaced');
+    expect(getUncommittedState(TRANSACTION, BigInt(1760000030000000), BigInt(6))).toBe('replaced');
+  });
+});
+
+describe('getBumpedGasUnitPrice', () => {
+  it('should raise the price by the percentage, rounding up', () => {
+    expect(getBumpedGasUnitPrice(BigInt(100), { maxGasUnitPrice: 1000 })).toBe(BigInt(120));
+    expect(getBumpedGasUnitPrice(BigInt(101), { maxGasUnitPrice: 1000, percent: 10 })).toBe(
+      BigInt(112),
+    );
+    expect(getBumpedGasUnitPrice(BigInt(1), { maxGasUnitPrice: 1000, percent: 10 })).toBe(
+      BigInt(2),
+    );
+  });
+
+  it('should stop at the ceiling', () => {
+    expect(getBumpedGasUnitPrice(BigInt(100), { maxGasUnitPrice: 120 })).toBe(BigInt(120));
+    expect(getBumpedGasUnitPrice(BigInt(120), { maxGasUnitPrice: 140 })).toBeUndefined();
+  });
+});
@@ -16,6 +16,55 @@ import {
   normalizeAddress,
   shortenAddress,
 } from '../../nodes/Aptos/utils/accountUtils';
+import {
+  concatBytes,
+  decodeBcs,
+  decodeByteVectors,
+  decodeMoveValue,
+  encodeAddress,
+  encodeBool,
+  encodeMoveArg,
+  encodeString,
+  encodeU128,
+  encodeU256,
+  encodeU64,
+  encodeU8,
+  encodeUleb128,
+  encodeVector,
+} from '../../nodes/Aptos/utils/bcsUtils';
+import {
+  coerceFunctionArguments,
+  convertToMoveArg,
+  substituteTypeParams,
+  toMoveJsonArg,
+} from '../../nodes/Aptos/utils/moveUtils';
+import {
+  formatTypeTag,
+  instantiateTypeTag,
+  normalizeMoveType,
+  parseTypeArgumentList,
+  parseTypeTag,
+} from '../../nodes/Aptos/utils/typeTag';
+import {
+  Account,
+  AccountAddress,
+  ChainId,
+  Ed25519PrivateKey,
+  EntryFunction,
+  RawTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+  generateSignedTransaction,
+  generateUserTransactionHash,
+} from '@aptos-labs/ts-sdk';
+import {
+  deserializeAuthenticator,
+  deserializeTransactionData,
+  encodeScriptArguments,
+  hashSignedTransaction,
+  parseHexList,
+} from '../../nodes/Aptos/utils/transactionUtils';
 
 describe('Unit Converter Utils', () => {
   describe('aptToOctas', () => {
@@ -81,3 +130,409 @@ describe('Account Utils', () => {
     });
   });
 });
+
+describe('BCS Utils', () => {
+  describe('decodeBcs', () => {
+    it('should decode primitives in the fullnode JSON shape', () => {
+      expect(decodeBcs('u8', encodeU8(7))).toBe(7);
+      expect(decodeBcs('u64', encodeU64(BigInt('18446744073709551615')))).toBe(
+        '18446744073709551615',
+      );
+      expect(decodeBcs('bool', encodeBool(true))).toBe(true);
+      expect(decodeBcs('0x1::string::String', encodeString('aptos'))).toBe('aptos');
+      expect(decodeBcs('vector<u8>', encodeVector([encodeU8(0xab), encodeU8(0xcd)]))).toBe(
+        '0xabcd',
+      );
+    });
+
+    it('should decode structs with the given layouts', () => {
+      const layouts: Record<string, Array<{ name: string; type: string }>> = {
+        '0x1::coin::Coin<0x1::aptos_coin::AptosCoin>': [{ name: 'value', type: 'u64' }],
+        '0x1::m::Holder': [
+          { name: 'owner', type: 'address' },
+          { name: 'coins', type: 'vector<0x1::coin::Coin<0x1::aptos_coin::AptosCoin>>' },
+        ],
+      };
+      const bytes = concatBytes(encodeAddress('0x1'), encodeVector([encodeU64(5), encodeU64(6)]));
+
+      expect(decodeBcs('0x1::m::Holder', bytes, (type) => layouts[type])).toEqual({
+        owner: normalizeAddress('0x1'),
+        coins: [{ value: '5' }, { value: '6' }],
+      });
+    });
+
+    it('should reject trailing bytes and unknown structs', () => {
+      expect(() => decodeBcs('u8', concatBytes(encodeU8(1), encodeU8(2)))).toThrow(
+        'used 1 of 2 bytes',
+      );
+      expect(() => decodeBcs('0x1::m::Unknown', encodeU8(1))).toThrow('unknown struct layout');
+    });
+  });
+
+  describe('encodeMoveArg', () => {
+    it('should encode 0x1::string::String however it is spelled', () => {
+      expect(encodeMoveArg('0x1::string::String', 'aptos')).toEqual(encodeString('aptos'));
+      expect(encodeMoveArg('0x0001::string::String', 'aptos')).toEqual(encodeString('aptos'));
+      expect(encodeMoveArg('string', 'aptos')).toEqual(encodeString('aptos'));
+    });
+
+    it('should encode options, objects and nested vectors', () => {
+      const option = '0x1::option::Option<u64>';
+      expect(encodeMoveArg(option, null)).toEqual(encodeUleb128(0));
+      expect(encodeMoveArg(option, '5')).toEqual(concatBytes(encodeUleb128(1), encodeU64(5)));
+      expect(encodeMoveArg(option, { vec: ['5'] })).toEqual(encodeMoveArg(option, 5));
+      expect(encodeMoveArg('0x1::object::Object<0x1::fungible_asset::Metadata>', '0xa')).toEqual(
+        encodeAddress('0xa'),
+      );
+      expect(encodeMoveArg('vector<vector<0x1::string::String>>', [['a'], []])).toEqual(
+        encodeVector([encodeVector([encodeString('a')]), encodeVector([])]),
+      );
+      expect(() =>
+        encodeMoveArg('vector<0x1::object::Object<0x1::object::ObjectCore>>', ['0x1', 'bob']),
+      ).toThrow('item 1: Expected an object address');
+    });
+
+    it('should encode fixed point numbers from decimals or raw values', () => {
+      expect(encodeMoveArg('0x1::fixed_point32::FixedPoint32', '1.5')).toEqual(
+        encodeU64(BigInt(3) << BigInt(31)),
+      );
+      expect(encodeMoveArg('0x1::fixed_point32::FixedPoint32', { value: '7' })).toEqual(
+        encodeU64(7),
+      );
+      expect(encodeMoveArg('0x1::fixed_point64::FixedPoint64', 0.25)).toEqual(
+        encodeU128(BigInt(1) << BigInt(62)),
+      );
+      expect(() => encodeMoveArg('0x1::fixed_point32::FixedPoint32', '4294967296')).toThrow(
+        'out of range',
+      );
+      expect(() => encodeMoveArg('0x1::m::Thing', {})).toThrow(
+        'Unsupported BCS type: 0x1::m::Thing',
+      );
+    });
+  });
+
+  describe('decodeMoveValue', () => {
+    it('should decode options, objects and fixed points without a layout', () => {
+      const some = concatBytes(encodeUleb128(1), encodeString('memo'));
+
+      expect(decodeMoveValue('0x1::option::Option<0x1::string::String>', some)).toEqual({
+        vec: ['memo'],
+      });
+      expect(decodeMoveValue('0x1::option::Option<u64>', encodeUleb128(0))).toEqual({ vec: [] });
+      expect(
+        decodeMoveValue('0x1::object::Object<0x1::fungible_asset::Metadata>', encodeAddress('0xa')),
+      ).toEqual({ inner: normalizeAddress('0xa') });
+      expect(
+        decodeMoveValue('0x1::fixed_point32::FixedPoint32', encodeU64(BigInt(2) ** BigInt(32))),
+      ).toEqual({
+        value: '4294967296',
+      });
+      expect(decodeMoveValue('0x1::fixed_point64::FixedPoint64', encodeU128(BigInt(1)))).toEqual({
+        value: '1',
+      });
+    });
+
+    it('should decode hex input, wide integers and nested vectors', () => {
+      const max = (BigInt(1) << BigInt(256)) - BigInt(1);
+      const nested = encodeVector([encodeVector([encodeU64(1), encodeU64(2)]), encodeVector([])]);
+
+      expect(decodeMoveValue('u256', `0x${Buffer.from(encodeU256(max)).toString('hex')}`)).toBe(
+        max.toString(),
+      );
+      expect(decodeMoveValue('vector<vector<u64>>', nested)).toEqual([['1', '2'], []]);
+      expect(
+        decodeMoveValue('vector<vector<u8>>', encodeVector([encodeVector([encodeU8(0xff)])])),
+      ).toEqual(['0xff']);
+    });
+
+    it('should decode structs holding framework structs with the given layouts', () => {
+      const layouts: Record<string, Array<{ name: string; type: string }>> = {
+        '0x1::m::Order': [
+          { name: 'id', type: 'u128' },
+          { name: 'refund', type: '0x1::option::Option<0x1::m::Leg>' },
+        ],
+        '0x1::m::Leg': [{ name: 'amount', type: 'u64' }],
+      };
+      const bytes = concatBytes(encodeU128(BigInt(9)), encodeUleb128(1), encodeU64(30));
+
+      expect(decodeMoveValue('0x1::m::Order', bytes, (type) => layouts[type])).toEqual({
+        id: '9',
+        refund: { vec: [{ amount: '30' }] },
+      });
+    });
+
+    it('should reject truncated input', () => {
+      expect(() => decodeMoveValue('u64', encodeU8(1))).toThrow('Unexpected end of BCS input');
+      expect(() => decodeMoveValue('0x1::string::String', encodeUleb128(4))).toThrow(
+        'Unexpected end of BCS input',
+      );
+    });
+  });
+
+  it('should split view function return values', () => {
+    const first = encodeU64(42);
+    const second = encodeString('ok');
+    const bytes = concatBytes(
+      encodeUleb128(2),
+      encodeUleb128(first.length),
+      first,
+      encodeUleb128(second.length),
+      second,
+    );
+
+    expect(decodeByteVectors(bytes)).toEqual([first, second]);
+  });
+
+  it('should substitute generic type parameters', () => {
+    expect(substituteTypeParams('0x1::coin::Coin<T0>', ['0x1::aptos_coin::AptosCoin'])).toBe(
+      '0x1::coin::Coin<0x1::aptos_coin::AptosCoin>',
+    );
+    expect(substituteTypeParams('0x1::m::T0', ['u8'])).toBe('0x1::m::T0');
+  });
+});
+
+describe('Type Tags', () => {
+  const LONG_ABC = `0x${'abc'.padStart(64, '0')}`;
+
+  it('should parse nested generic types', () => {
+    expect(parseTypeTag('vector<0x1::option::Option<vector<u8>>>')).toEqual({
+      kind: 'vector',
+      elementType: {
+        kind: 'struct',
+        address: '0x1',
+        module: 'option',
+        name: 'Option',
+        typeArgs: [{ kind: 'vector', elementType: { kind: 'u8' } }],
+      },
+    });
+    const store = parseTypeTag(
+      '0x1::coin::CoinStore<0xabc::lp::LP<0x1::aptos_coin::AptosCoin,0xdef::usdc::USDC>>',
+    );
+    expect(store).toMatchObject({
+      kind: 'struct',
+      name: 'CoinStore',
+      typeArgs: [{ kind: 'struct', address: LONG_ABC, name: 'LP', typeArgs: [{}, {}] }],
+    });
+  });
+
+  it('should print types in canonical form', () => {
+    expect(
+      normalizeMoveType(
+        ' 0x0001::coin::CoinStore< 0xABC::lp::LP<0x1::aptos_coin::AptosCoin,u64> >',
+      ),
+    ).toBe(`0x1::coin::CoinStore<${LONG_ABC}::lp::LP<0x1::aptos_coin::AptosCoin, u64>>`);
+    expect(normalizeMoveType('&mut vector<T0>')).toBe('&mut vector<T0>');
+    expect(
+      formatTypeTag(
+        instantiateTypeTag(parseTypeTag('vector<T1>'), [{ kind: 'u8' }, { kind: 'bool' }]),
+      ),
+    ).toBe('vector<bool>');
+  });
+
+  it('should split type argument lists outside of angle brackets', () => {
+    expect(parseTypeArgumentList('0x1::m::Pair<u8, u64>, vector<0x01::m::A>')).toEqual([
+      '0x1::m::Pair<u8, u64>',
+      'vector<0x1::m::A>',
+    ]);
+    expect(parseTypeArgumentList('  ')).toEqual([]);
+  });
+
+  it('should report where a type is malformed', () => {
+    expect(() => parseTypeTag('vector<u8')).toThrow(
+      'Expected ">" at the end of Move type "vector<u8"',
+    );
+    expect(() => parseTypeTag('0x1::coin::CoinStore<>')).toThrow('Unexpected ">" at position 21');
+    expect(() => parseTypeTag('u64 u8')).toThrow('Unexpected "u8" at position 4');
+    expect(() => parseTypeTag('U64')).toThrow('Unknown type "U64"');
+    expect(() => parseTypeTag('0x1::coin')).toThrow('Expected "::" at the end');
+  });
+});
+
+describe('Move Utils', () => {
+  const TRANSFER = {
+    generic_type_params: [{ constraints: [] }],
+    params: ['&signer', 'address', 'u64', '0x1::option::Option<vector<u8>>'],
+  };
+
+  it('should coerce arguments to the parameter types of the ABI', () => {
+    expect(
+      coerceFunctionArguments(
+        '0x1::m::send',
+        TRANSFER,
+        ['0x1::aptos_coin::AptosCoin'],
+        ['0x2', 7, '0x0a0b'],
+      ),
+    ).toEqual([normalizeAddress('0x2'), BigInt(7), [10, 11]]);
+    expect(
+      coerceFunctionArguments(
+        '0x1::m::send',
+        TRANSFER,
+        ['0x1::aptos_coin::AptosCoin'],
+        ['0x2', '7', null],
+      ),
+    ).toEqual([normalizeAddress('0x2'), BigInt(7), null]);
+  });
+
+  it('should name the argument index and expected type in errors', () => {
+    const send = (typeArguments: string[], args: unknown) =>
+      coerceFunctionArguments('0x1::m::send', TRANSFER, typeArguments, args);
+
+    expect(() => send([], ['0x2', 1, null])).toThrow('0x1::m::send takes 1 type argument, got 0');
+    expect(() => send(['u8'], ['0x2'])).toThrow(
+      '0x1::m::send takes 3 arguments (address, u64, 0x1::option::Option<vector<u8>>), got 1',
+    );
+    expect(() => send(['u8'], ['0x2', -1, null])).toThrow(
+      'Argument 1 of 0x1::m::send must be u64: -1 is out of range',
+    );
+    expect(() => send(['u8'], ['bob', 1, null])).toThrow(
+      'Argument 0 of 0x1::m::send must be address',
+    );
+    expect(() => send(['u8'], '0x2')).toThrow('Function arguments must be a JSON array');
+  });
+
+  it('should check integer ranges, booleans and vector items', () => {
+    expect(convertToMoveArg('255', 'u8')).toBe(255);
+    expect(() => convertToMoveArg(256, 'u8')).toThrow('256 is out of range');
+    expect(() => convertToMoveArg(1e20, 'u128')).toThrow('Give large integers as strings');
+    expect(convertToMoveArg('true', 'bool')).toBe(true);
+    expect(() => convertToMoveArg(1, 'bool')).toThrow('expected true or false');
+    expect(() => convertToMoveArg([1, 'x'], 'vector<u64>')).toThrow(
+      'item 1: expected an unsigned integer',
+    );
+    expect(convertToMoveArg('0xdeadbeef', 'vector<u8>')).toEqual([0xde, 0xad, 0xbe, 0xef]);
+    expect(convertToMoveArg('deadbeef', 'vector<u8>')).toEqual([0xde, 0xad, 0xbe, 0xef]);
+    expect(() => convertToMoveArg('hi', 'vector<u8>')).toThrow(
+      'expected a hex string of bytes, got "hi"',
+    );
+    expect(() => convertToMoveArg('0xabc', 'vector<u8>')).toThrow('expected a hex string of bytes');
+    expect(convertToMoveArg({ vec: ['5'] }, '0x1::option::Option<u16>')).toBe(5);
+  });
+
+  it('should write coerced arguments as view function JSON', () => {
+    expect(toMoveJsonArg(BigInt(5), 'u64')).toBe('5');
+    expect(toMoveJsonArg([10, 11], 'vector<u8>')).toBe('0x0a0b');
+    expect(toMoveJsonArg(null, '0x1::option::Option<u64>')).toEqual({ vec: [] });
+    expect(toMoveJsonArg([BigInt(1)], 'vector<u128>')).toEqual(['1']);
+  });
+});
+
+describe('Transaction Utils', () => {
+  it('should encode typed script arguments as BCS', () => {
+    const [recipient, amount, memo] = encodeScriptArguments([
+      { type: 'address', value: '0x2' },
+      { type: 'u64', value: '100' },
+      { type: 'vector<u8>', value: [1, 2] },
+    ]);
+
+    expect(recipient.value).toEqual(encodeAddress('0x2'));
+    expect(amount.value).toEqual(encodeU64(100));
+    expect(memo.value).toEqual(encodeVector([encodeU8(1), encodeU8(2)]));
+    expect(() => encodeScriptArguments([{ type: 'u64' }])).toThrow(
+      'Script argument 0 must be an object with a "type" and a "value"',
+    );
+    expect(() => encodeScriptArguments([{ type: 'signer', value: '0x1' }])).toThrow(
+      'Script argument 0 (signer): Unsupported BCS type: signer',
+    );
+  });
+
+  it('should refuse script arguments that do not fit their type', () => {
+    expect(() => encodeScriptArguments([{ type: 'u64', value: '-1' }])).toThrow(
+      'Script argument 0 (u64): expected an unsigned integer, got "-1"',
+    );
+    expect(() => encodeScriptArguments([{ type: 'u8', value: 256 }])).toThrow(
+      'Script argument 0 (u8): 256 is out of range',
+    );
+    expect(() => encodeScriptArguments([{ type: 'bool', value: 'yes' }])).toThrow(
+      'Script argument 0 (bool): expected true or false',
+    );
+    expect(() => encodeScriptArguments([{ type: 'string', value: 5 }])).toThrow(
+      'Script argument 0 (string): expected a string',
+    );
+    const [disabled, memo] = encodeScriptArguments([
+      { type: 'bool', value: 'false' },
+      { type: 'string', value: 'hi' },
+    ]);
+    expect(disabled.value).toEqual(encodeBool(false));
+    expect(memo.value).toEqual(encodeString('hi'));
+  });
+
+  it('should parse authenticator lists and keep empty positions', () => {
+    expect(parseHexList('["0x01", "", "0x02"]')).toEqual(['0x01', '', '0x02']);
+    expect(parseHexList('0x01, ,0x02')).toEqual(['0x01', '', '0x02']);
+    expect(parseHexList(['0x01'])).toEqual(['0x01']);
+    expect(parseHexList('')).toEqual([]);
+  });
+
+  it('should reject malformed authenticators', () => {
+    expect(() => deserializeAuthenticator('0x')).toThrow('Invalid account authenticator');
+    expect(() =>
+      deserializeAuthenticator(`0x0020${'11'.repeat(32)}40${'22'.repeat(64)}ff`),
+    ).toThrow('1 unexpected trailing bytes');
+  });
+
+  it('should hash signed transaction bytes like the SDK', () => {
+    const account = Account.fromPrivateKey({
+      privateKey: new Ed25519PrivateKey(`0x${'11'.repeat(32)}`),
+    });
+    const payload = new TransactionPayloadEntryFunction(
+      EntryFunction.build('0x1::aptos_account', 'transfer', [], [AccountAddress.TWO, new U64(1)]),
+    );
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        account.accountAddress,
+        BigInt(3),
+        payload,
+        BigInt(1000),
+        BigInt(100),
+        BigInt(1760000000),
+        new ChainId(4),
+      ),
+    );
+    const signed = {
+      transaction,
+      senderAuthenticator: account.signTransactionWithAuthenticator(transaction),
+    };
+
+    expect(hashSignedTransaction(generateSignedTransaction(signed))).toBe(
+      generateUserTransactionHash(signed),
+    );
+  });
+
+  it('should read a pending transaction and reject unknown BCS transaction data', () => {
+    const account = Account.fromPrivateKey({
+      privateKey: new Ed25519PrivateKey(`0x${'11'.repeat(32)}`),
+    });
+    const transaction = new SimpleTransaction(
+      new RawTransaction(
+        account.accountAddress,
+        BigInt(3),
+        new TransactionPayloadEntryFunction(
+          EntryFunction.build(
+            '0x1::aptos_account',
+            'transfer',
+            [],
+            [AccountAddress.TWO, new U64(1)],
+          ),
+        ),
+        BigInt(1000),
+        BigInt(100),
+        BigInt(1760000000),
+        new ChainId(4),
+      ),
+    );
+    const signed = {
+      transaction,
+      senderAuthenticator: account.signTransactionWithAuthenticator(transaction),
+    };
+    const pending = concatBytes(encodeUleb128(1), generateSignedTransaction(signed));
+
+    expect(deserializeTransactionData(pending)).toMatchObject({
+      state: 'pending',
+      type: 'pending_transaction',
+      hash: generateUserTransactionHash(signed),
+    });
+    expect(() => deserializeTransactionData(encodeUleb128(2))).toThrow(
+      'Invalid BCS transaction: unknown transaction data variant 2',
+    );
+  });
+});